@@ -4,11 +4,21 @@ import { CurriculumSelector } from './components/CurriculumSelector.tsx';
 import { StudySession } from './components/StudySession.tsx';
 import { Dashboard } from './components/Dashboard.tsx';
 import { Header } from './components/Header.tsx';
+import { Settings } from './components/Settings.tsx';
+import { ClassDashboard } from './components/ClassDashboard.tsx';
+import { SharedQuizSession } from './components/SharedQuizSession.tsx';
+import { AssignmentBuilder } from './components/AssignmentBuilder.tsx';
+import { QuestionBank } from './components/QuestionBank.tsx';
+import { ReviewSession } from './components/ReviewSession.tsx';
+import { TeacherGate } from './components/TeacherGate.tsx';
 import useLocalStorage from './hooks/useLocalStorage.ts';
 import { useTheme } from './hooks/useTheme.ts';
-import type { AchievementStandard, View, HistoryState } from './types.ts';
+import type { View, HistoryState, AiProviderId, AiProviderSettings, LearningContext, ModelAccessResult } from './types.ts';
 import { EDUCATION_CURRICULUMS } from './constants.ts';
-import { initializeAi, validateApiKey } from './services/geminiService.ts';
+import { initializeAi, validateApiKey, DEFAULT_PROVIDER_SETTINGS } from './services/geminiService.ts';
+import { getActiveProfile, isTeacherProfile, isTeacherUnlocked, profileStorageKey } from './services/profiles.ts';
+import { loadDueReviewItems } from './services/reviewQueue.ts';
+import { parseQuizPackage, takeQuizFromLocation, type QuizPackage } from './services/quizShare.ts';
 
 export type AppStatus = 'prompt_for_key' | 'validating_key' | 'key_valid' | 'key_invalid';
 
@@ -23,24 +33,41 @@ const App: React.FC = () => {
     const selectedStandard = currentHistoryEntry.standard;
 
     const [dashboardKey, setDashboardKey] = useState(Date.now());
+    // Switching profiles reloads the page, so the active profile is fixed for this render tree.
+    const [activeProfile] = useState(getActiveProfile);
+    const [sharedQuiz, setSharedQuiz] = useState<QuizPackage | null>(null);
+    const [reviewDueCount, setReviewDueCount] = useState(0);
+    const [isTeacherMode, setIsTeacherMode] = useState(isTeacherUnlocked);
     
-    const [apiKey, setApiKey] = useLocalStorage<string>('gemini_api_key', '');
+    const [providerSettings, setProviderSettings] = useLocalStorage<AiProviderSettings>(profileStorageKey('ai_provider_settings'), DEFAULT_PROVIDER_SETTINGS);
+    // Keys are stored per provider so switching back and forth keeps both.
+    const [geminiApiKey, setGeminiApiKey] = useLocalStorage<string>(profileStorageKey('gemini_api_key'), '');
+    const [openAiApiKey, setOpenAiApiKey] = useLocalStorage<string>(profileStorageKey('openai_compatible_api_key'), '');
+    const apiKeys: Record<AiProviderId, string> = { 'gemini': geminiApiKey, 'openai-compatible': openAiApiKey, 'demo': '' };
+    const apiKey = apiKeys[providerSettings.providerId];
     const [appStatus, setAppStatus] = useState<AppStatus>('prompt_for_key');
     const [apiKeyError, setApiKeyError] = useState<string | null>(null);
+    const [modelAccess, setModelAccess] = useState<ModelAccessResult[] | null>(null);
 
-    const handleApiKeySubmission = useCallback(async (newKey: string) => {
-        setApiKey(newKey);
+    const handleApiKeySubmission = useCallback(async (newKey: string, settings: AiProviderSettings) => {
+        setProviderSettings(settings);
+        if (settings.providerId === 'openai-compatible') {
+            setOpenAiApiKey(newKey);
+        } else if (settings.providerId === 'gemini') {
+            setGeminiApiKey(newKey);
+        }
         setAppStatus('validating_key');
         setApiKeyError(null);
         try {
-            await validateApiKey(newKey);
-            initializeAi(newKey);
+            setModelAccess(await validateApiKey(newKey, settings));
+            initializeAi(newKey, settings);
             setAppStatus('key_valid');
         } catch (error) {
+            setModelAccess(null);
             setApiKeyError(error instanceof Error ? error.message : "알 수 없는 오류가 발생했습니다.");
             setAppStatus('key_invalid');
         }
-    }, [setApiKey]);
+    }, [setProviderSettings, setGeminiApiKey, setOpenAiApiKey]);
 
     useEffect(() => {
         if ('serviceWorker' in navigator) {
@@ -55,15 +82,22 @@ const App: React.FC = () => {
             });
         }
         
-        if (apiKey) {
-            handleApiKeySubmission(apiKey);
+        if (apiKey || providerSettings.baseUrl || providerSettings.providerId === 'demo') {
+            handleApiKeySubmission(apiKey, providerSettings);
         } else {
             setAppStatus('prompt_for_key');
         }
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
     
-    const navigate = useCallback((view: View, standard: { subjectName: string, standard: AchievementStandard } | null = null) => {
+    // Quizzes and reviews change what is due, and both end by navigating, so recount per view.
+    useEffect(() => {
+        loadDueReviewItems()
+            .then(items => setReviewDueCount(items.length))
+            .catch(error => console.error("Failed to count review items:", error));
+    }, [currentView]);
+
+    const navigate = useCallback((view: View, standard: LearningContext | null = null) => {
         const newHistory = history.slice(0, historyIndex + 1);
         const newEntry: HistoryState = { view, standard };
 
@@ -77,14 +111,37 @@ const App: React.FC = () => {
         setHistoryIndex(newHistory.length - 1);
     }, [history, historyIndex]);
 
-    const handleStartStudy = useCallback((subjectName: string, standard: AchievementStandard) => {
+    const handleStartStudy = useCallback((context: LearningContext) => {
         if (appStatus !== 'key_valid') {
             alert("학습을 시작하려면 유효한 API 키가 필요합니다.");
             return;
         }
-        navigate('study', { subjectName, standard });
+        navigate('study', context);
     }, [navigate, appStatus]);
 
+    const openSharedQuiz = useCallback((quiz: QuizPackage) => {
+        setSharedQuiz(quiz);
+        navigate('shared-quiz', quiz.context);
+    }, [navigate]);
+
+    // A shared quiz link carries the quiz in the URL fragment; it needs no API key to solve.
+    useEffect(() => {
+        takeQuizFromLocation()
+            .then(quiz => {
+                if (quiz) openSharedQuiz(quiz);
+            })
+            .catch(error => alert(error instanceof Error ? error.message : "공유 퀴즈를 열 수 없습니다."));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const handleOpenSharedQuizFile = useCallback(async (file: File) => {
+        try {
+            openSharedQuiz(parseQuizPackage(await file.text()));
+        } catch (error) {
+            alert(error instanceof Error ? error.message : "공유 퀴즈를 열 수 없습니다.");
+        }
+    }, [openSharedQuiz]);
+
     const handleGoHome = useCallback(() => {
         navigate('selector');
     }, [navigate]);
@@ -94,6 +151,34 @@ const App: React.FC = () => {
         navigate('dashboard');
     }, [navigate]);
     
+    const handleShowClass = useCallback(() => {
+        navigate('class');
+    }, [navigate]);
+
+    const handleShowAssignmentBuilder = useCallback(() => {
+        if (appStatus !== 'key_valid') {
+            alert("과제 문제를 만들려면 유효한 API 키가 필요합니다.");
+            return;
+        }
+        navigate('assignment');
+    }, [navigate, appStatus]);
+
+    const handleShowReview = useCallback(() => {
+        navigate('review');
+    }, [navigate]);
+
+    const handleShowQuestionBank = useCallback(() => {
+        navigate('bank');
+    }, [navigate]);
+
+    const handleShowSettings = useCallback(() => {
+        navigate('settings');
+    }, [navigate]);
+
+    const handleSaveSettings = useCallback((settings: AiProviderSettings) => {
+        handleApiKeySubmission(apiKeys[settings.providerId], settings);
+    }, [handleApiKeySubmission, apiKeys]);
+
     const canGoBack = historyIndex > 0;
     const canGoForward = historyIndex < history.length - 1;
 
@@ -113,36 +198,85 @@ const App: React.FC = () => {
         setIsCoolMode(prev => !prev);
     }, []);
 
+    const renderClassView = () => {
+        switch (currentView) {
+            case 'assignment':
+                return <AssignmentBuilder educationCurriculums={EDUCATION_CURRICULUMS} onGoBack={handleShowClass} />;
+            case 'bank':
+                return <QuestionBank educationCurriculums={EDUCATION_CURRICULUMS} onGoBack={handleShowClass} />;
+            default:
+                return <ClassDashboard onGoBack={handleShowDashboard} onCreateAssignment={handleShowAssignmentBuilder} onShowQuestionBank={handleShowQuestionBank} />;
+        }
+    };
+
     const renderContent = () => {
         switch (currentView) {
             case 'study':
                 if (selectedStandard) {
-                    return <StudySession subjectName={selectedStandard.subjectName} standard={selectedStandard.standard} onSessionEnd={handleShowDashboard} onGoHome={handleGoHome} />;
+                    return <StudySession context={selectedStandard} onSessionEnd={handleShowDashboard} onGoHome={handleGoHome} />;
                 }
                 return (
                     <CurriculumSelector 
                         educationCurriculums={EDUCATION_CURRICULUMS} 
                         onStartStudy={handleStartStudy}
-                        apiKey={apiKey}
+                        apiKeys={apiKeys}
+                        providerSettings={providerSettings}
                         onApiKeySubmit={handleApiKeySubmission}
                         apiStatus={appStatus}
                         apiError={apiKeyError}
                         isCoolMode={isCoolMode}
+                        preferredGrade={activeProfile.grade}
+                        onOpenSharedQuizFile={handleOpenSharedQuizFile}
                     />
                 );
             case 'dashboard':
-                return <Dashboard key={dashboardKey} onGoHome={handleGoHome} />;
+                return (
+                    <Dashboard
+                        key={dashboardKey}
+                        onGoHome={handleGoHome}
+                        onShowClass={isTeacherProfile(activeProfile) ? handleShowClass : undefined}
+                        onStartReview={handleShowReview}
+                        reviewDueCount={reviewDueCount}
+                    />
+                );
+            case 'review':
+                return <ReviewSession onSessionEnd={handleShowDashboard} />;
+            case 'class':
+            case 'assignment':
+            case 'bank':
+                // Class views show every learner's answers and answer keys; a teacher's PIN opens them.
+                if (!isTeacherMode) {
+                    return <TeacherGate profile={activeProfile} onUnlock={() => setIsTeacherMode(true)} onCancel={handleShowDashboard} />;
+                }
+                return renderClassView();
+            case 'shared-quiz':
+                // Keyed by creation time so opening another shared quiz starts fresh.
+                return sharedQuiz && <SharedQuizSession key={sharedQuiz.createdAt} quiz={sharedQuiz} onSessionEnd={handleShowDashboard} />;
+            case 'settings':
+                return (
+                    <Settings
+                        providerSettings={providerSettings}
+                        onSave={handleSaveSettings}
+                        apiStatus={appStatus}
+                        apiError={apiKeyError}
+                        modelAccess={modelAccess}
+                        onGoHome={handleGoHome}
+                    />
+                );
             case 'selector':
             default:
                 return (
                     <CurriculumSelector 
                         educationCurriculums={EDUCATION_CURRICULUMS} 
                         onStartStudy={handleStartStudy}
-                        apiKey={apiKey}
+                        apiKeys={apiKeys}
+                        providerSettings={providerSettings}
                         onApiKeySubmit={handleApiKeySubmission}
                         apiStatus={appStatus}
                         apiError={apiKeyError}
                         isCoolMode={isCoolMode}
+                        preferredGrade={activeProfile.grade}
+                        onOpenSharedQuizFile={handleOpenSharedQuizFile}
                     />
                 );
         }
@@ -157,6 +291,7 @@ const App: React.FC = () => {
             <Header
               onGoHome={handleGoHome}
               onShowDashboard={handleShowDashboard}
+              onShowSettings={handleShowSettings}
               onBack={handleBack}
               onForward={handleForward}
               canGoBack={canGoBack}
@@ -165,6 +300,9 @@ const App: React.FC = () => {
               setTheme={setTheme}
               onToggleCoolMode={handleToggleCoolMode}
               isCoolMode={isCoolMode}
+              profile={activeProfile}
+              reviewDueCount={reviewDueCount}
+              onShowReview={handleShowReview}
             />
             <main className="container mx-auto p-2 md:p-6">
                 {renderContent()}
@@ -0,0 +1,361 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { DifficultyLevel, EducationCurriculum, LearningContext, PromptRevision, QuestionType, QuizQuestion } from '../types.ts';
+import { DEFAULT_HINT_PENALTY, DIFFICULTY_LABELS, HINT_PENALTY_OPTIONS, QUESTION_TYPE_LABELS } from '../constants.ts';
+import { Button } from './common/Button.tsx';
+import { Card } from './common/Card.tsx';
+import { Spinner } from './common/Spinner.tsx';
+import { ErrorNotice } from './common/ErrorNotice.tsx';
+import { QuizShareBar } from './QuizShareBar.tsx';
+import { QuestionEditor } from './QuestionEditor.tsx';
+import { generateQuestions, type QuestionRequest } from '../services/geminiService.ts';
+import { createQuizPackage } from '../services/quizShare.ts';
+import { addQuestionsToBank } from '../services/questionBank.ts';
+import { isCancelledError, toErrorInfo, type AiErrorInfo } from '../services/aiErrors.ts';
+
+interface AssignmentBuilderProps {
+    educationCurriculums: EducationCurriculum[];
+    onGoBack: () => void;
+}
+
+// What to generate for one picked standard.
+interface StandardSection {
+    context: LearningContext;
+    counts: Record<QuestionType, number>;
+    difficulty: DifficultyLevel;
+}
+
+// A generated question in the assignment, with the standard it assesses.
+interface AssignmentItem {
+    key: number;
+    standardId: string;
+    question: QuizQuestion;
+}
+
+const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
+
+const defaultCounts: Record<QuestionType, number> = {
+    'multiple-choice': 2,
+    'multiple-select': 0,
+    'short-answer': 1,
+    'ox': 0,
+    'creativity': 0,
+    'matching': 0,
+    'ordering': 0,
+    'cloze': 0,
+};
+
+const sectionTotal = (section: StandardSection) =>
+    QUESTION_TYPES.reduce((sum, type) => sum + section.counts[type], 0);
+
+const inputClassName = 'w-full bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none';
+
+/**
+ * Teacher tool for an assignment over several standards of one grade: pick the standards,
+ * generate questions for each, edit and order them, then share it like a single quiz.
+ */
+export const AssignmentBuilder: React.FC<AssignmentBuilderProps> = ({ educationCurriculums, onGoBack }) => {
+    const subjects = useMemo(() => educationCurriculums.flatMap(curriculum => curriculum.subjects), [educationCurriculums]);
+    const [subjectName, setSubjectName] = useState('');
+    const [grade, setGrade] = useState('');
+    const [sections, setSections] = useState<StandardSection[]>([]);
+
+    const [items, setItems] = useState<AssignmentItem[]>([]);
+    // The template revision each standard's questions were generated with.
+    const [quizPrompts, setQuizPrompts] = useState<Record<string, PromptRevision>>({});
+    const [editingKey, setEditingKey] = useState<number | null>(null);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [error, setError] = useState<AiErrorInfo | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+    const nextKeyRef = useRef(0);
+
+    const [bankMessage, setBankMessage] = useState<string | null>(null);
+
+    const [title, setTitle] = useState('');
+    const [dueDate, setDueDate] = useState('');
+    const [hintPenalty, setHintPenalty] = useState<number>(DEFAULT_HINT_PENALTY);
+
+    const subject = subjects.find(item => item.name === subjectName);
+    const gradeContent = subject?.grades.find(item => item.grade === grade);
+    const isGenerating = progress !== null;
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const handleSubjectChange = (name: string) => {
+        setSubjectName(name);
+        setGrade('');
+        setSections([]);
+    };
+
+    const handleGradeChange = (value: string) => {
+        setGrade(value);
+        setSections([]);
+    };
+
+    const toggleStandard = (context: LearningContext) => {
+        setSections(prev => prev.some(section => section.context.standard.id === context.standard.id)
+            ? prev.filter(section => section.context.standard.id !== context.standard.id)
+            : [...prev, { context, counts: { ...defaultCounts }, difficulty: 'medium' }]);
+    };
+
+    const updateSection = (standardId: string, patch: Partial<StandardSection>) => {
+        setSections(prev => prev.map(section => section.context.standard.id === standardId ? { ...section, ...patch } : section));
+    };
+
+    const handleGenerate = async () => {
+        const pending = sections.filter(section => sectionTotal(section) > 0);
+        if (pending.length === 0) return;
+        if (items.length > 0 && !window.confirm("지금 만든 문제를 지우고 새로 만드시겠습니까?")) return;
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setItems([]);
+        setQuizPrompts({});
+        setEditingKey(null);
+        setError(null);
+        setProgress({ done: 0, total: pending.length });
+        try {
+            // One standard at a time keeps the request rate and the budget check predictable.
+            for (const [index, section] of pending.entries()) {
+                const requests: QuestionRequest[] = QUESTION_TYPES
+                    .map(type => ({ type, count: section.counts[type] }))
+                    .filter(({ count }) => count > 0);
+                const generated = await generateQuestions(section.context, requests, section.difficulty, controller.signal);
+                const standardId = section.context.standard.id;
+                setItems(prev => [...prev, ...generated.questions.map(question => ({ key: nextKeyRef.current++, standardId, question }))]);
+                setQuizPrompts(prev => ({ ...prev, [standardId]: generated.prompt }));
+                setProgress({ done: index + 1, total: pending.length });
+            }
+        } catch (err) {
+            if (!isCancelledError(err)) {
+                setError(toErrorInfo(err, '문제를 생성하는 데 실패했습니다.'));
+            }
+        } finally {
+            controllerRef.current = null;
+            setProgress(null);
+        }
+    };
+
+    const updateItem = (key: number, question: QuizQuestion) => {
+        setItems(prev => prev.map(item => item.key === key ? { ...item, question } : item));
+    };
+
+    const moveItem = (index: number, offset: number) => {
+        setItems(prev => {
+            const next = [...prev];
+            const [moved] = next.splice(index, 1);
+            next.splice(index + offset, 0, moved);
+            return next;
+        });
+    };
+
+    const removeItem = (key: number) => {
+        setItems(prev => prev.filter(item => item.key !== key));
+    };
+
+    const handleSaveToBank = async () => {
+        try {
+            let added = 0;
+            for (const section of sections) {
+                const standardId = section.context.standard.id;
+                const questions = items.filter(item => item.standardId === standardId).map(item => item.question);
+                if (questions.length > 0) {
+                    added += await addQuestionsToBank(standardId, section.difficulty, questions);
+                }
+            }
+            setBankMessage(added > 0 ? `문제 은행에 ${added}문항을 저장했습니다.` : "이미 문제 은행에 있는 문제입니다.");
+        } catch (err) {
+            setBankMessage(err instanceof Error ? err.message : "문제 은행에 저장하지 못했습니다.");
+        }
+    };
+
+    // Standards whose questions were all removed are left out, so they get no empty result.
+    const assignmentPackage = useMemo(() => {
+        const contexts = sections
+            .map(section => section.context)
+            .filter(context => items.some(item => item.standardId === context.standard.id));
+        if (!title.trim() || contexts.length === 0) return null;
+        const prompts = Object.fromEntries(contexts.flatMap(context => {
+            const revision = quizPrompts[context.standard.id];
+            return revision ? [[context.standard.id, revision]] : [];
+        }));
+        // A package-wide revision is only recorded when every section used the same one.
+        const revisions = Object.values(prompts);
+        const shared = revisions.length === contexts.length && revisions.every(revision =>
+            revision.templateId === revisions[0].templateId && revision.version === revisions[0].version
+        ) ? revisions[0] : undefined;
+        return createQuizPackage(contexts[0], items.map(item => item.question), shared, {
+            title: title.trim(),
+            dueDate: dueDate || undefined,
+            contexts,
+            questionStandardIds: items.map(item => item.standardId),
+            quizPrompts: revisions.length > 0 ? prompts : undefined,
+        }, hintPenalty);
+    }, [sections, items, quizPrompts, title, dueDate, hintPenalty]);
+
+    return (
+        <div className="max-w-3xl mx-auto px-2 pb-20">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-slate-900 dark:text-white">과제 만들기 (교사용)</h1>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">여러 성취기준의 문제를 모아 한 번에 공유합니다.</p>
+                </div>
+                <Button onClick={onGoBack} variant="secondary" className="!py-2 !px-4 text-sm">돌아가기</Button>
+            </div>
+
+            <Card className="mb-6">
+                <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-3">1. 성취기준 고르기</h3>
+                <div className="grid grid-cols-2 gap-2 mb-3">
+                    <select value={subjectName} onChange={e => handleSubjectChange(e.target.value)} className={inputClassName} aria-label="과목">
+                        <option value="">과목 선택</option>
+                        {subjects.map(item => <option key={item.name} value={item.name}>{item.name}</option>)}
+                    </select>
+                    <select value={grade} onChange={e => handleGradeChange(e.target.value)} disabled={!subject} className={inputClassName} aria-label="학년군">
+                        <option value="">학년군 선택</option>
+                        {subject?.grades.map(item => <option key={item.grade} value={item.grade}>{item.grade}</option>)}
+                    </select>
+                </div>
+                {subject && gradeContent && (
+                    <div className="space-y-3 max-h-80 overflow-y-auto pr-1">
+                        {gradeContent.units.filter(unit => unit.standards.length > 0).map(unit => (
+                            <div key={unit.name}>
+                                <p className="text-sm font-bold text-slate-700 dark:text-slate-200 mb-1">{unit.name}</p>
+                                <ul className="space-y-1">
+                                    {unit.standards.map(standard => (
+                                        <li key={standard.id}>
+                                            <label className="flex items-start gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={sections.some(section => section.context.standard.id === standard.id)}
+                                                    onChange={() => toggleStandard({ subjectName: subject.name, grade: gradeContent.grade, unitName: unit.name, standard })}
+                                                    className="mt-1"
+                                                />
+                                                <span><span className="font-semibold">{standard.id}</span> {standard.description}</span>
+                                            </label>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </Card>
+
+            {sections.length > 0 && (
+                <Card className="mb-6">
+                    <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-3">2. 문항 수와 난이도</h3>
+                    <div className="space-y-3">
+                        {sections.map(section => (
+                            <div key={section.context.standard.id} className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                                <p className="text-sm text-slate-700 dark:text-slate-200 mb-2 leading-snug">
+                                    <span className="font-semibold">{section.context.standard.id}</span> {section.context.standard.description}
+                                </p>
+                                <div className="grid grid-cols-4 gap-2">
+                                    {QUESTION_TYPES.map(type => (
+                                        <label key={type} className="block text-xs font-medium text-slate-700 dark:text-slate-300 text-center">
+                                            {QUESTION_TYPE_LABELS[type]}
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                value={section.counts[type]}
+                                                onChange={e => updateSection(section.context.standard.id, {
+                                                    counts: { ...section.counts, [type]: Math.max(0, parseInt(e.target.value, 10) || 0) },
+                                                })}
+                                                className={`${inputClassName} mt-0.5 !p-1.5 text-center`}
+                                            />
+                                        </label>
+                                    ))}
+                                    <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 text-center">
+                                        난이도
+                                        <select
+                                            value={section.difficulty}
+                                            onChange={e => updateSection(section.context.standard.id, { difficulty: e.target.value as DifficultyLevel })}
+                                            className={`${inputClassName} mt-0.5 !p-1.5`}
+                                        >
+                                            {(Object.keys(DIFFICULTY_LABELS) as DifficultyLevel[]).map(level => (
+                                                <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex flex-col gap-2 mt-4">
+                        <Button onClick={handleGenerate} disabled={isGenerating || !sections.some(section => sectionTotal(section) > 0)} className="w-full !py-3 text-base">
+                            {isGenerating ? <Spinner size="sm" /> : '문제 만들기'}
+                        </Button>
+                        {progress && (
+                            <>
+                                <p className="text-xs text-center text-slate-500 dark:text-slate-400">성취기준 {progress.done}/{progress.total} 완료</p>
+                                <Button variant="secondary" onClick={() => controllerRef.current?.abort()} className="w-full !py-2 text-sm">생성 중지</Button>
+                            </>
+                        )}
+                    </div>
+                    {error && <ErrorNotice error={error} className="mt-2 text-center" />}
+                </Card>
+            )}
+
+            {items.length > 0 && (
+                <Card className="mb-6">
+                    <div className="flex justify-between items-center gap-2 mb-3">
+                        <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">3. 문제 확인 및 수정 ({items.length}문항)</h3>
+                        <Button variant="secondary" onClick={handleSaveToBank} disabled={isGenerating} className="!py-1.5 !px-3 text-xs shrink-0">문제 은행에 저장</Button>
+                    </div>
+                    {bankMessage && <p className="text-xs text-right text-slate-500 dark:text-slate-400 -mt-2 mb-2">{bankMessage}</p>}
+                    <ol className="space-y-2">
+                        {items.map((item, index) => (
+                            <li key={item.key} className="p-3 rounded-lg border border-slate-200 dark:border-slate-700">
+                                <div className="flex items-start gap-2">
+                                    <span className="font-bold text-neon-blue text-sm shrink-0">{index + 1}.</span>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                                            {item.standardId} · {QUESTION_TYPE_LABELS[item.question.questionType]}
+                                        </p>
+                                        <p className="text-sm text-slate-800 dark:text-slate-100 whitespace-pre-wrap break-words">{item.question.question}</p>
+                                    </div>
+                                    <div className="flex items-center gap-1 shrink-0">
+                                        <button onClick={() => moveItem(index, -1)} disabled={index === 0} className="p-1 text-slate-500 hover:text-neon-blue disabled:opacity-30" aria-label="위로">▲</button>
+                                        <button onClick={() => moveItem(index, 1)} disabled={index === items.length - 1} className="p-1 text-slate-500 hover:text-neon-blue disabled:opacity-30" aria-label="아래로">▼</button>
+                                        <button onClick={() => setEditingKey(editingKey === item.key ? null : item.key)} className="px-2 py-1 text-xs text-neon-blue hover:underline">
+                                            {editingKey === item.key ? '닫기' : '수정'}
+                                        </button>
+                                        <button onClick={() => removeItem(item.key)} className="px-2 py-1 text-xs text-red-600 dark:text-red-400 hover:underline">삭제</button>
+                                    </div>
+                                </div>
+                                {editingKey === item.key && <QuestionEditor question={item.question} onChange={question => updateItem(item.key, question)} />}
+                            </li>
+                        ))}
+                    </ol>
+                </Card>
+            )}
+
+            {items.length > 0 && !isGenerating && (
+                <Card>
+                    <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-3">4. 과제로 내보내기</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 mb-3">
+                        <label className="sm:col-span-2 block text-xs font-bold text-slate-700 dark:text-slate-300">
+                            과제 제목
+                            <input value={title} onChange={e => setTitle(e.target.value)} maxLength={60} placeholder="예: 3단원 복습 과제" className={`${inputClassName} mt-0.5 font-normal`} />
+                        </label>
+                        <label className="block text-xs font-bold text-slate-700 dark:text-slate-300">
+                            마감일 (선택)
+                            <input type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} className={`${inputClassName} mt-0.5 font-normal`} />
+                        </label>
+                        <label className="block text-xs font-bold text-slate-700 dark:text-slate-300">
+                            힌트 1개당 감점
+                            <select value={hintPenalty} onChange={e => setHintPenalty(Number(e.target.value))} className={`${inputClassName} mt-0.5 font-normal`}>
+                                {HINT_PENALTY_OPTIONS.map(penalty => (
+                                    <option key={penalty} value={penalty}>{penalty === 0 ? '감점 없음' : `${Math.round(penalty * 100)}%`}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                    {assignmentPackage ? (
+                        <QuizShareBar quiz={assignmentPackage} label="학생들에게 과제 보내기" />
+                    ) : (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">과제 제목을 입력하면 링크나 파일로 공유할 수 있습니다.</p>
+                    )}
+                </Card>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,137 @@
+import React, { useRef, useState } from 'react';
+import { Button } from './common/Button.tsx';
+import { Card } from './common/Card.tsx';
+import { Spinner } from './common/Spinner.tsx';
+import { downloadBackup, parseBackup, previewBackup, restoreBackup, type BackupFile, type BackupPreview } from '../services/backup.ts';
+
+interface BackupPanelProps {
+    // Called after history has been merged so the dashboard can reload it.
+    onRestored: () => void;
+}
+
+interface PendingImport {
+    backup: BackupFile;
+    preview: BackupPreview;
+}
+
+const formatDate = (iso: string) => {
+    const date = new Date(iso);
+    return Number.isNaN(date.getTime()) ? '알 수 없음' : date.toLocaleString('ko-KR');
+};
+
+export const BackupPanel: React.FC<BackupPanelProps> = ({ onRestored }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const [pending, setPending] = useState<PendingImport | null>(null);
+    const [includeSettings, setIncludeSettings] = useState(false);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setMessage(null);
+        try {
+            await downloadBackup();
+        } catch (error) {
+            setMessage({ text: error instanceof Error ? error.message : "백업 파일을 만들지 못했습니다.", isError: true });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        // Reset so picking the same file again still fires a change.
+        event.target.value = '';
+        if (!file) return;
+        setMessage(null);
+        setPending(null);
+        try {
+            const backup = parseBackup(await file.text());
+            setPending({ backup, preview: await previewBackup(backup) });
+            setIncludeSettings(false);
+        } catch (error) {
+            setMessage({ text: error instanceof Error ? error.message : "백업 파일을 읽지 못했습니다.", isError: true });
+        }
+    };
+
+    const handleImport = async () => {
+        if (!pending) return;
+        setIsImporting(true);
+        try {
+            await restoreBackup(pending.backup, pending.preview, includeSettings);
+            setPending(null);
+            onRestored();
+            if (includeSettings) {
+                if (window.confirm("설정은 앱을 새로고침해야 적용됩니다. 지금 새로고침할까요?")) {
+                    window.location.reload();
+                    return;
+                }
+            }
+            setMessage({ text: `학습 기록 ${pending.preview.newResults.length}개를 가져왔습니다.`, isError: false });
+        } catch (error) {
+            setMessage({ text: error instanceof Error ? error.message : "백업을 가져오지 못했습니다.", isError: true });
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const preview = pending?.preview;
+
+    return (
+        <Card className="mb-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                    <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">백업 및 복원</h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 leading-snug">
+                        학습 기록, 설정, 저장된 학습 자료를 파일 하나로 내보내 다른 기기나 브라우저로 옮길 수 있습니다. API 키는 포함되지 않습니다.
+                    </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                    <Button variant="secondary" onClick={handleExport} disabled={isExporting} className="!py-2 !px-4 text-sm">
+                        {isExporting ? <Spinner size="sm" /> : '내보내기'}
+                    </Button>
+                    <Button variant="secondary" onClick={() => fileInputRef.current?.click()} disabled={isImporting} className="!py-2 !px-4 text-sm">
+                        가져오기
+                    </Button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+                </div>
+            </div>
+
+            {preview && (
+                <div className="mt-4 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/40 text-sm text-slate-700 dark:text-slate-200">
+                    <p className="font-bold mb-2">가져올 내용 ({formatDate(preview.exportedAt)}에 만든 백업)</p>
+                    <ul className="list-disc pl-5 space-y-0.5 text-xs">
+                        <li>새 학습 기록 {preview.newResults.length}개</li>
+                        {preview.duplicateCount > 0 && <li>이미 있는 학습 기록 {preview.duplicateCount}개는 건너뜁니다</li>}
+                        {preview.invalidCount > 0 && <li>읽을 수 없는 기록 {preview.invalidCount}개는 건너뜁니다</li>}
+                        <li>AI 사용량 기록 {preview.usageRecordCount}개 (겹치는 기록은 합쳐집니다)</li>
+                        <li>저장된 학습 자료 {preview.cacheEntryCount}개</li>
+                        {preview.transcriptCount > 0 && <li>추가 질문 대화 {preview.transcriptCount}개 (겹치면 더 최근 대화를 남깁니다)</li>}
+                        {preview.bankQuestionCount > 0 && <li>문제 은행 문제 {preview.bankQuestionCount}개 (이미 있는 문제는 건너뜁니다)</li>}
+                        {preview.reviewItemCount > 0 && <li>복습할 문제 {preview.reviewItemCount}개 (복습 진행 상황 포함)</li>}
+                        {preview.hasDiagnosisReport && <li>AI 학습 진단 결과</li>}
+                    </ul>
+                    {preview.hasSettings && (
+                        <label className="flex items-center gap-2 mt-3 text-xs cursor-pointer">
+                            <input type="checkbox" checked={includeSettings} onChange={e => setIncludeSettings(e.target.checked)} />
+                            화면 테마, AI 서비스·모델 설정, 일일 예산도 백업의 값으로 바꾸기
+                        </label>
+                    )}
+                    <div className="flex justify-end gap-2 mt-3">
+                        <Button variant="secondary" onClick={() => setPending(null)} disabled={isImporting} className="!py-1.5 !px-3 text-xs">
+                            취소
+                        </Button>
+                        <Button onClick={handleImport} disabled={isImporting} className="!py-1.5 !px-3 text-xs">
+                            {isImporting ? <Spinner size="sm" /> : '가져오기'}
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {message && (
+                <p className={`mt-3 text-xs ${message.isError ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>{message.text}</p>
+            )}
+        </Card>
+    );
+};
@@ -0,0 +1,298 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { QuizResult, RosterStudent } from '../types.ts';
+import { Button } from './common/Button.tsx';
+import { Card } from './common/Card.tsx';
+import { Spinner } from './common/Spinner.tsx';
+import { StatsCard } from './common/StatsCard.tsx';
+import { QuizReviewModal } from './QuizReviewModal.tsx';
+import { importRosterFile, loadRoster, removeRosterStudent, summarizeClass } from '../services/classRoster.ts';
+import { loadQuizImages } from '../services/studyHistory.ts';
+import { findDetailsForStandard } from '../services/curriculum.ts';
+
+interface ClassDashboardProps {
+    onGoBack: () => void;
+    onCreateAssignment: () => void;
+    onShowQuestionBank: () => void;
+}
+
+interface ReviewTarget {
+    student: RosterStudent;
+    result: QuizResult;
+}
+
+const LOWEST_STANDARDS = 5;
+
+const scoreClassName = (score: number) => {
+    if (score >= 80) return 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300';
+    if (score >= 60) return 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300';
+    return 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300';
+};
+
+const describeStandard = (standardId: string) => findDetailsForStandard(standardId)?.standardDescription || standardId;
+
+export const ClassDashboard: React.FC<ClassDashboardProps> = ({ onGoBack, onCreateAssignment, onShowQuestionBank }) => {
+    const [students, setStudents] = useState<RosterStudent[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const [selectedStudentId, setSelectedStudentId] = useState<string | null>(null);
+    const [reviewTarget, setReviewTarget] = useState<ReviewTarget | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setStudents(await loadRoster());
+        } catch (error) {
+            setMessage({ text: error instanceof Error ? error.message : "학급 명단을 불러오지 못했습니다.", isError: true });
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const summary = useMemo(() => summarizeClass(students), [students]);
+    const lowestStandards = useMemo(
+        () => [...summary.standards].sort((a, b) => a.average - b.average).slice(0, LOWEST_STANDARDS),
+        [summary]
+    );
+    const selectedStudent = students.find(student => student.id === selectedStudentId) || null;
+
+    const handleFilesChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files || []);
+        event.target.value = '';
+        if (files.length === 0) return;
+        const imported: string[] = [];
+        const failed: string[] = [];
+        for (const file of files) {
+            try {
+                imported.push((await importRosterFile(file.name, await file.text())).name);
+            } catch (error) {
+                console.error(`Failed to import ${file.name}:`, error);
+                failed.push(file.name);
+            }
+        }
+        setMessage(failed.length > 0
+            ? { text: `가져오지 못한 파일: ${failed.join(', ')} (학습 현황에서 내보낸 백업 파일인지 확인해주세요)`, isError: true }
+            : { text: `${imported.join(', ')} 학생의 기록을 가져왔습니다.`, isError: false });
+        await refresh();
+    };
+
+    const handleRemove = async (student: RosterStudent) => {
+        if (!window.confirm(`'${student.name}' 학생을 학급 명단에서 지우시겠습니까?`)) return;
+        try {
+            await removeRosterStudent(student.id);
+            if (selectedStudentId === student.id) setSelectedStudentId(null);
+            await refresh();
+        } catch (error) {
+            setMessage({ text: error instanceof Error ? error.message : "학생을 지우지 못했습니다.", isError: true });
+        }
+    };
+
+    // Images are only kept for profiles on this device; imported results show text only.
+    const openReview = async (student: RosterStudent, result: QuizResult) => {
+        setReviewTarget({ student, result: student.source === 'profile' ? await loadQuizImages(result) : result });
+    };
+
+    if (isLoading) {
+        return <Spinner text="학급 기록을 불러오는 중입니다..." />;
+    }
+
+    return (
+        <div className="max-w-5xl mx-auto px-2 pb-20">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-slate-900 dark:text-white">학급 현황 (교사용)</h1>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">성취기준마다 학생별 가장 최근 점수를 기준으로 보여줍니다.</p>
+                </div>
+                <div className="flex flex-wrap justify-end gap-2 shrink-0">
+                    <Button onClick={onShowQuestionBank} variant="secondary" className="!py-2 !px-4 text-sm">문제 은행</Button>
+                    <Button onClick={onCreateAssignment} className="!py-2 !px-4 text-sm">과제 만들기</Button>
+                    <Button onClick={onGoBack} variant="secondary" className="!py-2 !px-4 text-sm">돌아가기</Button>
+                </div>
+            </div>
+
+            <Card className="mb-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">학급 명단</h3>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 leading-snug">
+                            이 기기의 프로필은 자동으로 포함됩니다. 다른 기기의 학생은 '나의 성취 수준 &gt; 백업 및 복원'에서 내보낸 파일을 가져오세요.
+                        </p>
+                    </div>
+                    <Button variant="secondary" onClick={() => fileInputRef.current?.click()} className="!py-2 !px-4 text-sm shrink-0">
+                        학생 파일 가져오기
+                    </Button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" multiple onChange={handleFilesChange} className="hidden" />
+                </div>
+                <ul className="flex flex-wrap gap-2">
+                    {students.map(student => (
+                        <li key={student.id} className="flex items-center gap-1 pl-2 pr-1 py-1 rounded-full bg-slate-100 dark:bg-slate-700 text-sm">
+                            <span>{student.avatar}</span>
+                            <span className="font-medium text-slate-800 dark:text-slate-100">{student.name}</span>
+                            <span className="text-xs text-slate-500 dark:text-slate-400">
+                                {student.source === 'profile' ? '이 기기' : '파일'} · {student.results.length}회
+                            </span>
+                            {student.source === 'file' && (
+                                <button
+                                    onClick={() => handleRemove(student)}
+                                    className="ml-1 w-5 h-5 rounded-full text-xs text-slate-500 hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900/30"
+                                    aria-label={`${student.name} 명단에서 지우기`}
+                                >
+                                    ✕
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+                {message && (
+                    <p className={`mt-3 text-xs ${message.isError ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>{message.text}</p>
+                )}
+            </Card>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                <StatsCard title="학생 수" value={students.length} unit="명" />
+                <StatsCard title="학급 평균" value={summary.classAverage.toFixed(1)} unit="점" />
+                <StatsCard title="학습한 성취기준" value={summary.standards.length} unit="개" />
+            </div>
+
+            {summary.standards.length === 0 ? (
+                <div className="text-center py-10 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-dashed border-slate-300 dark:border-slate-700">
+                    <p className="text-slate-500 dark:text-slate-400">아직 학급에 학습 기록이 없습니다.</p>
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                        <Card>
+                            <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-3">보완이 필요한 성취기준</h3>
+                            <ol className="space-y-2">
+                                {lowestStandards.map(stat => (
+                                    <li key={stat.standardId} className="flex items-start justify-between gap-3 text-sm">
+                                        <div className="min-w-0">
+                                            <p className="font-bold text-slate-800 dark:text-slate-100">{stat.standardId}</p>
+                                            <p className="text-xs text-slate-500 dark:text-slate-400 leading-snug">{describeStandard(stat.standardId)}</p>
+                                        </div>
+                                        <span className={`shrink-0 text-xs px-2 py-0.5 rounded font-bold ${scoreClassName(stat.average)}`}>
+                                            {stat.average.toFixed(0)}점
+                                        </span>
+                                    </li>
+                                ))}
+                            </ol>
+                        </Card>
+                        <Card>
+                            <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-3">성취기준별 학급 평균</h3>
+                            <ul className="space-y-2 max-h-72 overflow-y-auto pr-1">
+                                {summary.standards.map(stat => (
+                                    <li key={stat.standardId} title={describeStandard(stat.standardId)}>
+                                        <div className="flex justify-between text-xs text-slate-600 dark:text-slate-300 mb-0.5">
+                                            <span className="font-bold">{stat.standardId}</span>
+                                            <span>{stat.average.toFixed(1)}점 · {stat.studentCount}명</span>
+                                        </div>
+                                        <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 overflow-hidden">
+                                            <div className="bg-neon-blue h-2 rounded-full" style={{ width: `${stat.average}%` }}></div>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </Card>
+                    </div>
+
+                    <Card className="mb-6">
+                        <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-1">학생 × 성취기준 성취도</h3>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">점수를 누르면 그 학생의 답안을 볼 수 있고, 이름을 누르면 전체 기록을 볼 수 있습니다.</p>
+                        <div className="overflow-x-auto">
+                            <table className="text-xs border-collapse">
+                                <thead>
+                                    <tr>
+                                        <th className="sticky left-0 bg-white dark:bg-slate-800 p-2 text-left text-slate-600 dark:text-slate-300">학생</th>
+                                        {summary.standards.map(stat => (
+                                            <th key={stat.standardId} title={describeStandard(stat.standardId)} className="p-2 font-bold text-slate-600 dark:text-slate-300 whitespace-nowrap">
+                                                {stat.standardId}
+                                            </th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {students.map(student => {
+                                        const latest = summary.latestResults.get(student.id);
+                                        return (
+                                            <tr key={student.id} className="border-t border-slate-100 dark:border-slate-700">
+                                                <td className="sticky left-0 bg-white dark:bg-slate-800 p-2 whitespace-nowrap">
+                                                    <button
+                                                        onClick={() => setSelectedStudentId(student.id === selectedStudentId ? null : student.id)}
+                                                        className={`font-medium hover:text-neon-blue ${student.id === selectedStudentId ? 'text-neon-blue' : 'text-slate-800 dark:text-slate-100'}`}
+                                                    >
+                                                        {student.avatar} {student.name}
+                                                    </button>
+                                                </td>
+                                                {summary.standards.map(stat => {
+                                                    const result = latest?.get(stat.standardId);
+                                                    return (
+                                                        <td key={stat.standardId} className="p-1 text-center">
+                                                            {result ? (
+                                                                <button
+                                                                    onClick={() => openReview(student, result)}
+                                                                    className={`w-10 py-1 rounded font-bold ${scoreClassName(result.score)} hover:ring-2 hover:ring-neon-blue`}
+                                                                >
+                                                                    {result.score.toFixed(0)}
+                                                                </button>
+                                                            ) : (
+                                                                <span className="text-slate-300 dark:text-slate-600">-</span>
+                                                            )}
+                                                        </td>
+                                                    );
+                                                })}
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    </Card>
+                </>
+            )}
+
+            {selectedStudent && (
+                <Card className="mb-6">
+                    <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-3">
+                        {selectedStudent.avatar} {selectedStudent.name}의 학습 기록
+                    </h3>
+                    {selectedStudent.results.length === 0 ? (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">아직 학습 기록이 없습니다.</p>
+                    ) : (
+                        <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                            {[...selectedStudent.results].reverse().map(result => (
+                                <li key={result.id}>
+                                    <button
+                                        onClick={() => openReview(selectedStudent, result)}
+                                        disabled={!result.questions}
+                                        className="w-full flex items-center justify-between gap-3 py-2 text-left text-sm hover:bg-slate-50 dark:hover:bg-slate-700/40 disabled:cursor-default"
+                                    >
+                                        <span className="min-w-0">
+                                            <span className="block font-medium text-slate-800 dark:text-slate-100 truncate">
+                                                {result.standardId} {result.standardDescription}
+                                            </span>
+                                            <span className="block text-xs text-slate-500 dark:text-slate-400">{new Date(result.date).toLocaleString()}</span>
+                                        </span>
+                                        <span className={`shrink-0 text-xs px-2 py-0.5 rounded font-bold ${scoreClassName(result.score)}`}>
+                                            {result.score.toFixed(0)}점
+                                        </span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </Card>
+            )}
+
+            {reviewTarget && (
+                <QuizReviewModal
+                    result={reviewTarget.result}
+                    learnerName={reviewTarget.student.name}
+                    onClose={() => setReviewTarget(null)}
+                />
+            )}
+        </div>
+    );
+};
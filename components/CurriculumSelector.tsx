@@ -1,18 +1,26 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
-import type { EducationCurriculum, Subject, Unit, GradeContent, AchievementStandard } from '../types.ts';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import type { EducationCurriculum, Subject, Unit, GradeContent, AchievementStandard, AiProviderId, AiProviderSettings, LearningContext } from '../types.ts';
 import { Button } from './common/Button.tsx';
 import type { AppStatus } from '../App.tsx';
 import { Spinner } from './common/Spinner.tsx';
+import { AVAILABLE_PROVIDERS, MASTERY_LEVEL_BADGES, MASTERY_LEVEL_LABELS } from '../constants.ts';
+import { useStudyHistory } from '../hooks/useStudyHistory.ts';
+import { computeMastery } from '../services/mastery.ts';
 
 interface CurriculumSelectorProps {
     educationCurriculums: EducationCurriculum[];
-    onStartStudy: (subjectName: string, standard: AchievementStandard) => void;
-    apiKey: string;
-    onApiKeySubmit: (key: string) => void;
+    onStartStudy: (context: LearningContext) => void;
+    apiKeys: Record<AiProviderId, string>;
+    providerSettings: AiProviderSettings;
+    onApiKeySubmit: (key: string, settings: AiProviderSettings) => void;
     apiStatus: AppStatus;
     apiError: string | null;
     isCoolMode: boolean;
+    // The learner profile's grade band, picked automatically when the subject offers it.
+    preferredGrade?: string;
+    // Opens a quiz file a teacher shared, without generating anything.
+    onOpenSharedQuizFile: (file: File) => void;
 }
 
 const UsageGuideModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
@@ -117,11 +125,14 @@ interface FlatStandard {
 export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({ 
     educationCurriculums, 
     onStartStudy,
-    apiKey,
+    apiKeys,
+    providerSettings,
     onApiKeySubmit,
     apiStatus,
     apiError,
-    isCoolMode
+    isCoolMode,
+    preferredGrade,
+    onOpenSharedQuizFile
 }) => {
     const [selectedCurriculumName, setSelectedCurriculumName] = useState<string>(educationCurriculums[0].name);
     const [selectedGrade, setSelectedGrade] = useState<string>('');
@@ -129,16 +140,28 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
     const [selectedUnitName, setSelectedUnitName] = useState<string>('');
     const [selectedStandardId, setSelectedStandardId] = useState<string>('');
     const [isUsageGuideOpen, setIsUsageGuideOpen] = useState(false);
+    const sharedQuizInputRef = useRef<HTMLInputElement>(null);
+    const { history } = useStudyHistory();
+    const mastery = useMemo(() => computeMastery(history), [history]);
+    const masteryBadge = (standardId: string) => MASTERY_LEVEL_BADGES[mastery.get(standardId)?.level || 'none'];
     
     // Search State
     const [searchQuery, setSearchQuery] = useState('');
     
-    // Local state for API key input to allow typing before submitting
-    const [localApiKey, setLocalApiKey] = useState(apiKey);
+    // Local state for provider and API key input to allow typing before submitting
+    const [localProvider, setLocalProvider] = useState<AiProviderSettings>(providerSettings);
+    const [localApiKey, setLocalApiKey] = useState(apiKeys[providerSettings.providerId]);
+    const isGemini = localProvider.providerId === 'gemini';
+    const isDemo = localProvider.providerId === 'demo';
 
     useEffect(() => {
-        setLocalApiKey(apiKey);
-    }, [apiKey]);
+        setLocalProvider(providerSettings);
+    }, [providerSettings]);
+
+    useEffect(() => {
+        setLocalApiKey(apiKeys[localProvider.providerId]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [localProvider.providerId, apiKeys[localProvider.providerId]]);
 
     // Flatten standards for search - Memoized
     const allStandards = useMemo<FlatStandard[]>(() => {
@@ -196,6 +219,8 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
         availableGrades,
         availableUnits,
         availableStandards,
+        selectedGradeContent,
+        selectedUnit,
         selectedStandard,
     } = useMemo(() => {
         const curriculum = educationCurriculums.find(c => c.name === selectedCurriculumName) || educationCurriculums[0];
@@ -231,8 +256,9 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
     };
 
     const handleSubjectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const subject = availableSubjects.find(s => s.name === e.target.value);
         setSelectedSubjectName(e.target.value);
-        setSelectedGrade('');
+        setSelectedGrade(preferredGrade && subject?.grades.some(g => g.grade === preferredGrade) ? preferredGrade : '');
         setSelectedUnitName('');
         setSelectedStandardId('');
     };
@@ -253,13 +279,18 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
     };
 
     const handleSubmit = () => {
-        if (selectedSubject && selectedStandard) {
-            onStartStudy(selectedSubject.name, selectedStandard);
+        if (selectedSubject && selectedGradeContent && selectedUnit && selectedStandard) {
+            onStartStudy({
+                subjectName: selectedSubject.name,
+                grade: selectedGradeContent.grade,
+                unitName: selectedUnit.name,
+                standard: selectedStandard,
+            });
         }
     };
     
     const handleApiKeySave = () => {
-        onApiKeySubmit(localApiKey);
+        onApiKeySubmit(localApiKey, localProvider);
     };
 
     const Select = ({ children, ...props }: React.SelectHTMLAttributes<HTMLSelectElement>) => (
@@ -295,12 +326,31 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
                     <h2 className="text-base sm:text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
                         학습 목표 설정 (2022 개정 교육과정)
                     </h2>
-                    <button 
-                        onClick={() => setIsUsageGuideOpen(true)}
-                        className="text-sm font-medium text-neon-blue hover:text-blue-600 hover:underline transition-colors focus:outline-none"
-                    >
-                        앱 활용 방법
-                    </button>
+                    <div className="flex items-center gap-3">
+                        <button 
+                            onClick={() => sharedQuizInputRef.current?.click()}
+                            className="text-sm font-medium text-neon-blue hover:text-blue-600 hover:underline transition-colors focus:outline-none"
+                        >
+                            공유 퀴즈 열기
+                        </button>
+                        <input
+                            ref={sharedQuizInputRef}
+                            type="file"
+                            accept="application/json,.json"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                e.target.value = '';
+                                if (file) onOpenSharedQuizFile(file);
+                            }}
+                            className="hidden"
+                        />
+                        <button 
+                            onClick={() => setIsUsageGuideOpen(true)}
+                            className="text-sm font-medium text-neon-blue hover:text-blue-600 hover:underline transition-colors focus:outline-none"
+                        >
+                            앱 활용 방법
+                        </button>
+                    </div>
                 </div>
                 
                 {/* Keyword Search Section */}
@@ -352,7 +402,7 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
                                                     </span>
                                                 </div>
                                                 <div className="text-sm font-medium text-slate-800 dark:text-slate-200 leading-snug">
-                                                    {item.standard.description}
+                                                    {masteryBadge(item.standard.id)} {item.standard.description}
                                                 </div>
                                             </button>
                                         </li>
@@ -402,24 +452,77 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
                         ) : (
                           <Select id="standard" value={selectedStandardId} onChange={handleStandardChange} disabled={!selectedUnitName || availableStandards.length === 0}>
                               <option value="" disabled={selectedStandardId !== ''}>성취기준을 선택하세요</option>
-                              {availableStandards.map(s => <option key={s.id} value={s.id}>{s.id}: {s.description}</option>)}
+                              {availableStandards.map(s => <option key={s.id} value={s.id}>{masteryBadge(s.id)} {s.id}: {s.description}</option>)}
                           </Select>
                         )}
                         {selectedStandard && (
-                            <p className="mt-1 text-xs text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-slate-700/50 p-2 rounded border border-slate-200 dark:border-slate-600 leading-snug">
-                                {selectedStandard.description}
-                            </p>
+                            <div className="mt-1 text-xs text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-slate-700/50 p-2 rounded border border-slate-200 dark:border-slate-600 leading-snug">
+                                <p>{selectedStandard.description}</p>
+                                <p className="mt-1 font-medium">
+                                    {masteryBadge(selectedStandard.id)} 숙달도: {MASTERY_LEVEL_LABELS[mastery.get(selectedStandard.id)?.level || 'none']}
+                                    {mastery.has(selectedStandard.id) && ` (학습 ${mastery.get(selectedStandard.id)!.attempts}회)`}
+                                </p>
+                            </div>
                         )}
                     </div>
 
                     {/* API Key Input Section */}
                     <div className="pt-3 mt-4 border-t border-slate-100 dark:border-slate-700">
+                        <label htmlFor="provider-select" className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">
+                            AI 서비스
+                        </label>
+                        <select
+                            id="provider-select"
+                            value={localProvider.providerId}
+                            onChange={(e) => setLocalProvider({ ...localProvider, providerId: e.target.value as AiProviderId })}
+                            className="w-full mb-2 bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none"
+                        >
+                            {AVAILABLE_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        {localProvider.providerId === 'openai-compatible' && (
+                            <div className="flex flex-col sm:flex-row gap-2 mb-2">
+                                <input
+                                    type="url"
+                                    value={localProvider.baseUrl || ''}
+                                    onChange={(e) => setLocalProvider({ ...localProvider, baseUrl: e.target.value })}
+                                    className="flex-1 bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none"
+                                    placeholder="서버 주소 (예: https://api.openai.com/v1)"
+                                    aria-label="서버 주소"
+                                />
+                                <input
+                                    type="text"
+                                    value={localProvider.model || ''}
+                                    onChange={(e) => setLocalProvider({ ...localProvider, model: e.target.value })}
+                                    className="sm:w-40 bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none"
+                                    placeholder="모델 (선택)"
+                                    aria-label="모델 이름"
+                                />
+                            </div>
+                        )}
+                        {isDemo ? (
+                            <div className="flex gap-2 items-center">
+                                <p className="flex-1 text-[11px] sm:text-xs text-[#001F3F] dark:text-slate-300 leading-snug">
+                                    인터넷이나 API 키 없이 미리 준비된 예시 설명과 문제로 모든 화면을 체험할 수 있습니다. (실제 AI가 생성한 내용이 아닙니다.)
+                                </p>
+                                <Button 
+                                    onClick={handleApiKeySave} 
+                                    variant="secondary"
+                                    className="!py-2 !px-3 text-xs shrink-0"
+                                    disabled={apiStatus === 'validating_key'}
+                                >
+                                    {apiStatus === 'validating_key' ? <Spinner size="sm" /> : '데모 시작'}
+                                </Button>
+                            </div>
+                        ) : (
+                        <>
                         <label htmlFor="api-key-input" className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">
-                            Google AI Studio API 키
+                            {isGemini ? 'Google AI Studio API 키' : 'API 키 (인증이 없는 서버는 비워두세요)'}
                         </label>
-                        <p className="text-[11px] sm:text-xs text-[#001F3F] dark:text-slate-300 mb-2 leading-snug">
-                            Google AI 기반의 맞춤형 학습 콘텐츠 생성을 위해서는 API 키 입력이 필요합니다. 다만, 만 18세 미만 이용자는 직접 API 키를 발급받을 수 없으므로, 보호자가 대신 무료 API 키를 발급한 후 학생에게 전달(예: 이메일 전송)하여 사용할 수 있습니다.
-                        </p>
+                        {isGemini && (
+                            <p className="text-[11px] sm:text-xs text-[#001F3F] dark:text-slate-300 mb-2 leading-snug">
+                                Google AI 기반의 맞춤형 학습 콘텐츠 생성을 위해서는 API 키 입력이 필요합니다. 다만, 만 18세 미만 이용자는 직접 API 키를 발급받을 수 없으므로, 보호자가 대신 무료 API 키를 발급한 후 학생에게 전달(예: 이메일 전송)하여 사용할 수 있습니다.
+                            </p>
+                        )}
                         <div className="flex gap-2">
                             <input 
                                 id="api-key-input"
@@ -438,8 +541,15 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
                                 {apiStatus === 'validating_key' ? <Spinner size="sm" /> : '확인'}
                             </Button>
                         </div>
+                        </>
+                        )}
                         {apiError && <p className="text-red-500 text-xs mt-1">{apiError}</p>}
-                        {apiStatus === 'key_valid' && !apiError && <p className="text-lime-green text-xs mt-1 font-medium">API 키가 확인되었습니다.</p>}
+                        {apiStatus === 'key_valid' && !apiError && (
+                            <p className="text-lime-green text-xs mt-1 font-medium">
+                                {providerSettings.providerId === 'demo' ? '데모 모드로 실행 중입니다.' : 'API 키가 확인되었습니다.'}
+                            </p>
+                        )}
+                        {isGemini && (
                          <div className="text-right mt-1">
                             <a 
                                 href="https://aistudio.google.com/app/apikey" 
@@ -450,6 +560,7 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
                                무료 API 키 발급받기 ↗
                             </a>
                         </div>
+                        )}
                     </div>
                 </div>
             </div>
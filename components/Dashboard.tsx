@@ -1,54 +1,26 @@
 
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+import { useStudyHistory } from '../hooks/useStudyHistory.ts';
 import useLocalStorage from '../hooks/useLocalStorage.ts';
-import type { QuizResult } from '../types.ts';
-import { EDUCATION_CURRICULUMS } from '../constants.ts';
+import type { DifficultyLevel, QuestionType, QuizResult } from '../types.ts';
+import { DIFFICULTY_LABELS, EXAM_TIMING_LABELS, QUESTION_TYPE_LABELS } from '../constants.ts';
 import { Button } from './common/Button.tsx';
 import { Card } from './common/Card.tsx';
 import { Spinner } from './common/Spinner.tsx';
+import { StatsCard } from './common/StatsCard.tsx';
+import { UsagePanel } from './UsagePanel.tsx';
+import { BackupPanel } from './BackupPanel.tsx';
+import { QuizReviewModal } from './QuizReviewModal.tsx';
 import { generateLearningDiagnosis } from '../services/geminiService.ts';
+import { isCancelledError } from '../services/aiErrors.ts';
+import { loadQuizImages } from '../services/studyHistory.ts';
+import { profileStorageKey } from '../services/profiles.ts';
+import { findDetailsForStandard } from '../services/curriculum.ts';
+import { averageMastery, computeMastery } from '../services/mastery.ts';
+import { formatDuration } from '../services/examMode.ts';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import remarkMath from 'remark-math';
-import rehypeKatex from 'rehype-katex';
-
-const curriculumDetailsCache = new Map();
-const findDetailsForStandard = (standardId: string) => {
-    if (curriculumDetailsCache.has(standardId)) {
-        return curriculumDetailsCache.get(standardId);
-    }
-    for (const curriculum of EDUCATION_CURRICULUMS) {
-        for (const subject of curriculum.subjects) {
-            for (const grade of subject.grades) {
-                for (const unit of grade.units) {
-                    const standard = unit.standards.find(s => s.id === standardId);
-                    if (standard) {
-                        const details = {
-                            curriculumName: curriculum.name,
-                            subjectName: subject.name,
-                            grade: grade.grade,
-                            unitName: unit.name,
-                            standardDescription: standard.description
-                        };
-                        curriculumDetailsCache.set(standardId, details);
-                        return details;
-                    }
-                }
-            }
-        }
-    }
-    return null;
-};
-
-const StatsCard = ({ title, value, unit }: { title: string, value: string | number, unit?: string }) => (
-    <Card className="text-center">
-        <h3 className="text-xs sm:text-sm font-medium text-slate-500 dark:text-slate-400">{title}</h3>
-        <p className="text-2xl sm:text-3xl font-bold text-slate-800 dark:text-slate-100 mt-1">
-            {value} <span className="text-base font-medium text-slate-600 dark:text-slate-400">{unit}</span>
-        </p>
-    </Card>
-);
 
 const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -77,158 +49,23 @@ const CustomAxisTick = ({ x, y, payload, dy = 16, dx = 0, textAnchor = "middle"
     </g>
 );
 
-const QuizReviewModal: React.FC<{ result: QuizResult; onClose: () => void }> = ({ result, onClose }) => {
-    const markdownComponents = {
-        table: (props: any) => <div className="overflow-x-auto mb-2"><table className="table-auto w-full border-collapse border border-slate-300 dark:border-slate-600" {...props} /></div>,
-        thead: (props: any) => <thead className="bg-slate-100 dark:bg-slate-700" {...props} />,
-        th: (props: any) => <th className="border border-slate-300 dark:border-slate-600 px-2 py-1 text-left whitespace-nowrap text-sm" {...props} />,
-        td: (props: any) => <td className="border border-slate-300 dark:border-slate-600 px-2 py-1 text-sm min-w-[100px]" {...props} />,
-        p: (props: any) => <p className="mb-0 leading-snug" {...props} />, 
-    };
-
-    if (!result.questions) {
-        return null;
-    }
-
-    return (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60] p-4" onClick={onClose}>
-            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl p-4 sm:p-6 w-full max-w-2xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
-                <div className="flex justify-between items-center mb-4 border-b border-slate-100 dark:border-slate-700 pb-2">
-                    <div>
-                        <h2 className="text-lg font-bold text-slate-800 dark:text-white">학습 기록 상세</h2>
-                        <p className="text-xs text-slate-500 dark:text-slate-400">{new Date(result.date).toLocaleString()}</p>
-                    </div>
-                    <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-500">
-                        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
-                    </button>
-                </div>
-                
-                <div className="overflow-y-auto flex-1 pr-1 space-y-6">
-                    {result.questions.map((q, idx) => {
-                        const userAnswer = result.userAnswers ? result.userAnswers[idx] : null;
-                        const isCorrect = result.correctness ? result.correctness[idx] : false;
-
-                        return (
-                            <div key={idx} className="border border-slate-200 dark:border-slate-700 rounded-lg p-3 sm:p-4 bg-slate-50 dark:bg-slate-700/30">
-                                <div className="flex justify-between items-start gap-2 mb-2">
-                                    <span className="text-sm font-bold text-slate-700 dark:text-slate-300">문제 {idx + 1}</span>
-                                    <span className={`text-xs px-2 py-0.5 rounded font-bold ${isCorrect ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'}`}>
-                                        {isCorrect ? '정답' : '오답'}
-                                    </span>
-                                </div>
-                                <div className="text-sm text-slate-800 dark:text-slate-100 mb-3 prose prose-sm dark:prose-invert max-w-none leading-snug">
-                                    <div className="overflow-x-auto">
-                                        <ReactMarkdown 
-                                            remarkPlugins={[remarkGfm, remarkMath]}
-                                            rehypePlugins={[[rehypeKatex, { output: 'html' }]]} 
-                                            components={markdownComponents}
-                                        >
-                                            {q.question}
-                                        </ReactMarkdown>
-                                    </div>
-                                    {q.questionTranslation && (
-                                        <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
-                                            {q.questionTranslation}
-                                        </div>
-                                    )}
-                                </div>
-                                
-                                {q.passage && (
-                                    <div className="mb-3 p-2 bg-white dark:bg-slate-800 rounded border border-slate-200 dark:border-slate-600 text-xs text-slate-600 dark:text-slate-300 max-h-32 overflow-y-auto">
-                                        <p className="font-bold mb-1">지문/스크립트:</p>
-                                        <ReactMarkdown 
-                                            remarkPlugins={[remarkGfm, remarkMath]}
-                                            rehypePlugins={[[rehypeKatex, { output: 'html' }]]} 
-                                            components={markdownComponents}
-                                        >
-                                            {q.passage}
-                                        </ReactMarkdown>
-                                        {q.passageTranslation && (
-                                             <div className="mt-2 pt-2 border-t border-slate-100 dark:border-slate-700">
-                                                <ReactMarkdown 
-                                                    remarkPlugins={[remarkGfm, remarkMath]}
-                                                    rehypePlugins={[[rehypeKatex, { output: 'html' }]]} 
-                                                    components={markdownComponents}
-                                                >
-                                                    {q.passageTranslation}
-                                                </ReactMarkdown>
-                                             </div>
-                                        )}
-                                    </div>
-                                )}
-
-                                <div className="space-y-2 text-sm">
-                                    <div className="flex flex-col gap-1">
-                                        <span className="text-xs font-semibold text-slate-500 dark:text-slate-400">나의 답안</span>
-                                        <div className={`p-2 rounded border ${isCorrect ? 'bg-green-50 border-green-200 dark:bg-green-900/10 dark:border-green-800 text-green-800 dark:text-green-200' : 'bg-red-50 border-red-200 dark:bg-red-900/10 dark:border-red-800 text-red-800 dark:text-red-200'}`}>
-                                            <div className="overflow-x-auto">
-                                                <ReactMarkdown 
-                                                    remarkPlugins={[remarkGfm, remarkMath]} 
-                                                    rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
-                                                    components={markdownComponents}
-                                                >
-                                                    {userAnswer || '(미입력)'}
-                                                </ReactMarkdown>
-                                            </div>
-                                        </div>
-                                    </div>
-                                    
-                                    <div className="flex flex-col gap-1">
-                                        <span className="text-xs font-semibold text-slate-500 dark:text-slate-400">정답 및 해설</span>
-                                        <div className="p-2 rounded bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600">
-                                            <div className="text-neon-blue font-semibold mb-1">
-                                                <ReactMarkdown 
-                                                    remarkPlugins={[remarkGfm, remarkMath]} 
-                                                    rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
-                                                    components={markdownComponents}
-                                                >
-                                                    {q.answer}
-                                                </ReactMarkdown>
-                                                {q.answerTranslation && <span className="text-xs text-slate-500 dark:text-slate-400 font-normal ml-2">({q.answerTranslation})</span>}
-                                            </div>
-                                            <div className="text-slate-600 dark:text-slate-400 text-xs leading-snug">
-                                                <ReactMarkdown 
-                                                    remarkPlugins={[remarkGfm, remarkMath]} 
-                                                    rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
-                                                    components={markdownComponents}
-                                                >
-                                                    {q.explanation}
-                                                </ReactMarkdown>
-                                                 {q.explanationTranslation && (
-                                                    <div className="mt-1 pt-1 border-t border-slate-100 dark:border-slate-700">
-                                                        <ReactMarkdown 
-                                                            remarkPlugins={[remarkGfm, remarkMath]} 
-                                                            rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
-                                                            components={markdownComponents}
-                                                        >
-                                                            {q.explanationTranslation}
-                                                        </ReactMarkdown>
-                                                    </div>
-                                                )}
-                                            </div>
-                                        </div>
-                                    </div>
-                                </div>
-                            </div>
-                        );
-                    })}
-                </div>
-            </div>
-        </div>
-    );
-};
-
 interface DashboardProps {
     onGoHome: () => void;
+    // Only teacher profiles get the class view.
+    onShowClass?: () => void;
+    onStartReview: () => void;
+    // Missed questions due for review today.
+    reviewDueCount: number;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
-    const [studyHistory, setStudyHistory] = useLocalStorage<QuizResult[]>('studyHistory', []);
+export const Dashboard: React.FC<DashboardProps> = ({ onGoHome, onShowClass, onStartReview, reviewDueCount }) => {
+    const { history: studyHistory, isLoading: isLoadingHistory, error: historyError, reload: reloadHistory, deleteResult } = useStudyHistory();
     const [selectedResult, setSelectedResult] = useState<QuizResult | null>(null);
     const [selectedSubject, setSelectedSubject] = useState<string>('');
 
     // Diagnosis State
-    const [diagnosisReport, setDiagnosisReport] = useState<string | null>(null);
+    // The latest report is kept per learner profile until a new one is generated.
+    const [diagnosisReport, setDiagnosisReport] = useLocalStorage<string | null>(profileStorageKey('diagnosisReport'), null);
     const [isLoadingDiagnosis, setIsLoadingDiagnosis] = useState(false);
 
     // Calculate stats
@@ -250,19 +87,24 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
         });
     }, [studyHistory]);
 
+    // Subject and unit charts show mean standard mastery, so each standard counts once
+    // however often it was quizzed, and recent answers outweigh old ones.
+    const standardMastery = useMemo(() => {
+        const details = new Map(detailedHistory.map(item => [item.standardId, item]));
+        return [...computeMastery(studyHistory).values()].map(mastery => {
+            const { subject, unitName } = details.get(mastery.standardId)!;
+            return { subject, unitName, mastery };
+        });
+    }, [studyHistory, detailedHistory]);
+
     // Subject Data
     const subjectData = useMemo(() => {
-        const stats: Record<string, { total: number; count: number }> = {};
-        detailedHistory.forEach(item => {
-            if (!stats[item.subject]) stats[item.subject] = { total: 0, count: 0 };
-            stats[item.subject].total += item.score;
-            stats[item.subject].count += 1;
-        });
-        return Object.keys(stats).map(subject => ({
+        const subjects = [...new Set(standardMastery.map(item => item.subject))];
+        return subjects.map(subject => ({
             name: subject,
-            score: Math.round(stats[subject].total / stats[subject].count)
+            score: Math.round(averageMastery(standardMastery.filter(item => item.subject === subject).map(item => item.mastery)))
         }));
-    }, [detailedHistory]);
+    }, [standardMastery]);
 
     // Set default selected subject
     useEffect(() => {
@@ -274,19 +116,54 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
     // Unit Data
     const unitData = useMemo(() => {
         if (!selectedSubject) return [];
-        const filtered = detailedHistory.filter(h => h.subject === selectedSubject);
-        const stats: Record<string, { total: number; count: number }> = {};
-        filtered.forEach(item => {
-            const unit = item.unitName;
-            if (!stats[unit]) stats[unit] = { total: 0, count: 0 };
-            stats[unit].total += item.score;
-            stats[unit].count += 1;
-        });
-        return Object.keys(stats).map(unit => ({
+        const filtered = standardMastery.filter(item => item.subject === selectedSubject);
+        const units = [...new Set(filtered.map(item => item.unitName))];
+        return units.map(unit => ({
             name: unit,
-            score: Math.round(stats[unit].total / stats[unit].count)
+            score: Math.round(averageMastery(filtered.filter(item => item.unitName === unit).map(item => item.mastery)))
         })).sort((a, b) => b.score - a.score);
-    }, [detailedHistory, selectedSubject]);
+    }, [standardMastery, selectedSubject]);
+
+    // Answers per difficulty level, from quizzes that recorded one (adaptive quizzes per question).
+    const difficultyData = useMemo(() => {
+        const totals: Record<DifficultyLevel, { correct: number; total: number }> = {
+            easy: { correct: 0, total: 0 },
+            medium: { correct: 0, total: 0 },
+            hard: { correct: 0, total: 0 },
+        };
+        studyHistory.forEach(result => {
+            result.correctness?.forEach((isCorrect, index) => {
+                const level = result.questionDifficulties?.[index] || result.difficulty;
+                if (!level || isCorrect === null) return;
+                totals[level].total++;
+                if (isCorrect) totals[level].correct++;
+            });
+        });
+        return (Object.keys(totals) as DifficultyLevel[])
+            .filter(level => totals[level].total > 0)
+            .map(level => ({ level, ...totals[level], rate: Math.round((totals[level].correct / totals[level].total) * 100) }));
+    }, [studyHistory]);
+
+    // Exam-mode quizzes: the latest few, and the average time per question of each type.
+    const examData = useMemo(() => {
+        const exams = studyHistory.filter(result => result.exam && result.questionTimes && result.questionTimes.length > 0);
+        const totals = new Map<QuestionType, { seconds: number; count: number }>();
+        exams.forEach(result => {
+            result.questionTimes!.forEach((seconds, index) => {
+                const type = result.questions?.[index]?.questionType;
+                if (!type) return;
+                const total = totals.get(type) || { seconds: 0, count: 0 };
+                totals.set(type, { seconds: total.seconds + seconds, count: total.count + 1 });
+            });
+        });
+        return {
+            recent: exams.slice(-5).reverse().map(result => ({
+                result,
+                totalSeconds: result.questionTimes!.reduce((sum, seconds) => sum + seconds, 0),
+            })),
+            byType: [...totals.entries()].map(([type, total]) => ({ type, average: total.seconds / total.count })),
+        };
+    }, [studyHistory]);
 
     // Prepare recent chart data (last 10 quizzes)
     const recentChartData = useMemo(() => {
@@ -303,18 +180,29 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
 
     const handleDelete = (id: string) => {
         if (window.confirm("정말로 이 학습 기록을 삭제하시겠습니까?")) {
-            const newHistory = studyHistory.filter(item => item.id !== id);
-            setStudyHistory(newHistory);
+            deleteResult(id);
         }
     };
 
+    // The history list is kept without question images; fetch them only for the opened result.
+    const handleOpenResult = async (result: QuizResult) => {
+        setSelectedResult(await loadQuizImages(result));
+    };
+
+    // Stop an in-flight diagnosis when leaving the dashboard.
+    const diagnosisControllerRef = useRef<AbortController | null>(null);
+    useEffect(() => () => diagnosisControllerRef.current?.abort(), []);
+
     const handleGenerateDiagnosis = async () => {
+        const controller = new AbortController();
+        diagnosisControllerRef.current = controller;
         setIsLoadingDiagnosis(true);
         setDiagnosisReport(null);
         try {
-            const report = await generateLearningDiagnosis(studyHistory);
+            const report = await generateLearningDiagnosis(studyHistory, controller.signal);
             setDiagnosisReport(report);
         } catch (error) {
+            if (isCancelledError(error)) return;
             alert(error instanceof Error ? error.message : "리포트를 생성하는 중 오류가 발생했습니다.");
         } finally {
             setIsLoadingDiagnosis(false);
@@ -337,7 +225,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
         <div className="max-w-4xl mx-auto px-2 pb-20">
             <div className="flex justify-between items-center mb-6">
                 <h1 className="text-2xl font-bold text-slate-900 dark:text-white">나의 학습 현황</h1>
-                <Button onClick={onGoHome} className="!py-2 !px-4 text-sm">학습하러 가기</Button>
+                <div className="flex gap-2">
+                    {onShowClass && <Button onClick={onShowClass} variant="secondary" className="!py-2 !px-4 text-sm">학급 현황</Button>}
+                    <Button onClick={onGoHome} className="!py-2 !px-4 text-sm">학습하러 가기</Button>
+                </div>
             </div>
 
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
@@ -346,6 +237,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
                 <StatsCard title="푼 문제 수" value={totalQuestionsAnswered} unit="문제" />
             </div>
 
+            {reviewDueCount > 0 && (
+                <Card className="mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 border-2 border-amber-200 dark:border-amber-800">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">오늘 복습할 문제 {reviewDueCount}개</h3>
+                        <p className="text-sm text-slate-600 dark:text-slate-300 leading-snug">전에 틀린 문제를 알맞은 간격으로 다시 풀면 오래 기억할 수 있어요.</p>
+                    </div>
+                    <Button onClick={onStartReview} className="shrink-0 text-sm">복습 시작</Button>
+                </Card>
+            )}
+
             {/* AI Diagnosis Report Section */}
             <Card className="mb-6 border-2 border-neon-blue/20 bg-gradient-to-br from-white to-blue-50 dark:from-slate-800 dark:to-slate-800/80 overflow-visible relative">
                 <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
@@ -399,11 +300,21 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
                 )}
             </Card>
 
-            {studyHistory.length > 0 ? (
+            <UsagePanel describeStandard={standardId => findDetailsForStandard(standardId)?.standardDescription || standardId} />
+
+            <BackupPanel onRestored={reloadHistory} />
+
+            {historyError && (
+                <p className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">{historyError}</p>
+            )}
+
+            {isLoadingHistory ? (
+                <Spinner text="학습 기록을 불러오는 중입니다..." />
+            ) : studyHistory.length > 0 ? (
                 <>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
                         <Card className="p-4">
-                            <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-4">과목별 평균 성취도</h3>
+                            <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-4">과목별 숙달도</h3>
                             <div className="h-64 w-full">
                                 <ResponsiveContainer width="100%" height="100%">
                                     <BarChart data={subjectData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
@@ -433,7 +344,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
 
                         <Card className="p-4">
                             <div className="flex justify-between items-center mb-4">
-                                <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">단원별 성취도</h3>
+                                <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">단원별 숙달도</h3>
                                 <select 
                                     value={selectedSubject} 
                                     onChange={e => setSelectedSubject(e.target.value)}
@@ -509,6 +420,63 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
                         </div>
                     </Card>
 
+                    {difficultyData.length > 0 && (
+                        <Card className="mb-6 p-4">
+                            <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-4">난이도별 정답률</h3>
+                            <div className="space-y-3">
+                                {difficultyData.map(item => (
+                                    <div key={item.level}>
+                                        <div className="flex justify-between text-xs font-bold text-slate-600 dark:text-slate-300 mb-1">
+                                            <span>{DIFFICULTY_LABELS[item.level]}</span>
+                                            <span>{item.rate}% ({item.correct}/{item.total}문제)</span>
+                                        </div>
+                                        <div className="h-2.5 w-full bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                                            <div
+                                                className={`h-full rounded-full ${item.rate >= 80 ? 'bg-lime-green' : item.rate >= 60 ? 'bg-neon-blue' : 'bg-red-500'}`}
+                                                style={{ width: `${item.rate}%` }}
+                                            />
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </Card>
+                    )}
+
+                    {examData.recent.length > 0 && (
+                        <Card className="mb-6 p-4">
+                            <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-4">시험 모드 풀이 시간</h3>
+                            <div className="space-y-2 mb-4">
+                                {examData.recent.map(({ result, totalSeconds }) => (
+                                    <button
+                                        key={result.id}
+                                        onClick={() => handleOpenResult(result)}
+                                        className="w-full flex items-center justify-between gap-2 p-2 rounded-lg bg-slate-50 dark:bg-slate-700/50 hover:bg-slate-100 dark:hover:bg-slate-700 text-left text-xs"
+                                    >
+                                        <span className="min-w-0 truncate text-slate-600 dark:text-slate-300">
+                                            {new Date(result.date).toLocaleDateString('ko-KR', { month: 'numeric', day: 'numeric' })} · {result.subject} · {result.score.toFixed(0)}점
+                                        </span>
+                                        <span className="shrink-0 font-bold text-slate-700 dark:text-slate-200">
+                                            {formatDuration(totalSeconds)}
+                                            <span className="font-normal text-slate-500 dark:text-slate-400"> ({EXAM_TIMING_LABELS[result.exam!.timing]} {formatDuration(result.exam!.limitSeconds)})</span>
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                            {examData.byType.length > 0 && (
+                                <>
+                                    <p className="text-xs font-bold text-slate-600 dark:text-slate-300 mb-2">유형별 문제당 평균 시간</p>
+                                    <div className="flex flex-wrap gap-2">
+                                        {examData.byType.map(({ type, average }) => (
+                                            <span key={type} className="px-2 py-1 rounded bg-slate-100 dark:bg-slate-700 text-xs text-slate-700 dark:text-slate-200">
+                                                {QUESTION_TYPE_LABELS[type]} <strong>{formatDuration(average)}</strong>
+                                            </span>
+                                        ))}
+                                    </div>
+                                </>
+                            )}
+                        </Card>
+                    )}
+
                     <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-3">전체 학습 기록</h3>
                     <div className="space-y-3">
                         {reversedHistory.map((result) => {
@@ -518,7 +486,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
                              return (
                                 <Card key={result.id} className="transition-colors hover:bg-slate-50 dark:hover:bg-slate-700/50 cursor-pointer !p-3 sm:!p-4">
                                     <div className="flex flex-col gap-3">
-                                        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3" onClick={() => setSelectedResult(result)}>
+                                        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3" onClick={() => handleOpenResult(result)}>
                                             <div className="flex-1 min-w-0">
                                                 <div className="flex items-center gap-2 mb-1">
                                                     <span className="text-xs font-bold px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
@@ -552,7 +520,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
                                             <Button 
                                                 variant="secondary" 
                                                 className="!py-1.5 !px-3 text-xs"
-                                                onClick={() => setSelectedResult(result)}
+                                                onClick={() => handleOpenResult(result)}
                                             >
                                                 상세보기
                                             </Button>
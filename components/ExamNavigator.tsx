@@ -0,0 +1,46 @@
+import React from 'react';
+
+interface ExamNavigatorProps {
+    currentIndex: number;
+    answered: boolean[];
+    flagged: boolean[];
+    // Questions that cannot be opened, e.g. out of time; the rest can be jumped to.
+    closed: boolean[];
+    onSelect: (index: number) => void;
+}
+
+const cellClassName = (isCurrent: boolean, isAnswered: boolean, isClosed: boolean) => [
+    'relative w-8 h-8 rounded-md text-xs font-bold border transition-colors',
+    isClosed
+        ? 'bg-slate-100 dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-300 dark:text-slate-600 cursor-not-allowed'
+        : isAnswered
+            ? 'bg-neon-blue/20 border-neon-blue text-slate-800 dark:text-slate-100'
+            : 'bg-white dark:bg-slate-700 border-slate-300 dark:border-slate-600 text-slate-500 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-600',
+    isCurrent ? 'ring-2 ring-offset-1 ring-slate-800 dark:ring-white dark:ring-offset-slate-800' : '',
+].join(' ');
+
+/** Numbered grid of exam questions, marking answered, unanswered and flagged ones. */
+export const ExamNavigator: React.FC<ExamNavigatorProps> = ({ currentIndex, answered, flagged, closed, onSelect }) => (
+    <div className="mb-4 p-3 rounded-xl bg-white dark:bg-slate-800 shadow-sm border border-slate-200 dark:border-slate-700">
+        <div className="flex flex-wrap gap-1.5">
+            {answered.map((isAnswered, index) => (
+                <button
+                    key={index}
+                    onClick={() => onSelect(index)}
+                    disabled={closed[index]}
+                    className={cellClassName(index === currentIndex, isAnswered, closed[index])}
+                    aria-label={`문제 ${index + 1}${isAnswered ? ' (답함)' : ' (안 함)'}${flagged[index] ? ' (표시)' : ''}`}
+                    aria-current={index === currentIndex ? 'step' : undefined}
+                >
+                    {index + 1}
+                    {flagged[index] && <span className="absolute -top-1.5 -right-1.5 text-[10px]" aria-hidden="true">🚩</span>}
+                </button>
+            ))}
+        </div>
+        <div className="flex flex-wrap gap-3 mt-2 text-[11px] text-slate-500 dark:text-slate-400">
+            <span><span className="inline-block w-2.5 h-2.5 rounded-sm bg-neon-blue/40 border border-neon-blue mr-1 align-middle" />답함 {answered.filter(Boolean).length}</span>
+            <span><span className="inline-block w-2.5 h-2.5 rounded-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 mr-1 align-middle" />안 함 {answered.filter(value => !value).length}</span>
+            <span>🚩 표시 {flagged.filter(Boolean).length}</span>
+        </div>
+    </div>
+);
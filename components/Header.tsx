@@ -1,10 +1,12 @@
 
 import React, { useState } from 'react';
-import type { Theme } from '../types.ts';
+import type { LearnerProfile, Theme } from '../types.ts';
+import { ProfileSwitcher } from './ProfileSwitcher.tsx';
 
 interface HeaderProps {
     onGoHome: () => void;
     onShowDashboard: () => void;
+    onShowSettings: () => void;
     onBack: () => void;
     onForward: () => void;
     canGoBack: boolean;
@@ -13,6 +15,9 @@ interface HeaderProps {
     setTheme: (theme: Theme) => void;
     onToggleCoolMode: () => void;
     isCoolMode: boolean;
+    profile: LearnerProfile;
+    reviewDueCount: number;
+    onShowReview: () => void;
 }
 
 const AiSdlLogo: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
@@ -98,6 +103,13 @@ const DashboardIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     </svg>
 );
 
+const SettingsIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <circle cx="12" cy="12" r="3" />
+        <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06A1.65 1.65 0 0 0 4.68 15a1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06A1.65 1.65 0 0 0 9 4.68a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06A1.65 1.65 0 0 0 19.4 9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z" />
+    </svg>
+);
+
 const InfoIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
         <circle cx="12" cy="12" r="10" />
@@ -153,8 +165,9 @@ const ThemeIcon: React.FC<{ theme: Theme }> = ({ theme }) => {
 };
 
 
-export const Header: React.FC<HeaderProps> = ({ onGoHome, onShowDashboard, onBack, onForward, canGoBack, canGoForward, theme, setTheme, onToggleCoolMode, isCoolMode }) => {
+export const Header: React.FC<HeaderProps> = ({ onGoHome, onShowDashboard, onShowSettings, onBack, onForward, canGoBack, canGoForward, theme, setTheme, onToggleCoolMode, isCoolMode, profile, reviewDueCount, onShowReview }) => {
     const [isInfoModalOpen, setIsInfoModalOpen] = useState(false);
+    const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
 
     const cycleTheme = () => {
         if (theme === 'system') setTheme('light');
@@ -186,6 +199,23 @@ export const Header: React.FC<HeaderProps> = ({ onGoHome, onShowDashboard, onBac
                             </div>
                         </div>
                         <nav className="flex items-center gap-1 sm:gap-[10.8px] ml-2 shrink-0">
+                            <button
+                                onClick={() => setIsProfileModalOpen(true)}
+                                className="flex items-center gap-[5.4px] px-[7.2px] py-[3.6px] border border-transparent sm:border-slate-200 dark:sm:border-slate-700 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 hover:border-slate-300 dark:hover:border-slate-600 transition-colors duration-200"
+                                title="학습자 바꾸기"
+                            >
+                                <span className="text-base leading-none">{profile.avatar}</span>
+                                <span className="hidden sm:inline text-xs sm:text-[12.6px] font-medium max-w-[6rem] truncate">{profile.name}</span>
+                            </button>
+                            {reviewDueCount > 0 && (
+                                <button
+                                    onClick={onShowReview}
+                                    className="flex items-center gap-[5.4px] px-[7.2px] py-[3.6px] rounded-lg bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-300 hover:bg-amber-200 dark:hover:bg-amber-900/60 transition-colors duration-200"
+                                    title={`오늘 복습할 문제 ${reviewDueCount}개`}
+                                >
+                                    <span className="text-xs sm:text-[12.6px] font-bold">복습 {reviewDueCount}</span>
+                                </button>
+                            )}
                             <button
                                 onClick={cycleTheme}
                                 className="flex items-center gap-[5.4px] px-[7.2px] py-[5.4px] border border-transparent sm:border-slate-200 dark:sm:border-slate-700 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 hover:border-slate-300 dark:hover:border-slate-600 transition-colors duration-200"
@@ -201,6 +231,14 @@ export const Header: React.FC<HeaderProps> = ({ onGoHome, onShowDashboard, onBac
                                 <DashboardIcon className="w-[14.4px] h-[14.4px] sm:w-[14.4px] sm:h-[14.4px]" />
                                 <span className="hidden sm:inline text-xs sm:text-[12.6px] font-medium">나의 성취 수준</span>
                             </button>
+                            <button
+                                onClick={onShowSettings}
+                                className="flex items-center gap-[5.4px] px-[7.2px] py-[5.4px] border border-transparent sm:border-slate-200 dark:sm:border-slate-700 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 hover:border-slate-300 dark:hover:border-slate-600 transition-colors duration-200"
+                                title="AI 모델 설정"
+                            >
+                                <SettingsIcon className="w-[14.4px] h-[14.4px] sm:w-[14.4px] sm:h-[14.4px]" />
+                                <span className="hidden sm:inline text-xs sm:text-[12.6px] font-medium">AI 설정</span>
+                            </button>
                             <button
                                 onClick={() => setIsInfoModalOpen(true)}
                                 className="flex items-center gap-[5.4px] px-[7.2px] py-[5.4px] border border-transparent sm:border-slate-200 dark:sm:border-slate-700 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 hover:border-slate-300 dark:hover:border-slate-600 transition-colors duration-200"
@@ -232,6 +270,7 @@ export const Header: React.FC<HeaderProps> = ({ onGoHome, onShowDashboard, onBac
                 </div>
             </header>
             {isInfoModalOpen && <AppInfoModal onClose={() => setIsInfoModalOpen(false)} />}
+            {isProfileModalOpen && <ProfileSwitcher activeProfile={profile} onClose={() => setIsProfileModalOpen(false)} />}
         </>
     );
 };
@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import type { LearnerProfile } from '../types.ts';
+import { PROFILE_AVATARS, PROFILE_GRADE_OPTIONS } from '../constants.ts';
+import { Button } from './common/Button.tsx';
+import {
+    DEFAULT_PROFILE_ID,
+    createProfile,
+    deleteProfile,
+    getProfiles,
+    isValidPin,
+    switchProfile,
+    verifyProfilePin,
+} from '../services/profiles.ts';
+import { deleteProfileHistory } from '../services/studyHistory.ts';
+import { deleteProfileReviewItems } from '../services/reviewQueue.ts';
+
+interface ProfileSwitcherProps {
+    activeProfile: LearnerProfile;
+    onClose: () => void;
+}
+
+// What the PIN pad unlocks once the right PIN is entered.
+interface PinRequest {
+    profile: LearnerProfile;
+    action: 'switch' | 'delete';
+}
+
+const inputClassName = 'w-full bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none';
+
+const NewProfileForm: React.FC<{ onCancel: () => void }> = ({ onCancel }) => {
+    const [name, setName] = useState('');
+    const [avatar, setAvatar] = useState(PROFILE_AVATARS[1]);
+    const [grade, setGrade] = useState('');
+    const [pin, setPin] = useState('');
+    const [isTeacher, setIsTeacher] = useState(false);
+    const [copyAiSettings, setCopyAiSettings] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) {
+            setError("이름을 입력해주세요.");
+            return;
+        }
+        if ((pin || isTeacher) && !isValidPin(pin)) {
+            setError(isTeacher ? "교사용 프로필에는 숫자 4자리 PIN이 필요합니다." : "PIN은 숫자 4자리로 입력해주세요.");
+            return;
+        }
+        const profile = createProfile({ name, avatar, grade, pin: pin || undefined, isTeacher, copyAiSettings });
+        switchProfile(profile.id);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <div>
+                <label htmlFor="profile-name" className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">이름</label>
+                <input id="profile-name" type="text" value={name} onChange={e => setName(e.target.value)} maxLength={20} className={inputClassName} autoFocus />
+            </div>
+            <div>
+                <p className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">캐릭터</p>
+                <div className="grid grid-cols-6 gap-1">
+                    {PROFILE_AVATARS.map(option => (
+                        <button
+                            key={option}
+                            type="button"
+                            onClick={() => setAvatar(option)}
+                            className={`text-2xl p-1 rounded-lg transition-colors ${avatar === option ? 'bg-neon-blue/20 ring-2 ring-neon-blue' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                            aria-label={`캐릭터 ${option}`}
+                            aria-pressed={avatar === option}
+                        >
+                            {option}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                <div>
+                    <label htmlFor="profile-grade" className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">학년군</label>
+                    <select id="profile-grade" value={grade} onChange={e => setGrade(e.target.value)} className={inputClassName}>
+                        <option value="">선택 안 함</option>
+                        {PROFILE_GRADE_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="profile-pin" className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">PIN {isTeacher ? '(필수)' : '(선택)'}</label>
+                    <input
+                        id="profile-pin"
+                        type="password"
+                        inputMode="numeric"
+                        maxLength={4}
+                        value={pin}
+                        onChange={e => setPin(e.target.value.replace(/\D/g, ''))}
+                        placeholder="숫자 4자리"
+                        className={inputClassName}
+                    />
+                </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={isTeacher} onChange={e => setIsTeacher(e.target.checked)} />
+                교사용 프로필 (학급 현황, 문제 은행, 과제 만들기를 PIN으로 열기)
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={copyAiSettings} onChange={e => setCopyAiSettings(e.target.checked)} />
+                지금 프로필의 AI 서비스 설정과 API 키를 함께 쓰기
+            </label>
+            {error && <p className="text-red-500 text-xs">{error}</p>}
+            <div className="flex justify-end gap-2">
+                <Button type="button" variant="secondary" onClick={onCancel} className="!py-1.5 !px-3 text-sm">취소</Button>
+                <Button type="submit" className="!py-1.5 !px-3 text-sm">만들고 시작하기</Button>
+            </div>
+        </form>
+    );
+};
+
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ activeProfile, onClose }) => {
+    const [profiles, setProfiles] = useState<LearnerProfile[]>(getProfiles);
+    const [isCreating, setIsCreating] = useState(false);
+    const [pinRequest, setPinRequest] = useState<PinRequest | null>(null);
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const removeProfile = async (profile: LearnerProfile) => {
+        if (!window.confirm(`'${profile.name}' 프로필과 학습 기록을 모두 삭제하시겠습니까?`)) return;
+        try {
+            await deleteProfileHistory(profile.id);
+            await deleteProfileReviewItems(profile.id);
+            deleteProfile(profile.id);
+            setProfiles(getProfiles());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "프로필을 삭제하지 못했습니다.");
+        }
+    };
+
+    const runAction = ({ profile, action }: PinRequest) => {
+        if (action === 'switch') {
+            switchProfile(profile.id);
+        } else {
+            removeProfile(profile);
+        }
+    };
+
+    const requestAction = (request: PinRequest) => {
+        setError(null);
+        if (request.profile.pinHash) {
+            setPin('');
+            setPinRequest(request);
+        } else {
+            runAction(request);
+        }
+    };
+
+    const handlePinSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pinRequest) return;
+        if (!verifyProfilePin(pinRequest.profile, pin)) {
+            setError("PIN이 맞지 않습니다.");
+            setPin('');
+            return;
+        }
+        setPinRequest(null);
+        runAction(pinRequest);
+    };
+
+    const renderBody = () => {
+        if (isCreating) {
+            return <NewProfileForm onCancel={() => setIsCreating(false)} />;
+        }
+        if (pinRequest) {
+            return (
+                <form onSubmit={handlePinSubmit} className="text-center space-y-3">
+                    <p className="text-4xl">{pinRequest.profile.avatar}</p>
+                    <p className="text-sm text-slate-700 dark:text-slate-200">
+                        <strong>{pinRequest.profile.name}</strong>의 PIN을 입력해주세요.
+                    </p>
+                    <input
+                        type="password"
+                        inputMode="numeric"
+                        maxLength={4}
+                        value={pin}
+                        onChange={e => setPin(e.target.value.replace(/\D/g, ''))}
+                        className={`${inputClassName} text-center tracking-[0.5em] text-lg max-w-[10rem] mx-auto`}
+                        aria-label="PIN"
+                        autoFocus
+                    />
+                    <div className="flex justify-center gap-2">
+                        <Button type="button" variant="secondary" onClick={() => setPinRequest(null)} className="!py-1.5 !px-3 text-sm">취소</Button>
+                        <Button type="submit" disabled={!isValidPin(pin)} className="!py-1.5 !px-3 text-sm">확인</Button>
+                    </div>
+                </form>
+            );
+        }
+        return (
+            <>
+                <ul className="space-y-2 mb-3">
+                    {profiles.map(profile => {
+                        const isActive = profile.id === activeProfile.id;
+                        return (
+                            <li key={profile.id} className="flex items-center gap-2">
+                                <button
+                                    onClick={() => !isActive && requestAction({ profile, action: 'switch' })}
+                                    className={`flex-1 flex items-center gap-3 p-2 rounded-lg text-left transition-colors ${isActive ? 'bg-neon-blue/10 dark:bg-neon-blue/20 cursor-default' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                                >
+                                    <span className="text-2xl">{profile.avatar}</span>
+                                    <span className="min-w-0">
+                                        <span className="block text-sm font-bold text-slate-800 dark:text-slate-100 truncate">
+                                            {profile.name}{profile.pinHash && ' 🔒'}{profile.isTeacher && ' · 교사'}
+                                        </span>
+                                        {profile.grade && <span className="block text-xs text-slate-500 dark:text-slate-400">{profile.grade}</span>}
+                                    </span>
+                                    {isActive && <span className="ml-auto text-xs font-bold text-neon-blue shrink-0">사용 중</span>}
+                                </button>
+                                {!isActive && profile.id !== DEFAULT_PROFILE_ID && (
+                                    <button
+                                        onClick={() => requestAction({ profile, action: 'delete' })}
+                                        className="p-2 text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg"
+                                        aria-label={`${profile.name} 프로필 삭제`}
+                                    >
+                                        삭제
+                                    </button>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+                <Button variant="secondary" onClick={() => setIsCreating(true)} className="w-full !py-2 text-sm">+ 새 프로필 만들기</Button>
+            </>
+        );
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[100] p-4"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="profile-switcher-title"
+        >
+            <div
+                className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl p-4 sm:p-6 max-w-sm w-full max-h-[85vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center mb-3">
+                    <h2 id="profile-switcher-title" className="text-lg font-bold text-slate-800 dark:text-slate-100">
+                        {isCreating ? '새 프로필' : '누가 공부하나요?'}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 -mr-2 text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200 transition-colors rounded-full hover:bg-slate-100 dark:hover:bg-slate-700"
+                        aria-label="프로필 창 닫기"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+                    </button>
+                </div>
+                {renderBody()}
+                {error && <p className="text-red-500 text-xs mt-2 text-center">{error}</p>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,205 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { BankQuestion, DifficultyLevel, EducationCurriculum } from '../types.ts';
+import { DIFFICULTY_LABELS, QUESTION_TYPE_LABELS } from '../constants.ts';
+import { Button } from './common/Button.tsx';
+import { Card } from './common/Card.tsx';
+import { Spinner } from './common/Spinner.tsx';
+import { QuestionEditor, createEmptyQuestion, findQuestionProblem } from './QuestionEditor.tsx';
+import { createBankQuestion, deleteBankQuestion, loadBankQuestions, saveBankQuestion } from '../services/questionBank.ts';
+
+interface QuestionBankProps {
+    educationCurriculums: EducationCurriculum[];
+    onGoBack: () => void;
+}
+
+// The question being edited; `isNew` until it is first saved.
+interface Draft {
+    item: BankQuestion;
+    isNew: boolean;
+}
+
+const DIFFICULTIES = Object.keys(DIFFICULTY_LABELS) as DifficultyLevel[];
+
+const inputClassName = 'w-full bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none';
+
+/** Teacher view of the saved questions for one standard: review, edit, write new ones. */
+export const QuestionBank: React.FC<QuestionBankProps> = ({ educationCurriculums, onGoBack }) => {
+    const subjects = useMemo(() => educationCurriculums.flatMap(curriculum => curriculum.subjects), [educationCurriculums]);
+    const [subjectName, setSubjectName] = useState('');
+    const [grade, setGrade] = useState('');
+    const [unitName, setUnitName] = useState('');
+    const [standardId, setStandardId] = useState('');
+
+    const [items, setItems] = useState<BankQuestion[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [difficultyFilter, setDifficultyFilter] = useState<DifficultyLevel | ''>('');
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const subject = subjects.find(item => item.name === subjectName);
+    const gradeContent = subject?.grades.find(item => item.grade === grade);
+    const unit = gradeContent?.units.find(item => item.name === unitName);
+    const standard = unit?.standards.find(item => item.id === standardId);
+
+    const refresh = useCallback(async () => {
+        if (!standardId) {
+            setItems([]);
+            return;
+        }
+        setIsLoading(true);
+        try {
+            setItems(await loadBankQuestions(standardId));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "문제 은행을 불러오지 못했습니다.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [standardId]);
+
+    useEffect(() => {
+        setDraft(null);
+        setError(null);
+        refresh();
+    }, [refresh]);
+
+    const visibleItems = difficultyFilter ? items.filter(item => item.difficulty === difficultyFilter) : items;
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const problem = findQuestionProblem(draft.item.question);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        try {
+            await saveBankQuestion(draft.item);
+            setDraft(null);
+            setError(null);
+            await refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "문제를 저장하지 못했습니다.");
+        }
+    };
+
+    const handleDelete = async (item: BankQuestion) => {
+        if (!window.confirm("이 문제를 문제 은행에서 지우시겠습니까?")) return;
+        try {
+            await deleteBankQuestion(item.id);
+            await refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "문제를 지우지 못했습니다.");
+        }
+    };
+
+    const renderDraft = (current: Draft) => (
+        <div className="p-3 rounded-lg border-2 border-neon-blue/50 bg-white dark:bg-slate-800">
+            <div className="flex items-center gap-2">
+                <label htmlFor="bank-difficulty" className="text-xs font-bold text-slate-600 dark:text-slate-300 shrink-0">난이도</label>
+                <select
+                    id="bank-difficulty"
+                    value={current.item.difficulty}
+                    onChange={e => setDraft({ ...current, item: { ...current.item, difficulty: e.target.value as DifficultyLevel } })}
+                    className={`${inputClassName} max-w-[10rem]`}
+                >
+                    {DIFFICULTIES.map(level => <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>)}
+                </select>
+            </div>
+            <QuestionEditor
+                question={current.item.question}
+                onChange={question => setDraft({ ...current, item: { ...current.item, question } })}
+                canChangeType={current.isNew}
+            />
+            <div className="flex justify-end gap-2 mt-3">
+                <Button variant="secondary" onClick={() => { setDraft(null); setError(null); }} className="!py-1.5 !px-3 text-sm">취소</Button>
+                <Button onClick={handleSave} className="!py-1.5 !px-3 text-sm">저장</Button>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="max-w-3xl mx-auto px-2 pb-20">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-slate-900 dark:text-white">문제 은행 (교사용)</h1>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">저장한 문제는 학습 화면에서 AI보다 먼저 출제됩니다.</p>
+                </div>
+                <Button onClick={onGoBack} variant="secondary" className="!py-2 !px-4 text-sm">돌아가기</Button>
+            </div>
+
+            <Card className="mb-6">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    <select value={subjectName} onChange={e => { setSubjectName(e.target.value); setGrade(''); setUnitName(''); setStandardId(''); }} className={inputClassName} aria-label="과목">
+                        <option value="">과목 선택</option>
+                        {subjects.map(item => <option key={item.name} value={item.name}>{item.name}</option>)}
+                    </select>
+                    <select value={grade} onChange={e => { setGrade(e.target.value); setUnitName(''); setStandardId(''); }} disabled={!subject} className={inputClassName} aria-label="학년군">
+                        <option value="">학년군 선택</option>
+                        {subject?.grades.map(item => <option key={item.grade} value={item.grade}>{item.grade}</option>)}
+                    </select>
+                    <select value={unitName} onChange={e => { setUnitName(e.target.value); setStandardId(''); }} disabled={!gradeContent} className={inputClassName} aria-label="단원">
+                        <option value="">단원 선택</option>
+                        {gradeContent?.units.map(item => <option key={item.name} value={item.name}>{item.name}</option>)}
+                    </select>
+                </div>
+                {unit && (
+                    <select value={standardId} onChange={e => setStandardId(e.target.value)} className={`${inputClassName} mt-2`} aria-label="성취기준">
+                        <option value="">성취기준 선택</option>
+                        {unit.standards.map(item => <option key={item.id} value={item.id}>{item.id} {item.description}</option>)}
+                    </select>
+                )}
+            </Card>
+
+            {standard && (
+                <Card>
+                    <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+                        <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">{standard.id} 문제 ({items.length})</h3>
+                        <div className="flex items-center gap-2">
+                            <select value={difficultyFilter} onChange={e => setDifficultyFilter(e.target.value as DifficultyLevel | '')} className={`${inputClassName} !py-1.5`} aria-label="난이도 필터">
+                                <option value="">전체 난이도</option>
+                                {DIFFICULTIES.map(level => <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>)}
+                            </select>
+                            <Button
+                                onClick={() => setDraft({ item: createBankQuestion(standard.id, difficultyFilter || 'medium', createEmptyQuestion(), 'manual'), isNew: true })}
+                                disabled={draft !== null}
+                                className="!py-1.5 !px-3 text-sm shrink-0"
+                            >
+                                + 새 문제
+                            </Button>
+                        </div>
+                    </div>
+                    {error && <p className="text-red-500 text-xs mb-2">{error}</p>}
+                    {draft?.isNew && <div className="mb-3">{renderDraft(draft)}</div>}
+                    {isLoading ? (
+                        <Spinner text="문제를 불러오는 중입니다..." />
+                    ) : visibleItems.length === 0 ? (
+                        <p className="text-sm text-center text-slate-500 dark:text-slate-400 py-6">
+                            저장된 문제가 없습니다. 새 문제를 쓰거나 학습·과제 화면에서 만든 문제를 저장하세요.
+                        </p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {visibleItems.map(item => draft && !draft.isNew && draft.item.id === item.id ? (
+                                <li key={item.id}>{renderDraft(draft)}</li>
+                            ) : (
+                                <li key={item.id} className="p-3 rounded-lg border border-slate-200 dark:border-slate-700">
+                                    <div className="flex items-start gap-2">
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                                {QUESTION_TYPE_LABELS[item.question.questionType]} · {DIFFICULTY_LABELS[item.difficulty]} · {item.source === 'manual' ? '직접 작성' : 'AI 생성'}
+                                            </p>
+                                            <p className="text-sm text-slate-800 dark:text-slate-100 whitespace-pre-wrap break-words">{item.question.question}</p>
+                                            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">정답: {item.question.answer}</p>
+                                        </div>
+                                        <div className="flex items-center gap-1 shrink-0">
+                                            <button onClick={() => setDraft({ item, isNew: false })} disabled={draft !== null} className="px-2 py-1 text-xs text-neon-blue hover:underline disabled:opacity-30">수정</button>
+                                            <button onClick={() => handleDelete(item)} className="px-2 py-1 text-xs text-red-600 dark:text-red-400 hover:underline">삭제</button>
+                                        </div>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </Card>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,219 @@
+import React from 'react';
+import type { MultiSelectScoring, QuestionType, QuizQuestion } from '../types.ts';
+import { MULTI_SELECT_SCORING_LABELS, QUESTION_TYPE_LABELS } from '../constants.ts';
+import { MathInput } from './common/MathInput.tsx';
+import { countClozeBlanks, describeStructuredKey, isStructuredQuestion } from '../services/structuredQuestions.ts';
+import { describeMultiSelectKey } from '../services/multiSelect.ts';
+
+interface QuestionEditorProps {
+    question: QuizQuestion;
+    onChange: (question: QuizQuestion) => void;
+    // Only for questions written from scratch; a generated question keeps its type.
+    canChangeType?: boolean;
+}
+
+const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
+const NEW_CHOICE_COUNT = 4;
+const NEW_ITEM_COUNT = 3;
+const MAX_HINTS = 3;
+
+// OX questions may come without options; `Quiz` supplies these in that case.
+const choicesFor = (question: QuizQuestion) =>
+    question.options && question.options.length > 0 ? question.options : question.questionType === 'ox' ? ['O', 'X'] : null;
+
+const labelClassName = 'block text-xs font-bold text-slate-600 dark:text-slate-300 mb-0.5';
+const inputClassName = 'w-full bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none';
+
+/** A blank question of the given type, ready to be written. */
+export const createEmptyQuestion = (questionType: QuestionType = 'multiple-choice'): QuizQuestion => ({
+    question: '',
+    questionType,
+    options: questionType === 'multiple-choice' || questionType === 'multiple-select' ? Array(NEW_CHOICE_COUNT).fill('') : questionType === 'ox' ? ['O', 'X'] : undefined,
+    answers: questionType === 'multiple-select' ? [] : undefined,
+    scoring: questionType === 'multiple-select' ? 'all-or-nothing' : undefined,
+    pairs: questionType === 'matching' ? Array.from({ length: NEW_ITEM_COUNT }, () => ({ left: '', right: '' })) : undefined,
+    sequence: questionType === 'ordering' ? Array(NEW_ITEM_COUNT).fill('') : undefined,
+    clozeText: questionType === 'cloze' ? '' : undefined,
+    blanks: questionType === 'cloze' ? [] : undefined,
+    answer: questionType === 'ox' ? 'O' : '',
+    explanation: '',
+});
+
+// Multiple-select, matching, ordering and cloze keep `answer` as a readable copy of their key.
+const withKey = (question: QuizQuestion): QuizQuestion =>
+    isStructuredQuestion(question) ? { ...question, answer: describeStructuredKey(question) }
+    : question.questionType === 'multiple-select' ? { ...question, answer: describeMultiSelectKey(question) }
+    : question;
+
+/** Field-by-field editor for a quiz question, with Markdown and LaTeX previews. */
+export const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, onChange: onEdit, canChangeType = false }) => {
+    const choices = choicesFor(question);
+    const onChange = (next: QuizQuestion) => onEdit(withKey(next));
+
+    const handleTypeChange = (questionType: QuestionType) => {
+        const { question: _question, explanation: _explanation, ...empty } = createEmptyQuestion(questionType);
+        onChange({ ...question, ...empty });
+    };
+
+    const handleClozeTextChange = (clozeText: string) => {
+        // One answer per blank, keeping what was already written.
+        const blanks = Array.from({ length: countClozeBlanks(clozeText) }, (_, index) => question.blanks?.[index] || '');
+        onChange({ ...question, clozeText, blanks });
+    };
+
+    const updateList = <T,>(items: T[], index: number, item: T): T[] => items.map((current, i) => i === index ? item : current);
+
+    const handleOptionChange = (index: number, value: string) => {
+        const options = [...(question.options || [])];
+        const previous = options[index];
+        options[index] = value;
+        // Keep the answer pointing at the same choice when its wording changes.
+        onChange({
+            ...question,
+            options,
+            answer: question.answer === previous ? value : question.answer,
+            answers: question.answers?.map(answer => answer === previous ? value : answer),
+        });
+    };
+
+    const handleCorrectOptionToggle = (option: string) => {
+        const answers = question.answers || [];
+        const next = answers.includes(option) ? answers.filter(answer => answer !== option) : [...answers, option];
+        onChange({ ...question, answers: (question.options || []).filter(choice => next.includes(choice)) });
+    };
+
+    return (
+        <div className="space-y-3 mt-2">
+            {canChangeType && (
+                <div>
+                    <label htmlFor="question-type" className={labelClassName}>유형</label>
+                    <select id="question-type" value={question.questionType} onChange={e => handleTypeChange(e.target.value as QuestionType)} className={inputClassName}>
+                        {QUESTION_TYPES.map(type => <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>)}
+                    </select>
+                </div>
+            )}
+            <div>
+                <p className={labelClassName}>문제</p>
+                <MathInput value={question.question} onChange={value => onChange({ ...question, question: value })} rows={3} />
+            </div>
+            {question.questionType === 'multiple-choice' && question.options && (
+                <div className="space-y-1">
+                    <p className={labelClassName}>보기</p>
+                    {question.options.map((option, index) => (
+                        <MathInput key={index} value={option} onChange={value => handleOptionChange(index, value)} rows={1} placeholder={`보기 ${index + 1}`} />
+                    ))}
+                </div>
+            )}
+            {question.questionType === 'multiple-select' && question.options && (
+                <div className="space-y-1">
+                    <p className={labelClassName}>보기 (정답인 보기에 모두 표시)</p>
+                    {question.options.map((option, index) => (
+                        <div key={index} className="flex items-start gap-2">
+                            <label className="flex items-center gap-1 pt-2 text-xs text-slate-600 dark:text-slate-300 shrink-0 cursor-pointer">
+                                <input type="checkbox" checked={!!option.trim() && (question.answers || []).includes(option)} onChange={() => handleCorrectOptionToggle(option)} disabled={!option.trim()} />
+                                정답
+                            </label>
+                            <div className="flex-1 min-w-0">
+                                <MathInput value={option} onChange={value => handleOptionChange(index, value)} rows={1} placeholder={`보기 ${index + 1}`} />
+                            </div>
+                        </div>
+                    ))}
+                    <button type="button" onClick={() => onChange({ ...question, options: [...(question.options || []), ''] })} className="text-xs text-neon-blue hover:underline">+ 보기 추가</button>
+                    <div className="pt-1">
+                        <label htmlFor="multi-select-scoring" className={labelClassName}>채점 방식</label>
+                        <select id="multi-select-scoring" value={question.scoring || 'all-or-nothing'} onChange={e => onChange({ ...question, scoring: e.target.value as MultiSelectScoring })} className={inputClassName}>
+                            {(Object.keys(MULTI_SELECT_SCORING_LABELS) as MultiSelectScoring[]).map(scoring => (
+                                <option key={scoring} value={scoring}>{MULTI_SELECT_SCORING_LABELS[scoring]}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+            )}
+            {question.questionType === 'matching' && (
+                <div className="space-y-1">
+                    <p className={labelClassName}>짝 (왼쪽 - 오른쪽)</p>
+                    {(question.pairs || []).map((pair, index) => (
+                        <div key={index} className="grid grid-cols-2 gap-1">
+                            <MathInput value={pair.left} onChange={left => onChange({ ...question, pairs: updateList(question.pairs || [], index, { ...pair, left }) })} rows={1} placeholder={`왼쪽 ${index + 1}`} />
+                            <MathInput value={pair.right} onChange={right => onChange({ ...question, pairs: updateList(question.pairs || [], index, { ...pair, right }) })} rows={1} placeholder={`오른쪽 ${index + 1}`} />
+                        </div>
+                    ))}
+                    <button type="button" onClick={() => onChange({ ...question, pairs: [...(question.pairs || []), { left: '', right: '' }] })} className="text-xs text-neon-blue hover:underline">+ 짝 추가</button>
+                </div>
+            )}
+            {question.questionType === 'ordering' && (
+                <div className="space-y-1">
+                    <p className={labelClassName}>항목 (올바른 순서대로)</p>
+                    {(question.sequence || []).map((item, index) => (
+                        <MathInput key={index} value={item} onChange={value => onChange({ ...question, sequence: updateList(question.sequence || [], index, value) })} rows={1} placeholder={`${index + 1}번째`} />
+                    ))}
+                    <button type="button" onClick={() => onChange({ ...question, sequence: [...(question.sequence || []), ''] })} className="text-xs text-neon-blue hover:underline">+ 항목 추가</button>
+                </div>
+            )}
+            {question.questionType === 'cloze' && (
+                <div className="space-y-1">
+                    <p className={labelClassName}>빈칸 문장 (빈칸은 ___ 로 표시)</p>
+                    <MathInput value={question.clozeText || ''} onChange={handleClozeTextChange} rows={2} />
+                    {(question.blanks || []).map((blank, index) => (
+                        <MathInput key={index} value={blank} onChange={value => onChange({ ...question, blanks: updateList(question.blanks || [], index, value) })} rows={1} placeholder={`빈칸 ${index + 1}의 답 (여러 답은 / 로 구분)`} />
+                    ))}
+                </div>
+            )}
+            {!isStructuredQuestion(question) && question.questionType !== 'multiple-select' && <div>
+                <p className={labelClassName}>{question.questionType === 'creativity' ? '모범 답안' : '정답'}</p>
+                {choices ? (
+                    <select value={question.answer} onChange={e => onChange({ ...question, answer: e.target.value })} className={inputClassName} aria-label="정답">
+                        {!choices.includes(question.answer) && <option value={question.answer}>{question.answer || '정답 선택'}</option>}
+                        {choices.filter(choice => choice.trim()).map(choice => <option key={choice} value={choice}>{choice}</option>)}
+                    </select>
+                ) : (
+                    <MathInput value={question.answer} onChange={value => onChange({ ...question, answer: value })} rows={2} />
+                )}
+            </div>}
+            <div>
+                <p className={labelClassName}>해설</p>
+                <MathInput value={question.explanation} onChange={value => onChange({ ...question, explanation: value })} rows={2} />
+            </div>
+            <div className="space-y-1">
+                <p className={labelClassName}>힌트 (선택, 쉬운 것부터 차례로)</p>
+                {(question.hints || []).map((hint, index) => (
+                    <MathInput key={index} value={hint} onChange={value => onChange({ ...question, hints: updateList(question.hints || [], index, value) })} rows={1} placeholder={`힌트 ${index + 1}`} />
+                ))}
+                {(question.hints || []).length < MAX_HINTS && (
+                    <button type="button" onClick={() => onChange({ ...question, hints: [...(question.hints || []), ''] })} className="text-xs text-neon-blue hover:underline">+ 힌트 추가</button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+/** Why a question cannot be saved yet, or null when it is complete. */
+export const findQuestionProblem = (question: QuizQuestion): string | null => {
+    if (!question.question.trim()) return "문제를 입력해주세요.";
+    if ((question.questionType === 'multiple-choice' || question.questionType === 'multiple-select') && (question.options || []).some(option => !option.trim())) {
+        return "빈 보기가 있습니다.";
+    }
+    if (question.questionType === 'multiple-select') {
+        const options = question.options || [];
+        if (new Set(options).size !== options.length) return "보기가 겹치지 않게 해주세요.";
+        const answers = (question.answers || []).filter(answer => options.includes(answer));
+        if (answers.length === 0) return "정답인 보기를 하나 이상 골라주세요.";
+        if (!question.explanation.trim()) return "해설을 입력해주세요.";
+        return null;
+    } else if (question.questionType === 'matching') {
+        const pairs = question.pairs || [];
+        if (pairs.length < 2 || pairs.some(pair => !pair.left.trim() || !pair.right.trim())) return "짝을 두 개 이상, 빈칸 없이 입력해주세요.";
+        if (new Set(pairs.map(pair => pair.right)).size !== pairs.length) return "오른쪽 항목이 겹치지 않게 해주세요.";
+    } else if (question.questionType === 'ordering') {
+        const sequence = question.sequence || [];
+        if (sequence.length < 2 || sequence.some(item => !item.trim())) return "항목을 두 개 이상, 빈칸 없이 입력해주세요.";
+        if (new Set(sequence).size !== sequence.length) return "항목이 겹치지 않게 해주세요.";
+    } else if (question.questionType === 'cloze') {
+        if (!question.blanks || question.blanks.length === 0) return "문장에 빈칸(___)을 하나 이상 넣어주세요.";
+        if (question.blanks.some(blank => !blank.trim())) return "빈칸마다 답을 입력해주세요.";
+    }
+    const choices = choicesFor(question);
+    if (!question.answer.trim() || (choices && !choices.includes(question.answer))) return "정답을 정해주세요.";
+    if (!question.explanation.trim()) return "해설을 입력해주세요.";
+    return null;
+};
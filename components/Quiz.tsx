@@ -1,25 +1,61 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import type { QuizQuestion, Grade, ShortAnswerEvaluation } from '../types.ts';
+import type { QuizQuestion, Grade, ShortAnswerEvaluation, MultiSelectScoring, ExamSettings } from '../types.ts';
 import { Card } from './common/Card.tsx';
 import { Button } from './common/Button.tsx';
 import { Spinner } from './common/Spinner.tsx';
 import { generateSpeech, evaluateShortAnswer } from '../services/geminiService.ts';
+import { isAnswerMatch } from '../services/quizValidation.ts';
+import { compareMathAnswers, isMathSubject } from '../services/mathAnswer.ts';
+import { getErrorCategory, isCancelledError } from '../services/aiErrors.ts';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import { MathInput } from './common/MathInput.tsx';
+import { StructuredAnswerInput } from './StructuredAnswerInput.tsx';
+import { checkStructuredParts, encodeStructuredAnswer, getStructuredValues, isStructuredAnswerComplete, isStructuredQuestion, scoreStructuredAnswer } from '../services/structuredQuestions.ts';
+import { getSelectedOptions, isCorrectOption, scoreMultiSelectAnswer, toggleSelectedOption } from '../services/multiSelect.ts';
+import { DEFAULT_HINT_PENALTY, MULTI_SELECT_SCORING_LABELS } from '../constants.ts';
+import { ExamNavigator } from './ExamNavigator.tsx';
+import { findOpenQuestion, formatClock, getRemainingMs, isQuestionOpen, toSeconds } from '../services/examMode.ts';
 
 interface QuizProps {
     questions: QuizQuestion[];
+    // Curriculum grade label; AI grading strictness follows it.
+    grade?: string;
+    // Standard being quizzed; AI usage is attributed to it.
+    standardId?: string;
     onSubmit: (
         score: number, 
         correctAnswers: number, 
         totalQuestions: number,
         userAnswers: (string | null)[],
-        correctness: (boolean | null)[]
+        correctness: (boolean | null)[],
+        // Credit earned per question, 0 to 1; partial for graded written answers.
+        points: number[],
+        // Seconds spent on each question; exam mode only.
+        questionTimes: number[] | undefined,
+        // Hints revealed on each question before its answer was checked.
+        hintsUsed: number[]
     ) => void;
+    // Set when questions arrive in batches during the quiz: the planned total, which may be
+    // more than `questions` holds so far. The last loaded question waits for the next batch.
+    plannedCount?: number;
+    // Called when the learner moves on to `questionIndex`, with the outcome of every question
+    // so far (null where not yet answered or graded).
+    onProgress?: (questionIndex: number, correctness: (boolean | null)[]) => void;
+    // Called once the attempt is under way: at the first answer or hint, or right away in an exam.
+    onStart?: () => void;
+    // Scoring for multiple-select questions that do not set their own; all-or-nothing by default.
+    multiSelectScoring?: MultiSelectScoring;
+    // Exam mode: answers are not checked one by one but handed in together, under a time limit.
+    exam?: ExamSettings;
+    // Share of a question's credit taken off for each hint revealed.
+    hintPenalty?: number;
+    // Subject of the questions, or of each question when they mix subjects. Only 수학 short
+    // answers are graded by value.
+    subject?: string | string[];
 }
 
 // Helper functions for audio decoding (Local to Quiz to minimize external dependencies for now)
@@ -47,18 +83,6 @@ async function decodeAudioData(
     return buffer;
 }
 
-// Helper to compare answers robustly (handles trailing dots, whitespace)
-const isAnswerMatch = (option: string | null, answer: string) => {
-    if (!option) return false;
-    if (option === answer) return true;
-    
-    // Normalize: trim and remove trailing punctuation like '.' or ','
-    const normOption = option.trim().replace(/[.,]$/, '');
-    const normAnswer = answer.trim().replace(/[.,]$/, '');
-    
-    return normOption === normAnswer;
-};
-
 const SpeakerIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
         <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
@@ -94,10 +118,11 @@ const TranslateIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     </svg>
 );
 
-export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
+export const Quiz: React.FC<QuizProps> = ({ questions, grade, standardId, onSubmit, plannedCount, onProgress, onStart, multiSelectScoring = 'all-or-nothing', exam, hintPenalty = DEFAULT_HINT_PENALTY, subject }) => {
     // Safety check: ensure questions exist and are not empty
     const safeQuestions = questions || [];
     const hasQuestions = safeQuestions.length > 0;
+    const totalCount = Math.max(plannedCount ?? 0, safeQuestions.length);
 
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
     const [userAnswers, setUserAnswers] = useState<(string | null)[]>(hasQuestions ? Array(safeQuestions.length).fill(null) : []);
@@ -120,6 +145,192 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
     const [showTranslation, setShowTranslation] = useState(false); // Default hidden
     const audioContextRef = useRef<AudioContext | null>(null);
     const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+    // Grading and TTS requests still in flight; aborted when the quiz unmounts.
+    const aiControllerRef = useRef<AbortController | null>(null);
+
+    // Exam mode: once submitted, every answer is checked and the quiz is reviewed as usual,
+    // so written answers can still be graded before the results.
+    const [isExamSubmitted, setIsExamSubmitted] = useState(false);
+    const [isTimeUp, setIsTimeUp] = useState(false);
+    const [flagged, setFlagged] = useState<boolean[]>(hasQuestions ? Array(safeQuestions.length).fill(false) : []);
+    // Milliseconds spent on each question while the exam runs.
+    const [questionTimes, setQuestionTimes] = useState<number[]>(hasQuestions ? Array(safeQuestions.length).fill(0) : []);
+    const isExamRunning = !!exam && !isExamSubmitted;
+
+    // Adaptive quizzes: the learner moved on from the last loaded question and the next batch is on its way.
+    const [isAwaitingMore, setIsAwaitingMore] = useState(false);
+
+    // How many of each question's hints have been revealed, one at a time.
+    const [hintsShown, setHintsShown] = useState<number[]>(hasQuestions ? Array(safeQuestions.length).fill(0) : []);
+
+    // Make room for questions added after the quiz started.
+    useEffect(() => {
+        const count = safeQuestions.length;
+        const pad = <T,>(items: T[], fill: T): T[] => items.length >= count ? items : [...items, ...Array<T>(count - items.length).fill(fill)];
+        setUserAnswers(prev => pad(prev, null));
+        setCheckedStates(prev => pad(prev, false));
+        setShortAnswerGrades(prev => pad(prev, null));
+        setAiEvaluations(prev => pad(prev, null));
+        setFlagged(prev => pad(prev, false));
+        setQuestionTimes(prev => pad(prev, 0));
+        setHintsShown(prev => pad(prev, 0));
+    }, [safeQuestions.length]);
+
+    const hasStarted = !!exam || !!tempShortAnswer || userAnswers.some(answer => answer !== null) || hintsShown.some(count => count > 0);
+    useEffect(() => {
+        if (hasStarted) onStart?.();
+    }, [hasStarted, onStart]);
+
+    // Moves on by itself once the awaited batch arrives, or stops waiting if no more are coming.
+    useEffect(() => {
+        if (!isAwaitingMore) return;
+        if (currentQuestionIndex < safeQuestions.length - 1) {
+            setCurrentQuestionIndex(currentQuestionIndex + 1);
+            setIsAwaitingMore(false);
+        } else if (currentQuestionIndex >= totalCount - 1) {
+            setIsAwaitingMore(false);
+        }
+    }, [isAwaitingMore, currentQuestionIndex, safeQuestions.length, totalCount]);
+
+    // Time on the current question, added up every second and when the learner moves on.
+    useEffect(() => {
+        if (!isExamRunning) return;
+        const index = currentQuestionIndex;
+        let last = Date.now();
+        const tick = () => {
+            const now = Date.now();
+            const elapsed = now - last;
+            last = now;
+            setQuestionTimes(prev => prev.map((time, i) => i === index ? time + elapsed : time));
+        };
+        const timer = window.setInterval(tick, 1000);
+        return () => {
+            window.clearInterval(timer);
+            tick();
+        };
+    }, [isExamRunning, currentQuestionIndex]);
+
+    const isAnswered = useCallback((index: number) => {
+        const question = safeQuestions[index];
+        const answer = userAnswers[index];
+        if (question.questionType === 'multiple-select' && question.options?.length) {
+            return getSelectedOptions(question, answer).length > 0;
+        }
+        return !!answer && answer.trim() !== '';
+    }, [safeQuestions, userAnswers]);
+
+    // A short answer's verdict by value, or null when it is not a numeric 수학 answer.
+    const gradeByValue = useCallback((index: number, answer: string | null | undefined) => {
+        const question = safeQuestions[index];
+        if (question.questionType !== 'short-answer') return null;
+        if (!isMathSubject(Array.isArray(subject) ? subject[index] : subject)) return null;
+        return compareMathAnswers(answer, question.answer);
+    }, [safeQuestions, subject]);
+
+    const calculateResults = useCallback((answers: (string | null)[] = userAnswers) => {
+        const points = safeQuestions.map(() => 0);
+        const calculatedCorrectness = safeQuestions.map((question, index) => {
+             const qType = question.questionType;
+             const ans = answers[index];
+
+             // Questions left blank in an exam earn nothing.
+             if (!ans) return false;
+             
+             // Credit per part counts in the score; the question is correct only when all parts are.
+             if (isStructuredQuestion(question)) {
+                 points[index] = scoreStructuredAnswer(question, ans);
+                 return points[index] === 1;
+             }
+
+             // Partial scoring earns credit per option; the question is correct only when every pick is.
+             if (qType === 'multiple-select' && question.options?.length) {
+                 points[index] = scoreMultiSelectAnswer(question, ans, multiSelectScoring);
+                 return scoreMultiSelectAnswer(question, ans) === 1;
+             }
+
+             // Numeric short answers are graded by value, without AI or self grading.
+             const mathVerdict = gradeByValue(index, ans);
+             if (mathVerdict !== null) {
+                 points[index] = mathVerdict ? 1 : 0;
+                 return mathVerdict;
+             }
+
+             // If it's strictly Short Answer or Creativity, use manual grade
+             if (qType === 'short-answer' || qType === 'creativity') {
+                 const grade = shortAnswerGrades[index];
+                 if (grade === 'A') {
+                     points[index] = 1;
+                     return true;
+                 } else if (grade === 'B') {
+                     points[index] = 0.75;
+                     return true; // 75%
+                 } else if (grade === 'C') {
+                     points[index] = 0.5;
+                     return true; // 50%
+                 } else if (grade === 'D') {
+                     points[index] = 0.25;
+                     return false; // 25% considered incorrect for binary stat
+                 } else {
+                     return false;
+                 }
+             } else {
+                 // For MC/OX (including fallback text input), check exact match
+                 const isCorrect = isAnswerMatch(ans, question.answer);
+                 if (isCorrect) points[index] = 1;
+                 return isCorrect;
+             }
+        });
+        // Hints cost credit, not correctness: a question solved with hints is still solved.
+        hintsShown.forEach((count, index) => {
+            if (count > 0) points[index] = Math.max(0, points[index] - hintPenalty * count);
+        });
+        return { points, calculatedCorrectness };
+    }, [safeQuestions, userAnswers, multiSelectScoring, shortAnswerGrades, hintsShown, hintPenalty, gradeByValue]);
+
+    const finishQuiz = useCallback((answers: (string | null)[] = userAnswers) => {
+        const { points, calculatedCorrectness } = calculateResults(answers);
+
+        const totalEarnedPoints = points.reduce((sum, point) => sum + point, 0);
+        const scorePercentage = (totalEarnedPoints / safeQuestions.length) * 100;
+        const correctCount = calculatedCorrectness.filter(c => c === true).length;
+
+        setShowResults(true);
+        onSubmit(scorePercentage, correctCount, safeQuestions.length, answers, calculatedCorrectness, points, exam ? toSeconds(questionTimes) : undefined, hintsShown);
+    }, [calculateResults, safeQuestions.length, userAnswers, onSubmit, exam, questionTimes, hintsShown]);
+
+    // Hands in the exam. Answers are locked and checked together; written answers that need
+    // grading are then reviewed one by one, otherwise the results follow straight away.
+    const submitExam = useCallback((isTimeout: boolean) => {
+        if (!isTimeout) {
+            const unanswered = safeQuestions.filter((_, index) => !isAnswered(index)).length;
+            if (unanswered > 0 && !window.confirm(`답하지 않은 문제가 ${unanswered}개 있습니다. 그래도 제출할까요?`)) return;
+        }
+        // An ordering question never rearranged is handed in in the order it was shown.
+        const answers = safeQuestions.map((question, index) => question.questionType === 'ordering' && !userAnswers[index]
+            ? encodeStructuredAnswer(getStructuredValues(question, null))
+            : userAnswers[index] ?? null);
+        setUserAnswers(answers);
+        setIsExamSubmitted(true);
+        setIsTimeUp(isTimeout);
+        setCheckedStates(safeQuestions.map(() => true));
+        const needsGrading = safeQuestions.some((question, index) => isAnswered(index) && (
+            question.questionType === 'creativity' ||
+            (question.questionType === 'short-answer' && gradeByValue(index, answers[index]) === null)
+        ));
+        if (needsGrading) setCurrentQuestionIndex(0);
+        else finishQuiz(answers);
+    }, [safeQuestions, userAnswers, isAnswered, finishQuiz, gradeByValue]);
+
+    // Out of time: a per-question limit moves on to a question with time left, otherwise the exam is handed in.
+    useEffect(() => {
+        if (!exam || !isExamRunning || !hasQuestions) return;
+        if (isQuestionOpen(exam, questionTimes, currentQuestionIndex)) return;
+        const next = exam.timing === 'per-question'
+            ? findOpenQuestion(exam, questionTimes, safeQuestions.length, currentQuestionIndex, 1, true)
+            : null;
+        if (next !== null) setCurrentQuestionIndex(next);
+        else submitExam(true);
+    }, [exam, isExamRunning, hasQuestions, questionTimes, currentQuestionIndex, safeQuestions.length, submitExam]);
 
     // Determine current question and its mode (Selection vs Text Input)
     const currentQuestion = safeQuestions[currentQuestionIndex];
@@ -133,7 +344,10 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
     
     const hasOptions = options && options.length > 0;
     // Selection mode applies ONLY if it's MC/OX AND has valid options to select
-    const isSelectionMode = (type === 'multiple-choice' || type === 'ox') && hasOptions;
+    const isMultiSelect = type === 'multiple-select' && hasOptions;
+    const isSelectionMode = (type === 'multiple-choice' || type === 'ox' || isMultiSelect) && hasOptions;
+    // Matching, ordering and cloze have their own inputs and are scored per part.
+    const isStructured = currentQuestion ? isStructuredQuestion(currentQuestion) : false;
 
 
     useEffect(() => {
@@ -153,12 +367,12 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
         
         // If we are NOT in selection mode (Short Answer, Creativity, OR MC/OX Fallback),
         // we need to sync the text input.
-        if (!isSelectionMode) {
+        if (!isSelectionMode && !isStructured) {
              setTempShortAnswer(savedAnswer || '');
         } else {
              setTempShortAnswer('');
         }
-    }, [currentQuestionIndex, userAnswers, checkedStates, safeQuestions, hasQuestions, isSelectionMode, currentQuestion]);
+    }, [currentQuestionIndex, userAnswers, checkedStates, safeQuestions, hasQuestions, isSelectionMode, isStructured, currentQuestion]);
 
     const stopAudio = useCallback(() => {
         if (audioSourceRef.current) {
@@ -181,7 +395,10 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
 
     // Cleanup on unmount
     useEffect(() => {
-        return () => stopAudio();
+        return () => {
+            aiControllerRef.current?.abort();
+            stopAudio();
+        };
     }, [stopAudio]);
     
     if (!hasQuestions || !currentQuestion) {
@@ -190,14 +407,17 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
 
     const handlePlayScript = async (text: string) => {
         if (isSpeaking || isLoadingTTS) {
+            aiControllerRef.current?.abort();
             stopAudio();
             return;
         }
         
+        const controller = new AbortController();
+        aiControllerRef.current = controller;
         setIsLoadingTTS(true);
         try {
             // Use 'Zephyr' (British/International sounding male) for reading passages clearly
-            const base64Audio = await generateSpeech(text, 'Zephyr');
+            const base64Audio = await generateSpeech(text, 'Zephyr', controller.signal, standardId);
 
             const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
             audioContextRef.current = audioCtx;
@@ -222,8 +442,10 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
             setIsSpeaking(true);
 
         } catch (err) {
-            console.error(err);
-            alert("오디오 재생 중 오류가 발생했습니다.");
+            if (!isCancelledError(err)) {
+                console.error(err);
+                alert(getErrorCategory(err) === 'budget' && err instanceof Error ? err.message : "오디오 재생 중 오류가 발생했습니다.");
+            }
             stopAudio();
         }
     };
@@ -235,7 +457,8 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
     const handleAnswerSelect = (option: string) => {
         if (isAnswerChecked) return;
         const newAnswers = [...userAnswers];
-        newAnswers[currentQuestionIndex] = option;
+        // Multiple-select options toggle like checkboxes; the others replace the selection.
+        newAnswers[currentQuestionIndex] = isMultiSelect ? toggleSelectedOption(currentQuestion, userAnswer, option) : option;
         setUserAnswers(newAnswers);
     };
     
@@ -245,9 +468,30 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
     //     setTempShortAnswer(e.target.value);
     // };
 
+    // In exam mode a written answer is kept as it is typed, since it is never checked on its own.
+    const handleTextChange = (value: string) => {
+        setTempShortAnswer(value);
+        if (!isExamRunning) return;
+        const newAnswers = [...userAnswers];
+        newAnswers[currentQuestionIndex] = value;
+        setUserAnswers(newAnswers);
+    };
+
+    const handleStructuredChange = (value: string) => {
+        if (isAnswerChecked) return;
+        const newAnswers = [...userAnswers];
+        newAnswers[currentQuestionIndex] = value;
+        setUserAnswers(newAnswers);
+    };
+
     const handleCheckAnswer = () => {
-        // If not in selection mode (meaning text input was used), save the text answer
-        if (!isSelectionMode) {
+        if (isStructured) {
+            // An ordering question left as shown is answered in its shuffled order.
+            const newAnswers = [...userAnswers];
+            newAnswers[currentQuestionIndex] = encodeStructuredAnswer(getStructuredValues(currentQuestion, userAnswer));
+            setUserAnswers(newAnswers);
+        } else if (!isSelectionMode) {
+            // If not in selection mode (meaning text input was used), save the text answer
             const newAnswers = [...userAnswers];
             newAnswers[currentQuestionIndex] = tempShortAnswer;
             setUserAnswers(newAnswers);
@@ -261,18 +505,24 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
 
     // AI Grading Handler
     const handleAiGrading = async () => {
+        const controller = new AbortController();
+        aiControllerRef.current = controller;
         setIsAiGrading(true);
         try {
             const result = await evaluateShortAnswer(
                 currentQuestion.question,
                 currentQuestion.answer,
-                userAnswers[currentQuestionIndex] || ''
+                userAnswers[currentQuestionIndex] || '',
+                grade,
+                controller.signal,
+                standardId
             );
             const newAiEvaluations = [...aiEvaluations];
             newAiEvaluations[currentQuestionIndex] = result;
             setAiEvaluations(newAiEvaluations);
         } catch (error) {
-            alert('AI 채점 중 문제가 발생했습니다. 잠시 후 다시 시도해주세요.');
+            if (isCancelledError(error)) return;
+            alert(error instanceof Error ? error.message : 'AI 채점 중 문제가 발생했습니다. 잠시 후 다시 시도해주세요.');
         } finally {
             setIsAiGrading(false);
         }
@@ -286,74 +536,61 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
     };
     
     const handlePrev = () => {
-        if (currentQuestionIndex > 0) {
+        if (isExamRunning && exam) {
+            const prev = findOpenQuestion(exam, questionTimes, safeQuestions.length, currentQuestionIndex, -1);
+            if (prev !== null) setCurrentQuestionIndex(prev);
+        } else if (currentQuestionIndex > 0) {
             setCurrentQuestionIndex(prev => prev - 1);
         }
     };
 
+    const handleShowHint = () => {
+        if (isAnswerChecked) return;
+        setHintsShown(prev => prev.map((count, index) => index === currentQuestionIndex ? count + 1 : count));
+    };
+
+    const handleToggleFlag = () => {
+        setFlagged(prev => prev.map((value, index) => index === currentQuestionIndex ? !value : value));
+    };
+
     const handleNext = () => {
-        if (currentQuestionIndex < safeQuestions.length - 1) {
-            setCurrentQuestionIndex(prev => prev + 1);
+        if (isExamRunning && exam) {
+            const next = findOpenQuestion(exam, questionTimes, safeQuestions.length, currentQuestionIndex, 1);
+            if (next !== null) setCurrentQuestionIndex(next);
+        } else if (currentQuestionIndex < totalCount - 1) {
+            if (onProgress) {
+                const { calculatedCorrectness } = calculateResults();
+                // Unchecked questions and ungraded written answers say nothing yet.
+                onProgress(currentQuestionIndex + 1, calculatedCorrectness.map((isCorrect, index) => {
+                    const question = safeQuestions[index];
+                    const isWritten = question.questionType === 'short-answer' || question.questionType === 'creativity';
+                    const isAutoGraded = gradeByValue(index, userAnswers[index]) !== null;
+                    return !checkedStates[index] || (isWritten && !isAutoGraded && !shortAnswerGrades[index]) ? null : isCorrect;
+                }));
+            }
+            // Past the last loaded question the next batch is only requested now, with this answer in.
+            if (currentQuestionIndex < safeQuestions.length - 1) setCurrentQuestionIndex(prev => prev + 1);
+            else setIsAwaitingMore(true);
         } else {
-            // Calculate final results
-            let totalEarnedPoints = 0;
-            const calculatedCorrectness = safeQuestions.map((question, index) => {
-                 const qType = question.questionType;
-                 const qOptions = question.options;
-                 // Recalculate mode for each question to know how to grade
-                 const qHasOptions = (qType === 'multiple-choice' && qOptions && qOptions.length > 0) || (qType === 'ox');
-                 // const isSelection = (qType === 'multiple-choice' || qType === 'ox') && qHasOptions;
-                 
-                 const ans = userAnswers[index];
-                 
-                 // If it's strictly Short Answer or Creativity, use manual grade
-                 if (qType === 'short-answer' || qType === 'creativity') {
-                     const grade = shortAnswerGrades[index];
-                     if (grade === 'A') {
-                         totalEarnedPoints += 1;
-                         return true;
-                     } else if (grade === 'B') {
-                         totalEarnedPoints += 0.75;
-                         return true; // 75%
-                     } else if (grade === 'C') {
-                         totalEarnedPoints += 0.5;
-                         return true; // 50%
-                     } else if (grade === 'D') {
-                         totalEarnedPoints += 0.25;
-                         return false; // 25% considered incorrect for binary stat
-                     } else {
-                         return false;
-                     }
-                 } else {
-                     // For MC/OX (including fallback text input), check exact match
-                     const isCorrect = isAnswerMatch(ans, question.answer);
-                     if (isCorrect) totalEarnedPoints += 1;
-                     return isCorrect;
-                 }
-            });
-
-            const scorePercentage = (totalEarnedPoints / safeQuestions.length) * 100;
-            const correctCount = calculatedCorrectness.filter(c => c === true).length;
-            
-            setShowResults(true);
-            onSubmit(scorePercentage, correctCount, safeQuestions.length, userAnswers, calculatedCorrectness);
+            finishQuiz();
         }
     };
 
-    const isLastQuestion = currentQuestionIndex === safeQuestions.length - 1;
+    const isLastQuestion = currentQuestionIndex === totalCount - 1;
 
     const getOptionClasses = (option: string) => {
         let baseClasses = 'w-full text-left p-3 border rounded-lg transition-all duration-200 select-none text-sm leading-snug';
 
+        const isSelectedAnswer = isMultiSelect ? getSelectedOptions(currentQuestion, userAnswer).includes(option) : option === userAnswer;
+
         if (!isAnswerChecked) {
-            if (userAnswer === option) {
+            if (isSelectedAnswer) {
                 return `${baseClasses} bg-neon-blue/20 border-neon-blue ring-2 ring-neon-blue cursor-pointer font-medium dark:text-slate-100`;
             }
             return `${baseClasses} bg-white dark:bg-slate-700 border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-600 active:bg-slate-100 dark:active:bg-slate-500 cursor-pointer dark:text-slate-200`;
         }
 
-        const isCorrectAnswer = isAnswerMatch(option, currentQuestion.answer);
-        const isSelectedAnswer = option === userAnswer;
+        const isCorrectAnswer = isMultiSelect ? isCorrectOption(currentQuestion, option) : isAnswerMatch(option, currentQuestion.answer);
 
         if (isCorrectAnswer) {
             return `${baseClasses} bg-lime-green/20 border-lime-green ring-2 ring-lime-green cursor-default dark:text-slate-100`;
@@ -376,15 +613,89 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
         p: (props: any) => <p className="mb-0" {...props} />, 
     };
 
+    const renderHints = () => {
+        const hints = (currentQuestion.hints || []).filter(hint => hint.trim());
+        const shown = hintsShown[currentQuestionIndex] || 0;
+        if (hints.length === 0 || (isAnswerChecked && shown === 0)) return null;
+        return (
+            <div className="mb-4">
+                {shown > 0 && (
+                    <ol className="space-y-1.5 mb-2">
+                        {hints.slice(0, shown).map((hint, index) => (
+                            <li key={index} className="p-2.5 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50 text-sm text-slate-700 dark:text-slate-200">
+                                <span className="text-xs font-bold text-amber-600 dark:text-amber-400 mr-1">힌트 {index + 1}</span>
+                                <ReactMarkdown
+                                    remarkPlugins={[remarkGfm, remarkMath]}
+                                    rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
+                                    components={{ ...markdownComponents, p: (props: any) => <span {...props} /> }}
+                                >
+                                    {hint}
+                                </ReactMarkdown>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+                {!isAnswerChecked && shown < hints.length && (
+                    <button
+                        onClick={handleShowHint}
+                        className="text-xs font-medium px-2.5 py-1 rounded-full border border-amber-300 dark:border-amber-700 text-amber-700 dark:text-amber-300 hover:bg-amber-50 dark:hover:bg-amber-900/30 transition-colors"
+                    >
+                        💡 {shown === 0 ? '힌트 보기' : '다음 힌트'} ({shown}/{hints.length})
+                        {hintPenalty > 0 && <span className="ml-1 text-amber-600/80 dark:text-amber-400/80">· 힌트마다 {Math.round(hintPenalty * 100)}% 감점</span>}
+                    </button>
+                )}
+            </div>
+        );
+    };
+
     const renderQuestionInput = () => {
+        if (isStructured) {
+            const parts = checkStructuredParts(currentQuestion, userAnswer);
+            return (
+                <div className="mt-4">
+                    <StructuredAnswerInput
+                        key={currentQuestionIndex}
+                        question={currentQuestion}
+                        value={userAnswer}
+                        onChange={handleStructuredChange}
+                        isChecked={isAnswerChecked}
+                    />
+                    {isAnswerChecked && (
+                        <div className="mt-4 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/30 border border-slate-200 dark:border-slate-600 text-sm">
+                            <p className="font-semibold text-slate-800 dark:text-slate-200 mb-1">
+                                {parts.length}개 중 {parts.filter(Boolean).length}개를 맞혔어요.
+                            </p>
+                            <div className="text-slate-700 dark:text-slate-300">
+                                <ReactMarkdown
+                                    remarkPlugins={[remarkGfm, remarkMath]}
+                                    rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
+                                    components={markdownComponents}
+                                >
+                                    {`정답: ${currentQuestion.answer}`}
+                                </ReactMarkdown>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            );
+        }
+
         if (isSelectionMode) {
             // Safe to assume options exist because isSelectionMode is true
+            const selectedOptions = isMultiSelect ? getSelectedOptions(currentQuestion, userAnswer) : [];
+            const scoring = currentQuestion.scoring || multiSelectScoring;
             return (
                 <div className="space-y-2 mt-4">
+                    {isMultiSelect && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            알맞은 것을 모두 고르세요. ({MULTI_SELECT_SCORING_LABELS[scoring]})
+                        </p>
+                    )}
                     {options!.map((option, index) => {
-                        const isCorrectAnswer = isAnswerMatch(option, currentQuestion.answer);
+                        const isCorrectAnswer = isMultiSelect ? isCorrectOption(currentQuestion, option) : isAnswerMatch(option, currentQuestion.answer);
                         const showCorrectLabel = isAnswerChecked && isCorrectAnswer;
                         const optionTranslation = currentQuestion.optionsTranslation?.[index];
+                        const isSelected = selectedOptions.includes(option);
 
                         return (
                             <div key={index} className="relative">
@@ -397,15 +708,24 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                                     onClick={() => handleAnswerSelect(option)}
                                     className={getOptionClasses(option)}
                                     disabled={isAnswerChecked}
+                                    role={isMultiSelect ? 'checkbox' : undefined}
+                                    aria-checked={isMultiSelect ? isSelected : undefined}
                                 >
-                                    <div className="overflow-x-auto">
-                                        <ReactMarkdown 
-                                            remarkPlugins={[remarkGfm, remarkMath]}
-                                            rehypePlugins={[[rehypeKatex, { output: 'html' }]]} 
-                                            components={markdownComponents}
-                                        >
-                                            {option}
-                                        </ReactMarkdown>
+                                    <div className={`overflow-x-auto ${isMultiSelect ? 'flex items-start gap-2' : ''}`}>
+                                        {isMultiSelect && (
+                                            <span aria-hidden="true" className={`mt-0.5 w-4 h-4 shrink-0 rounded border-2 flex items-center justify-center text-[10px] font-bold ${isSelected ? 'bg-neon-blue border-neon-blue text-white' : 'border-slate-400 dark:border-slate-500'}`}>
+                                                {isSelected ? '✓' : ''}
+                                            </span>
+                                        )}
+                                        <div className="min-w-0 flex-1">
+                                            <ReactMarkdown 
+                                                remarkPlugins={[remarkGfm, remarkMath]}
+                                                rehypePlugins={[[rehypeKatex, { output: 'html' }]]} 
+                                                components={markdownComponents}
+                                            >
+                                                {option}
+                                            </ReactMarkdown>
+                                        </div>
                                     </div>
                                     {/* Translation for Option */}
                                     {showTranslation && optionTranslation && (
@@ -423,18 +743,33 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                             </div>
                         );
                     })}
+                    {isMultiSelect && isAnswerChecked && (
+                        <div className="mt-4 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/30 border border-slate-200 dark:border-slate-600 text-sm">
+                            <p className="font-semibold text-slate-800 dark:text-slate-200">
+                                정답 {currentQuestion.answers?.length || 0}개 중 {selectedOptions.filter(option => isCorrectOption(currentQuestion, option)).length}개를 골랐어요.
+                                {selectedOptions.some(option => !isCorrectOption(currentQuestion, option)) && ' 정답이 아닌 것도 골랐어요.'}
+                            </p>
+                            {scoring === 'partial' && (
+                                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                    부분 점수: {Math.round(scoreMultiSelectAnswer(currentQuestion, userAnswer, scoring) * 100)}점
+                                </p>
+                            )}
+                        </div>
+                    )}
                 </div>
             );
         }
 
         // Short-answer UI (for short-answer, creativity, OR MC fallback)
-        const isMcFallback = (type === 'multiple-choice' || type === 'ox') && !hasOptions;
+        const isMcFallback = (type === 'multiple-choice' || type === 'multiple-select' || type === 'ox') && !hasOptions;
+        // Set once a numeric short answer is checked: right or wrong by value, no grading needed.
+        const mathVerdict = isAnswerChecked ? gradeByValue(currentQuestionIndex, userAnswer) : null;
         
         return (
             <div className="mt-4">
                 <MathInput
                     value={tempShortAnswer}
-                    onChange={setTempShortAnswer}
+                    onChange={handleTextChange}
                     disabled={isAnswerChecked}
                     placeholder={type === 'creativity' ? "창의적인 답변을 자유롭게 작성해보세요..." : "정답을 입력하세요..."}
                     rows={3}
@@ -472,7 +807,11 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                             
                             {/* Grading Section - ONLY for Short Answer / Creativity */}
                             {/* For MC/OX fallback, we rely on string matching (auto-grade) in handleNext, so we hide manual buttons */}
-                            {(type === 'short-answer' || type === 'creativity') ? (
+                            {mathVerdict !== null ? (
+                                <p className={`text-sm font-semibold ${mathVerdict ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                    {mathVerdict ? '🔢 자동 채점: 정답이에요!' : '🔢 자동 채점: 정답과 값이 달라요. 정답과 해설을 다시 확인해 보세요.'}
+                                </p>
+                            ) : (type === 'short-answer' || type === 'creativity') ? (
                                 <>
                                     {/* AI Grading Section */}
                                     <div className="mb-4">
@@ -580,10 +919,18 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
         <div className="max-w-3xl mx-auto px-2 pb-20 sm:px-4">
             <div className="mb-4 flex items-center justify-between">
                 <span className="text-sm font-bold text-slate-500 dark:text-slate-400">
-                    문제 {currentQuestionIndex + 1} <span className="font-normal text-slate-400">/ {safeQuestions.length}</span>
+                    문제 {currentQuestionIndex + 1} <span className="font-normal text-slate-400">/ {totalCount}</span>
                 </span>
                 
                 <div className="flex gap-2">
+                     {isExamRunning && exam && (
+                        <span
+                            className={`px-2 py-1 rounded text-xs font-bold tabular-nums border ${getRemainingMs(exam, questionTimes, currentQuestionIndex) <= (exam.timing === 'total' ? 60_000 : 10_000) ? 'bg-red-50 border-red-200 text-red-600 dark:bg-red-900/30 dark:border-red-800 dark:text-red-300' : 'bg-white border-slate-200 text-slate-600 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-300'}`}
+                            title={exam.timing === 'total' ? '남은 시험 시간' : '이 문제의 남은 시간'}
+                        >
+                            ⏱ {formatClock(getRemainingMs(exam, questionTimes, currentQuestionIndex))}
+                        </span>
+                     )}
                      {/* Show Translation Toggle if translations exist */}
                      {(currentQuestion.questionTranslation || currentQuestion.passageTranslation) && (
                         <button
@@ -598,6 +945,22 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                 </div>
             </div>
 
+            {exam && (
+                <ExamNavigator
+                    currentIndex={currentQuestionIndex}
+                    answered={safeQuestions.map((_, index) => isAnswered(index))}
+                    flagged={flagged}
+                    closed={safeQuestions.map((_, index) => isExamRunning && !isQuestionOpen(exam, questionTimes, index))}
+                    onSelect={setCurrentQuestionIndex}
+                />
+            )}
+            {exam && isExamSubmitted && (
+                <div className="mb-4 p-3 rounded-lg bg-neon-blue/10 dark:bg-neon-blue/20 text-sm text-slate-700 dark:text-slate-200">
+                    <p className="text-xs font-bold text-neon-blue mb-0.5">{isTimeUp ? '시간이 끝나 자동으로 제출했어요' : '시험을 제출했어요'}</p>
+                    <p className="leading-snug">이제 정답과 해설을 볼 수 있어요. 서술형 답안을 채점한 뒤 마지막 문제에서 결과를 확인하세요.</p>
+                </div>
+            )}
+
             <Card className="p-4 sm:p-6 min-h-[400px] flex flex-col justify-between">
                 <div>
                     <div className="mb-4">
@@ -605,12 +968,20 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                             <span className={`inline-block px-2.5 py-1 rounded-md text-xs font-bold shadow-sm ${
                                 type === 'ox' ? 'bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300' :
                                 type === 'multiple-choice' ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300' :
+                                type === 'multiple-select' ? 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300' :
                                 type === 'creativity' ? 'bg-pink-100 text-pink-700 dark:bg-pink-900/40 dark:text-pink-300' :
+                                type === 'matching' ? 'bg-teal-100 text-teal-700 dark:bg-teal-900/40 dark:text-teal-300' :
+                                type === 'ordering' ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300' :
+                                type === 'cloze' ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300' :
                                 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300'
                             }`}>
                                 {type === 'ox' ? 'OX 퀴즈' : 
                                  type === 'multiple-choice' ? '객관식' : 
-                                 type === 'creativity' ? '창의 서술형' : '단답형'}
+                                 type === 'multiple-select' ? '복수 정답' :
+                                 type === 'creativity' ? '창의 서술형' :
+                                 type === 'matching' ? '짝 맞추기' :
+                                 type === 'ordering' ? '순서 정하기' :
+                                 type === 'cloze' ? '빈칸 채우기' : '단답형'}
                             </span>
                             
                             {/* TTS Button for Question */}
@@ -698,6 +1069,8 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                         </div>
                     )}
 
+                    {renderHints()}
+
                     {renderQuestionInput()}
                 </div>
 
@@ -705,17 +1078,36 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                     <Button 
                         variant="secondary" 
                         onClick={handlePrev} 
-                        disabled={currentQuestionIndex === 0}
+                        disabled={isExamRunning && exam ? findOpenQuestion(exam, questionTimes, safeQuestions.length, currentQuestionIndex, -1) === null : currentQuestionIndex === 0}
                         className="flex items-center gap-1 pl-3 pr-4"
                     >
                         <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="19" y1="12" x2="5" y2="12"></line><polyline points="12 19 5 12 12 5"></polyline></svg>
                         이전
                     </Button>
 
-                    {!isAnswerChecked ? (
+                    {isExamRunning ? (
+                        <div className="flex gap-2">
+                            <Button
+                                variant="secondary"
+                                onClick={handleToggleFlag}
+                                className={`!px-3 ${flagged[currentQuestionIndex] ? '!bg-amber-50 !border-amber-300 dark:!bg-amber-900/30' : ''}`}
+                                title="나중에 다시 볼 문제로 표시"
+                            >
+                                🚩 <span className="hidden sm:inline">{flagged[currentQuestionIndex] ? '표시 해제' : '표시'}</span>
+                            </Button>
+                            {exam && findOpenQuestion(exam, questionTimes, safeQuestions.length, currentQuestionIndex, 1) !== null && (
+                                <Button variant="secondary" onClick={handleNext} className="px-4">
+                                    다음
+                                </Button>
+                            )}
+                            <Button onClick={() => submitExam(false)} className="px-5 shadow-md">
+                                제출하기
+                            </Button>
+                        </div>
+                    ) : !isAnswerChecked ? (
                         <Button 
                             onClick={handleCheckAnswer} 
-                            disabled={isSelectionMode ? !userAnswer : !tempShortAnswer.trim()} 
+                            disabled={isStructured ? !isStructuredAnswerComplete(currentQuestion, userAnswer) : isMultiSelect ? getSelectedOptions(currentQuestion, userAnswer).length === 0 : isSelectionMode ? !userAnswer : !tempShortAnswer.trim()} 
                             className="px-8 shadow-md"
                         >
                             정답 확인
@@ -723,9 +1115,10 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                     ) : (
                         <Button 
                             onClick={handleNext} 
+                            disabled={isAwaitingMore}
                             className="px-6 flex items-center gap-1 pl-4 pr-3 shadow-md bg-slate-800 hover:bg-slate-900 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-100"
                         >
-                            {isLastQuestion ? '결과 보기' : '다음 문제'} 
+                            {isAwaitingMore ? '다음 문제 준비 중...' : isLastQuestion ? '결과 보기' : '다음 문제'} 
                             <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="5" y1="12" x2="19" y2="12"></line><polyline points="12 5 19 12 12 19"></polyline></svg>
                         </Button>
                     )}
@@ -0,0 +1,75 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { QuizResult } from '../types.ts';
+import { Button } from './common/Button.tsx';
+import { Spinner } from './common/Spinner.tsx';
+import { addStudyResults } from '../services/studyHistory.ts';
+import { addMissedQuestions } from '../services/reviewQueue.ts';
+
+interface QuizCompletionProps {
+    // One result per standard; assignments spanning several standards produce several.
+    results: QuizResult[];
+    onDone: () => void;
+}
+
+/** Score screen shown after a quiz. Saves the results on mount and offers a retry if that fails. */
+export const QuizCompletion: React.FC<QuizCompletionProps> = ({ results, onDone }) => {
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Saving twice (e.g. a retry after a timeout that actually landed) just overwrites by id.
+    const saveResult = useCallback(async () => {
+        setIsSaving(true);
+        setSaveError(null);
+        try {
+            await addStudyResults(results);
+            // The review queue is a convenience; failing to fill it should not look like a lost result.
+            addMissedQuestions(results).catch(error => console.error("Failed to queue missed questions:", error));
+        } catch (error) {
+            setSaveError(error instanceof Error ? error.message : "학습 기록을 저장하지 못했습니다.");
+        } finally {
+            setIsSaving(false);
+        }
+    }, [results]);
+
+    useEffect(() => {
+        saveResult();
+    }, [saveResult]);
+
+    const totalQuestions = results.reduce((sum, result) => sum + result.totalQuestions, 0);
+    const correctAnswers = results.reduce((sum, result) => sum + result.correctAnswers, 0);
+    // Weighted by question count, which gives back the score over the whole quiz.
+    const score = totalQuestions > 0
+        ? results.reduce((sum, result) => sum + result.score * result.totalQuestions, 0) / totalQuestions
+        : 0;
+
+    return (
+        <div className="max-w-2xl mx-auto text-center bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-xl shadow-lg mt-4 transition-colors duration-300">
+            <h2 className="text-lg sm:text-xl font-bold text-slate-800 dark:text-white mb-2">학습 완료!</h2>
+            <p className="text-slate-600 dark:text-slate-300 mb-4 text-sm break-keep">
+                성취기준 <span className="font-semibold block sm:inline mt-1 sm:mt-0">{results.length === 1 ? results[0].standardId : `${results.length}개`}</span>에 대한 학습을 마쳤습니다.
+            </p>
+            <div className="bg-neon-blue/10 dark:bg-neon-blue/20 rounded-xl p-4 sm:p-6 mb-4">
+                <p className="text-base text-slate-700 dark:text-slate-200">총 <span className="font-bold text-neon-blue">{totalQuestions}</span>문제 중</p>
+                <p className="text-4xl sm:text-5xl font-extrabold text-neon-blue my-2">{correctAnswers}</p>
+                <p className="text-base text-slate-700 dark:text-slate-200">문제를 맞혔습니다.</p>
+                <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-3 mt-4 overflow-hidden">
+                    <div className="bg-lime-green h-3 rounded-full transition-all duration-1000 ease-out" style={{ width: `${score}%` }}></div>
+                </div>
+                <p className="text-lg font-bold mt-1 text-slate-800 dark:text-slate-100">{score.toFixed(0)}점</p>
+            </div>
+            {saveError ? (
+                <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-left">
+                    <p className="text-xs text-red-600 dark:text-red-400 mb-2">{saveError}</p>
+                    <Button variant="secondary" onClick={saveResult} disabled={isSaving} className="!py-1.5 !px-3 text-xs">
+                        {isSaving ? <Spinner size="sm" /> : '다시 저장'}
+                    </Button>
+                </div>
+            ) : (
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+                    {isSaving ? '* 학습 기록을 저장하는 중입니다...' : '* 문제와 결과는 이 브라우저에 저장되어 대시보드에서 다시 확인할 수 있습니다.'}
+                </p>
+            )}
+            <Button onClick={onDone} className="w-full sm:w-auto !py-2.5">완료</Button>
+        </div>
+    );
+};
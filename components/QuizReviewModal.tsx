@@ -0,0 +1,189 @@
+import React from 'react';
+import type { QuizResult } from '../types.ts';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { CLOZE_BLANK, describeStructuredAnswer, isStructuredQuestion } from '../services/structuredQuestions.ts';
+import { describeMultiSelectAnswer, scoreMultiSelectAnswer } from '../services/multiSelect.ts';
+import { formatDuration } from '../services/examMode.ts';
+import { EXAM_TIMING_LABELS } from '../constants.ts';
+
+interface QuizReviewModalProps {
+    result: QuizResult;
+    onClose: () => void;
+    // Set when a teacher reviews a student's result rather than the learner their own.
+    learnerName?: string;
+}
+
+export const QuizReviewModal: React.FC<QuizReviewModalProps> = ({ result, onClose, learnerName }) => {
+    const markdownComponents = {
+        table: (props: any) => <div className="overflow-x-auto mb-2"><table className="table-auto w-full border-collapse border border-slate-300 dark:border-slate-600" {...props} /></div>,
+        thead: (props: any) => <thead className="bg-slate-100 dark:bg-slate-700" {...props} />,
+        th: (props: any) => <th className="border border-slate-300 dark:border-slate-600 px-2 py-1 text-left whitespace-nowrap text-sm" {...props} />,
+        td: (props: any) => <td className="border border-slate-300 dark:border-slate-600 px-2 py-1 text-sm min-w-[100px]" {...props} />,
+        p: (props: any) => <p className="mb-0 leading-snug" {...props} />, 
+    };
+
+    if (!result.questions) {
+        return null;
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60] p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl p-4 sm:p-6 w-full max-w-2xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4 border-b border-slate-100 dark:border-slate-700 pb-2">
+                    <div>
+                        <h2 className="text-lg font-bold text-slate-800 dark:text-white">학습 기록 상세{learnerName && ` · ${learnerName}`}</h2>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            {new Date(result.date).toLocaleString()}
+                            {result.quizPrompt && ` · 문제 템플릿 ${result.quizPrompt.templateId} v${result.quizPrompt.version}`}
+                            {result.exam && ` · 시험 모드 (${EXAM_TIMING_LABELS[result.exam.timing]} ${formatDuration(result.exam.limitSeconds)})`}
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-500">
+                        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+                    </button>
+                </div>
+                
+                <div className="overflow-y-auto flex-1 pr-1 space-y-6">
+                    {result.questions.map((q, idx) => {
+                        const userAnswer = result.userAnswers ? result.userAnswers[idx] : null;
+                        const isCorrect = result.correctness ? result.correctness[idx] : false;
+                        // Matching, ordering, cloze and multiple-select answers are stored encoded; list them part by part.
+                        const isMultiSelect = q.questionType === 'multiple-select' && !!q.options?.length;
+                        const answerText = userAnswer && isStructuredQuestion(q) ? describeStructuredAnswer(q, userAnswer)
+                            : isMultiSelect ? describeMultiSelectAnswer(q, userAnswer)
+                            : userAnswer;
+                        const partialCredit = isMultiSelect && q.scoring === 'partial' && !isCorrect ? scoreMultiSelectAnswer(q, userAnswer) : 0;
+
+                        return (
+                            <div key={idx} className="border border-slate-200 dark:border-slate-700 rounded-lg p-3 sm:p-4 bg-slate-50 dark:bg-slate-700/30">
+                                <div className="flex justify-between items-start gap-2 mb-2">
+                                    <span className="text-sm font-bold text-slate-700 dark:text-slate-300">
+                                        문제 {idx + 1}
+                                        {result.questionTimes?.[idx] !== undefined && (
+                                            <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">⏱ {formatDuration(result.questionTimes[idx])}</span>
+                                        )}
+                                        {!!result.hintsUsed?.[idx] && (
+                                            <span className="ml-2 text-xs font-normal text-amber-600 dark:text-amber-400">
+                                                💡 힌트 {result.hintsUsed[idx]}개{result.hintPenalty ? ` (-${Math.min(100, Math.round(result.hintPenalty * result.hintsUsed[idx] * 100))}%)` : ''}
+                                            </span>
+                                        )}
+                                    </span>
+                                    <span className={`text-xs px-2 py-0.5 rounded font-bold ${isCorrect ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'}`}>
+                                        {isCorrect ? '정답' : partialCredit > 0 ? `부분 정답 ${Math.round(partialCredit * 100)}점` : '오답'}
+                                    </span>
+                                </div>
+                                <div className="text-sm text-slate-800 dark:text-slate-100 mb-3 prose prose-sm dark:prose-invert max-w-none leading-snug">
+                                    <div className="overflow-x-auto">
+                                        <ReactMarkdown 
+                                            remarkPlugins={[remarkGfm, remarkMath]}
+                                            rehypePlugins={[[rehypeKatex, { output: 'html' }]]} 
+                                            components={markdownComponents}
+                                        >
+                                            {q.question}
+                                        </ReactMarkdown>
+                                    </div>
+                                    {q.questionTranslation && (
+                                        <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                            {q.questionTranslation}
+                                        </div>
+                                    )}
+                                    {q.clozeText && (
+                                        <div className="mt-2 p-2 rounded bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600">
+                                            <ReactMarkdown 
+                                                remarkPlugins={[remarkGfm, remarkMath]}
+                                                rehypePlugins={[[rehypeKatex, { output: 'html' }]]} 
+                                                components={markdownComponents}
+                                            >
+                                                {q.clozeText.split(CLOZE_BLANK).join('\\_\\_\\_\\_')}
+                                            </ReactMarkdown>
+                                        </div>
+                                    )}
+                                </div>
+                                
+                                {q.passage && (
+                                    <div className="mb-3 p-2 bg-white dark:bg-slate-800 rounded border border-slate-200 dark:border-slate-600 text-xs text-slate-600 dark:text-slate-300 max-h-32 overflow-y-auto">
+                                        <p className="font-bold mb-1">지문/스크립트:</p>
+                                        <ReactMarkdown 
+                                            remarkPlugins={[remarkGfm, remarkMath]}
+                                            rehypePlugins={[[rehypeKatex, { output: 'html' }]]} 
+                                            components={markdownComponents}
+                                        >
+                                            {q.passage}
+                                        </ReactMarkdown>
+                                        {q.passageTranslation && (
+                                             <div className="mt-2 pt-2 border-t border-slate-100 dark:border-slate-700">
+                                                <ReactMarkdown 
+                                                    remarkPlugins={[remarkGfm, remarkMath]}
+                                                    rehypePlugins={[[rehypeKatex, { output: 'html' }]]} 
+                                                    components={markdownComponents}
+                                                >
+                                                    {q.passageTranslation}
+                                                </ReactMarkdown>
+                                             </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                <div className="space-y-2 text-sm">
+                                    <div className="flex flex-col gap-1">
+                                        <span className="text-xs font-semibold text-slate-500 dark:text-slate-400">{learnerName ? '학생 답안' : '나의 답안'}</span>
+                                        <div className={`p-2 rounded border ${isCorrect ? 'bg-green-50 border-green-200 dark:bg-green-900/10 dark:border-green-800 text-green-800 dark:text-green-200' : 'bg-red-50 border-red-200 dark:bg-red-900/10 dark:border-red-800 text-red-800 dark:text-red-200'}`}>
+                                            <div className="overflow-x-auto">
+                                                <ReactMarkdown 
+                                                    remarkPlugins={[remarkGfm, remarkMath]} 
+                                                    rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
+                                                    components={markdownComponents}
+                                                >
+                                                    {answerText || '(미입력)'}
+                                                </ReactMarkdown>
+                                            </div>
+                                        </div>
+                                    </div>
+                                    
+                                    <div className="flex flex-col gap-1">
+                                        <span className="text-xs font-semibold text-slate-500 dark:text-slate-400">정답 및 해설</span>
+                                        <div className="p-2 rounded bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600">
+                                            <div className="text-neon-blue font-semibold mb-1">
+                                                <ReactMarkdown 
+                                                    remarkPlugins={[remarkGfm, remarkMath]} 
+                                                    rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
+                                                    components={markdownComponents}
+                                                >
+                                                    {q.answer}
+                                                </ReactMarkdown>
+                                                {q.answerTranslation && <span className="text-xs text-slate-500 dark:text-slate-400 font-normal ml-2">({q.answerTranslation})</span>}
+                                            </div>
+                                            <div className="text-slate-600 dark:text-slate-400 text-xs leading-snug">
+                                                <ReactMarkdown 
+                                                    remarkPlugins={[remarkGfm, remarkMath]} 
+                                                    rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
+                                                    components={markdownComponents}
+                                                >
+                                                    {q.explanation}
+                                                </ReactMarkdown>
+                                                 {q.explanationTranslation && (
+                                                    <div className="mt-1 pt-1 border-t border-slate-100 dark:border-slate-700">
+                                                        <ReactMarkdown 
+                                                            remarkPlugins={[remarkGfm, remarkMath]} 
+                                                            rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
+                                                            components={markdownComponents}
+                                                        >
+                                                            {q.explanationTranslation}
+                                                        </ReactMarkdown>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        </div>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Button } from './common/Button.tsx';
+import { createQuizLink, downloadQuizPackage, type QuizPackage } from '../services/quizShare.ts';
+
+interface QuizShareBarProps {
+    quiz: QuizPackage;
+    label?: string;
+    // Saves the quiz's questions to the question bank, resolving with how many were new.
+    onSaveToBank?: () => Promise<number>;
+}
+
+/** Lets a teacher hand these exact questions to the class as a link or a file. */
+export const QuizShareBar: React.FC<QuizShareBarProps> = ({ quiz, label = '이 문제를 그대로 공유하기', onSaveToBank }) => {
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    const handleCopyLink = async () => {
+        try {
+            const { url, imagesOmitted } = await createQuizLink(quiz);
+            await navigator.clipboard.writeText(url);
+            setMessage({
+                text: imagesOmitted
+                    ? "링크를 복사했습니다. 그림은 링크에 담기지 않으니 그림이 필요하면 파일로 저장해 공유하세요."
+                    : "링크를 복사했습니다. 학생에게 보내면 같은 문제로 바로 풀 수 있습니다.",
+                isError: false,
+            });
+        } catch (error) {
+            setMessage({ text: error instanceof Error ? error.message : "링크를 만들지 못했습니다.", isError: true });
+        }
+    };
+
+    const handleDownload = () => {
+        downloadQuizPackage(quiz);
+        setMessage({ text: "퀴즈 파일을 저장했습니다. 첫 화면의 '공유 퀴즈 열기'로 열 수 있습니다.", isError: false });
+    };
+
+    const handleSaveToBank = async () => {
+        if (!onSaveToBank) return;
+        try {
+            const added = await onSaveToBank();
+            setMessage({ text: added > 0 ? `문제 은행에 ${added}문항을 저장했습니다.` : "이미 문제 은행에 있는 문제입니다.", isError: false });
+        } catch (error) {
+            setMessage({ text: error instanceof Error ? error.message : "문제 은행에 저장하지 못했습니다.", isError: true });
+        }
+    };
+
+    return (
+        <div className="max-w-2xl mx-auto mb-3 px-1">
+            <div className="flex flex-wrap items-center justify-end gap-2">
+                <span className="text-xs text-slate-500 dark:text-slate-400 mr-auto">{label}</span>
+                {onSaveToBank && (
+                    <Button variant="secondary" onClick={handleSaveToBank} className="!py-1.5 !px-3 text-xs">문제 은행에 저장</Button>
+                )}
+                <Button variant="secondary" onClick={handleCopyLink} className="!py-1.5 !px-3 text-xs">링크 복사</Button>
+                <Button variant="secondary" onClick={handleDownload} className="!py-1.5 !px-3 text-xs">파일로 저장</Button>
+            </div>
+            {message && (
+                <p className={`mt-1 text-xs text-right ${message.isError ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>{message.text}</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,104 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { ReviewItem } from '../types.ts';
+import { Quiz } from './Quiz.tsx';
+import { Button } from './common/Button.tsx';
+import { Spinner } from './common/Spinner.tsx';
+import { REVIEW_SESSION_SIZE, getNextReviewDate, loadDueReviewItems, recordReviewOutcomes, withReviewImages } from '../services/reviewQueue.ts';
+
+interface ReviewSessionProps {
+    onSessionEnd: () => void;
+}
+
+interface ReviewSummary {
+    correct: number;
+    total: number;
+    nextDate: string | null;
+}
+
+/** Runs today's due review items through `Quiz` and reschedules them by the outcome. */
+export const ReviewSession: React.FC<ReviewSessionProps> = ({ onSessionEnd }) => {
+    const [items, setItems] = useState<ReviewItem[] | null>(null);
+    const [remaining, setRemaining] = useState(0);
+    const [nextDate, setNextDate] = useState<string | null>(null);
+    const [summary, setSummary] = useState<ReviewSummary | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCurrent = true;
+        (async () => {
+            try {
+                const due = await loadDueReviewItems();
+                const session = await withReviewImages(due.slice(0, REVIEW_SESSION_SIZE));
+                const upcoming = due.length === 0 ? await getNextReviewDate() : null;
+                if (!isCurrent) return;
+                setItems(session);
+                setRemaining(due.length - session.length);
+                setNextDate(upcoming);
+            } catch (err) {
+                if (isCurrent) setError(err instanceof Error ? err.message : "복습할 문제를 불러오지 못했습니다.");
+            }
+        })();
+        return () => {
+            isCurrent = false;
+        };
+    }, []);
+
+    const handleQuizSubmit = useCallback(async (
+        _score: number,
+        correctAnswers: number,
+        totalQuestions: number,
+        _userAnswers: (string | null)[],
+        correctness: (boolean | null)[]
+    ) => {
+        if (!items) return;
+        try {
+            await recordReviewOutcomes(items, correctness);
+            setSummary({ correct: correctAnswers, total: totalQuestions, nextDate: await getNextReviewDate() });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "복습 결과를 저장하지 못했습니다.");
+        }
+    }, [items]);
+
+    const renderMessage = (title: string, body: React.ReactNode) => (
+        <div className="max-w-2xl mx-auto text-center bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-xl shadow-lg mt-4 transition-colors duration-300">
+            <h2 className="text-lg sm:text-xl font-bold text-slate-800 dark:text-white mb-2">{title}</h2>
+            <div className="text-slate-600 dark:text-slate-300 mb-4 text-sm break-keep">{body}</div>
+            <Button onClick={onSessionEnd} className="w-full sm:w-auto !py-2.5">완료</Button>
+        </div>
+    );
+
+    if (error) {
+        return renderMessage("복습", <p className="text-red-500">{error}</p>);
+    }
+
+    if (summary) {
+        return renderMessage("복습 완료!", (
+            <>
+                <p>{summary.total}문제 중 <strong className="text-neon-blue">{summary.correct}</strong>문제를 맞혔습니다.</p>
+                <p className="mt-1 text-xs">맞힌 문제는 더 긴 간격을 두고, 틀린 문제는 내일 다시 나옵니다.</p>
+                {remaining > 0 && <p className="mt-1 text-xs">오늘 복습할 문제가 {remaining}개 더 있습니다.</p>}
+                {remaining === 0 && summary.nextDate && <p className="mt-1 text-xs">다음 복습일: {summary.nextDate}</p>}
+            </>
+        ));
+    }
+
+    if (!items) {
+        return <Spinner text="복습할 문제를 불러오는 중입니다..." />;
+    }
+
+    if (items.length === 0) {
+        return renderMessage("오늘은 복습할 문제가 없습니다", (
+            <p>{nextDate ? `다음 복습일은 ${nextDate}입니다.` : "퀴즈에서 틀린 문제가 생기면 여기에서 다시 풀 수 있습니다."}</p>
+        ));
+    }
+
+    return (
+        <>
+            <div className="max-w-2xl mx-auto mb-3 p-3 rounded-lg bg-neon-blue/10 dark:bg-neon-blue/20 text-sm text-slate-700 dark:text-slate-200">
+                <p className="text-xs font-bold text-neon-blue mb-0.5">오늘의 복습 · {items.length}문제</p>
+                <p className="leading-snug">전에 틀렸던 문제입니다. 맞히면 다음 복습까지의 간격이 길어집니다.</p>
+            </div>
+            <Quiz questions={items.map(item => item.question)} grade={items[0].grade} subject={items.map(item => item.subject)} onSubmit={handleQuizSubmit} />
+        </>
+    );
+};
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import type { AiFeature, AiProviderSettings, FeatureModelSettings, ModelAccessResult, ModelAccessStatus } from '../types.ts';
+import type { AppStatus } from '../App.tsx';
+import { AI_FEATURE_LABELS, AVAILABLE_PROVIDERS, MODEL_SUGGESTIONS } from '../constants.ts';
+import { Button } from './common/Button.tsx';
+import { Card } from './common/Card.tsx';
+import { Spinner } from './common/Spinner.tsx';
+import { getDefaultModel } from '../services/providers/index.ts';
+import { DEFAULT_FEATURE_SETTINGS } from '../services/geminiService.ts';
+
+interface SettingsProps {
+    providerSettings: AiProviderSettings;
+    // Saving re-validates the key, which also refreshes `modelAccess`.
+    onSave: (settings: AiProviderSettings) => void;
+    apiStatus: AppStatus;
+    apiError: string | null;
+    modelAccess: ModelAccessResult[] | null;
+    onGoHome: () => void;
+}
+
+type FeatureSettingsMap = Partial<Record<AiFeature, FeatureModelSettings>>;
+
+const FEATURES = Object.keys(AI_FEATURE_LABELS) as AiFeature[];
+// Image and speech models take no sampling options.
+const TEXT_FEATURES: AiFeature[] = ['explanation', 'quiz', 'grading', 'diagnosis'];
+
+const ACCESS_LABELS: Record<ModelAccessStatus, { text: string; className: string }> = {
+    available: { text: '사용 가능', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+    denied: { text: '권한 없음', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400' },
+    not_found: { text: '모델 없음', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' },
+    error: { text: '확인 실패', className: 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-300' },
+};
+
+const inputClassName = 'w-full bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none';
+
+const toOptionalNumber = (value: string): number | undefined => {
+    if (value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// Drops empty fields and features so the stored settings only hold real overrides.
+const compactFeatures = (features: FeatureSettingsMap): FeatureSettingsMap | undefined => {
+    const entries = Object.entries(features)
+        .map(([feature, settings]) => [
+            feature,
+            Object.fromEntries(Object.entries(settings || {}).filter(([, value]) => value !== undefined && value !== '')),
+        ] as const)
+        .filter(([, settings]) => Object.keys(settings).length > 0);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+export const Settings: React.FC<SettingsProps> = ({ providerSettings, onSave, apiStatus, apiError, modelAccess, onGoHome }) => {
+    const [features, setFeatures] = useState<FeatureSettingsMap>(providerSettings.features || {});
+    const { providerId } = providerSettings;
+    const providerName = AVAILABLE_PROVIDERS.find(p => p.id === providerId)?.name || providerId;
+    const isGemini = providerId === 'gemini';
+    const isDemo = providerId === 'demo';
+    const isValidating = apiStatus === 'validating_key';
+
+    useEffect(() => {
+        setFeatures(providerSettings.features || {});
+    }, [providerSettings]);
+
+    const updateFeature = (feature: AiFeature, patch: FeatureModelSettings) => {
+        setFeatures(prev => ({ ...prev, [feature]: { ...prev[feature], ...patch } }));
+    };
+
+    // With a single custom model set, text features default to it rather than the provider default.
+    const defaultModelFor = (feature: AiFeature) =>
+        providerSettings.model && TEXT_FEATURES.includes(feature) ? providerSettings.model : getDefaultModel(providerId, feature);
+
+    const handleSave = () => {
+        onSave({ ...providerSettings, features: compactFeatures(features) });
+    };
+
+    const handleReset = () => {
+        if (window.confirm("모든 기능의 모델 설정을 기본값으로 되돌리시겠습니까?")) {
+            setFeatures({});
+            onSave({ ...providerSettings, features: undefined });
+        }
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto px-2 pb-20">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-slate-900 dark:text-white">AI 모델 설정</h1>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">현재 AI 서비스: {providerName}</p>
+                </div>
+                <Button onClick={onGoHome} variant="secondary" className="!py-2 !px-4 text-sm">돌아가기</Button>
+            </div>
+
+            {isDemo && (
+                <p className="mb-4 p-3 rounded-lg bg-slate-100 dark:bg-slate-800 text-sm text-slate-600 dark:text-slate-300">
+                    데모 모드에서는 미리 준비된 내용을 보여주므로 모델 설정이 적용되지 않습니다.
+                </p>
+            )}
+
+            <Card className="mb-6">
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-4 leading-snug">
+                    비워 둔 칸은 기본값을 사용합니다. 온도(temperature)가 낮을수록 답변이 일정하고, 높을수록 다양해집니다.
+                    {isGemini && ' 생각 예산은 답하기 전에 추론에 쓰는 토큰 수로, 0은 생각 끄기, -1은 모델이 알아서 정하기입니다.'}
+                </p>
+                <div className="space-y-4">
+                    {FEATURES.map(feature => {
+                        const settings = features[feature] || {};
+                        const defaults = DEFAULT_FEATURE_SETTINGS[feature];
+                        const isText = TEXT_FEATURES.includes(feature);
+                        const listId = `model-options-${feature}`;
+                        return (
+                            <div key={feature} className="pb-4 border-b border-slate-100 dark:border-slate-700 last:border-0 last:pb-0">
+                                <label htmlFor={`model-${feature}`} className="block text-sm font-bold text-slate-700 dark:text-slate-200 mb-1">
+                                    {AI_FEATURE_LABELS[feature]}
+                                </label>
+                                <div className="grid grid-cols-1 sm:grid-cols-[1fr_8rem_8rem] gap-2">
+                                    <div>
+                                        <input
+                                            id={`model-${feature}`}
+                                            type="text"
+                                            list={listId}
+                                            value={settings.model || ''}
+                                            onChange={e => updateFeature(feature, { model: e.target.value.trim() || undefined })}
+                                            placeholder={`기본: ${defaultModelFor(feature)}`}
+                                            className={inputClassName}
+                                            disabled={isDemo}
+                                        />
+                                        <datalist id={listId}>
+                                            {(MODEL_SUGGESTIONS[providerId]?.[feature] || []).map(model => <option key={model} value={model} />)}
+                                        </datalist>
+                                    </div>
+                                    {isText && (
+                                        <>
+                                            {isGemini ? (
+                                                <input
+                                                    type="number"
+                                                    min="-1"
+                                                    step="128"
+                                                    value={settings.thinkingBudget ?? ''}
+                                                    onChange={e => updateFeature(feature, { thinkingBudget: toOptionalNumber(e.target.value) })}
+                                                    placeholder={`생각 예산${defaults?.thinkingBudget !== undefined ? ` (기본 ${defaults.thinkingBudget})` : ''}`}
+                                                    aria-label={`${AI_FEATURE_LABELS[feature]} 생각 예산`}
+                                                    className={inputClassName}
+                                                    disabled={isDemo}
+                                                />
+                                            ) : <div className="hidden sm:block" />}
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                max="2"
+                                                step="0.1"
+                                                value={settings.temperature ?? ''}
+                                                onChange={e => updateFeature(feature, { temperature: toOptionalNumber(e.target.value) })}
+                                                placeholder="온도"
+                                                aria-label={`${AI_FEATURE_LABELS[feature]} 온도`}
+                                                className={inputClassName}
+                                                disabled={isDemo}
+                                            />
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+                <div className="flex justify-end gap-2 mt-5">
+                    <Button variant="secondary" onClick={handleReset} disabled={isDemo || isValidating} className="!py-2 !px-4 text-sm">
+                        기본값으로
+                    </Button>
+                    <Button onClick={handleSave} disabled={isDemo || isValidating} className="!py-2 !px-4 text-sm">
+                        {isValidating ? <Spinner size="sm" /> : '저장하고 확인하기'}
+                    </Button>
+                </div>
+                {apiError && <p className="text-red-500 text-xs mt-2 text-right">{apiError}</p>}
+            </Card>
+
+            <Card>
+                <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-1">모델 사용 가능 여부</h3>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">저장할 때마다 현재 API 키로 각 모델에 접근할 수 있는지 확인합니다.</p>
+                {isValidating ? (
+                    <Spinner text="모델을 확인하는 중입니다..." />
+                ) : modelAccess && modelAccess.length > 0 ? (
+                    <ul className="space-y-2">
+                        {modelAccess.map(result => (
+                            <li key={result.model} className="flex items-start justify-between gap-3 text-sm">
+                                <div className="min-w-0">
+                                    <p className="font-mono text-slate-800 dark:text-slate-100 break-all">{result.model}</p>
+                                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                                        {result.features.map(feature => AI_FEATURE_LABELS[feature]).join(', ')}
+                                    </p>
+                                    {result.status !== 'available' && result.message && (
+                                        <p className="text-xs text-slate-400 dark:text-slate-500 break-all">{result.message}</p>
+                                    )}
+                                </div>
+                                <span className={`shrink-0 text-xs px-2 py-0.5 rounded font-bold ${ACCESS_LABELS[result.status].className}`}>
+                                    {ACCESS_LABELS[result.status].text}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-slate-500 dark:text-slate-400">API 키를 확인하면 결과가 여기에 표시됩니다.</p>
+                )}
+            </Card>
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+import React, { useCallback, useState } from 'react';
+import type { QuizResult } from '../types.ts';
+import { Quiz } from './Quiz.tsx';
+import { QuizCompletion } from './QuizCompletion.tsx';
+import type { QuizPackage } from '../services/quizShare.ts';
+import { createAssignmentResults, createQuizResult } from '../services/studyHistory.ts';
+import { toDateKey } from '../services/usageTracker.ts';
+import { DEFAULT_HINT_PENALTY } from '../constants.ts';
+
+interface SharedQuizSessionProps {
+    quiz: QuizPackage;
+    onSessionEnd: () => void;
+}
+
+/** Runs a quiz someone shared, exactly as they generated it, and records it against its standards. */
+export const SharedQuizSession: React.FC<SharedQuizSessionProps> = ({ quiz, onSessionEnd }) => {
+    const { context, questions, quizPrompt, assignment } = quiz;
+    const hintPenalty = quiz.hintPenalty ?? DEFAULT_HINT_PENALTY;
+    const [results, setResults] = useState<QuizResult[] | null>(null);
+    // An assignment's standards can come from different subjects.
+    const questionSubjects = assignment
+        ? assignment.questionStandardIds.map(standardId =>
+            assignment.contexts.find(c => c.standard.id === standardId)?.subjectName ?? context.subjectName)
+        : context.subjectName;
+
+    const handleQuizSubmit = useCallback((
+        score: number,
+        correctAnswers: number,
+        totalQuestions: number,
+        userAnswers: (string | null)[],
+        correctness: (boolean | null)[],
+        points: number[],
+        _questionTimes: number[] | undefined,
+        hintsUsed: number[]
+    ) => {
+        const outcome = { score, correctAnswers, totalQuestions, userAnswers, correctness, hintsUsed, hintPenalty };
+        setResults(assignment
+            ? createAssignmentResults(assignment.contexts, assignment.questionStandardIds, questions, quizPrompt, outcome, points, assignment.quizPrompts)
+            : [createQuizResult(context, questions, quizPrompt, outcome)]);
+    }, [assignment, context, questions, quizPrompt, hintPenalty]);
+
+    if (results) {
+        return <QuizCompletion results={results} onDone={onSessionEnd} />;
+    }
+
+    return (
+        <>
+            <div className="max-w-2xl mx-auto mb-3 p-3 rounded-lg bg-neon-blue/10 dark:bg-neon-blue/20 text-sm text-slate-700 dark:text-slate-200">
+                {assignment ? (
+                    <>
+                        <p className="text-xs font-bold text-neon-blue mb-0.5">
+                            과제 · {context.subjectName} · {context.grade}
+                            {assignment.dueDate && ` · ${assignment.dueDate}까지`}
+                        </p>
+                        <p className="font-semibold leading-snug">{assignment.title}</p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+                            성취기준 {assignment.contexts.map(item => item.standard.id).join(', ')}
+                        </p>
+                        {assignment.dueDate && assignment.dueDate < toDateKey() && (
+                            <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">마감일이 지났지만 풀고 기록할 수 있습니다.</p>
+                        )}
+                    </>
+                ) : (
+                    <>
+                        <p className="text-xs font-bold text-neon-blue mb-0.5">공유받은 퀴즈 · {context.subjectName} · {context.grade}</p>
+                        <p className="leading-snug"><span className="font-semibold">{context.standard.id}</span> {context.standard.description}</p>
+                    </>
+                )}
+            </div>
+            {/* Assignment questions span standards, so AI usage is not attributed to one of them. */}
+            <Quiz questions={questions} grade={context.grade} standardId={assignment ? undefined : context.standard.id} onSubmit={handleQuizSubmit} hintPenalty={hintPenalty} subject={questionSubjects} />
+        </>
+    );
+};
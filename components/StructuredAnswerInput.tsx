@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import type { QuizQuestion } from '../types.ts';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import {
+    CLOZE_BLANK,
+    checkStructuredParts,
+    encodeStructuredAnswer,
+    getStructuredValues,
+    shuffleForDisplay,
+} from '../services/structuredQuestions.ts';
+
+interface StructuredAnswerInputProps {
+    question: QuizQuestion;
+    // The encoded answer so far, or null before the learner has touched the question.
+    value: string | null;
+    onChange: (value: string) => void;
+    // Once checked the answer is locked and each part is marked right or wrong.
+    isChecked: boolean;
+}
+
+const InlineMarkdown: React.FC<{ children: string }> = ({ children }) => (
+    <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
+        components={{ p: (props: any) => <span {...props} /> }}
+    >
+        {children}
+    </ReactMarkdown>
+);
+
+const partClassName = (isChecked: boolean, isRight: boolean) => !isChecked
+    ? 'border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700'
+    : isRight
+        ? 'border-lime-green bg-lime-green/20'
+        : 'border-red-500 bg-red-100 dark:bg-red-900/30';
+
+/** Tap or drag a right-hand item onto each left-hand item. */
+const MatchingInput: React.FC<StructuredAnswerInputProps> = ({ question, value, onChange, isChecked }) => {
+    const pairs = question.pairs || [];
+    const values = getStructuredValues(question, value);
+    const parts = checkStructuredParts(question, value);
+    const choices = useMemo(() => shuffleForDisplay(pairs.map(pair => pair.right), question.question), [pairs, question.question]);
+    const [selectedRow, setSelectedRow] = useState<number | null>(null);
+
+    const assign = (row: number, choice: string) => {
+        // A choice sits in one row at a time; placing it elsewhere moves it.
+        const next = values.map(current => current === choice ? '' : current);
+        next[row] = choice;
+        onChange(encodeStructuredAnswer(next));
+        setSelectedRow(null);
+    };
+
+    const handleChoice = (choice: string) => {
+        if (isChecked) return;
+        const row = selectedRow ?? values.findIndex(current => !current);
+        if (row !== -1) assign(row, choice);
+    };
+
+    const handleClear = (row: number) => {
+        const next = [...values];
+        next[row] = '';
+        onChange(encodeStructuredAnswer(next));
+    };
+
+    return (
+        <div className="space-y-3">
+            <p className="text-xs text-slate-500 dark:text-slate-400">왼쪽 칸을 누른 뒤 아래 낱말을 누르거나, 낱말을 칸으로 끌어다 놓으세요.</p>
+            <div className="space-y-2">
+                {pairs.map((pair, row) => (
+                    <div key={row} className="grid grid-cols-2 gap-2 items-stretch">
+                        <div className="p-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-700/50 text-sm text-slate-800 dark:text-slate-100">
+                            <InlineMarkdown>{pair.left}</InlineMarkdown>
+                        </div>
+                        <button
+                            onClick={() => !isChecked && (values[row] && selectedRow === row ? handleClear(row) : setSelectedRow(row))}
+                            onDragOver={e => !isChecked && e.preventDefault()}
+                            onDrop={e => {
+                                e.preventDefault();
+                                if (!isChecked) assign(row, e.dataTransfer.getData('text/plain'));
+                            }}
+                            disabled={isChecked}
+                            className={`p-2 rounded-lg border-2 border-dashed text-sm text-left transition-colors ${partClassName(isChecked, parts[row])} ${selectedRow === row ? 'ring-2 ring-neon-blue' : ''}`}
+                        >
+                            {values[row] ? <InlineMarkdown>{values[row]}</InlineMarkdown> : <span className="text-slate-400">여기에 놓기</span>}
+                            {isChecked && !parts[row] && (
+                                <span className="block text-xs text-lime-700 dark:text-lime-300 mt-1">정답: <InlineMarkdown>{pair.right}</InlineMarkdown></span>
+                            )}
+                        </button>
+                    </div>
+                ))}
+            </div>
+            {!isChecked && (
+                <div className="flex flex-wrap gap-2 pt-2 border-t border-slate-100 dark:border-slate-700">
+                    {choices.map(choice => (
+                        <button
+                            key={choice}
+                            draggable
+                            onDragStart={e => e.dataTransfer.setData('text/plain', choice)}
+                            onClick={() => handleChoice(choice)}
+                            className={`px-3 py-1.5 rounded-full border text-sm transition-colors ${values.includes(choice) ? 'border-slate-200 dark:border-slate-700 text-slate-400 dark:text-slate-500' : 'border-neon-blue bg-neon-blue/10 text-slate-800 dark:text-slate-100 hover:bg-neon-blue/20'}`}
+                        >
+                            <InlineMarkdown>{choice}</InlineMarkdown>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+/** Move items up and down, or drag them, into order. */
+const OrderingInput: React.FC<StructuredAnswerInputProps> = ({ question, value, onChange, isChecked }) => {
+    const values = getStructuredValues(question, value);
+    const parts = checkStructuredParts(question, value);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+    const move = (from: number, to: number) => {
+        if (isChecked || to < 0 || to >= values.length || from === to) return;
+        const next = [...values];
+        const [item] = next.splice(from, 1);
+        next.splice(to, 0, item);
+        onChange(encodeStructuredAnswer(next));
+    };
+
+    return (
+        <div className="space-y-2">
+            <p className="text-xs text-slate-500 dark:text-slate-400">화살표를 누르거나 끌어서 알맞은 순서로 늘어놓으세요.</p>
+            <ol className="space-y-2">
+                {values.map((item, index) => (
+                    <li
+                        key={item}
+                        draggable={!isChecked}
+                        onDragStart={() => setDragIndex(index)}
+                        onDragOver={e => !isChecked && e.preventDefault()}
+                        onDrop={e => {
+                            e.preventDefault();
+                            if (dragIndex !== null) move(dragIndex, index);
+                            setDragIndex(null);
+                        }}
+                        className={`flex items-center gap-2 p-2 rounded-lg border text-sm ${partClassName(isChecked, parts[index])} ${isChecked ? '' : 'cursor-grab'}`}
+                    >
+                        <span className="w-6 h-6 shrink-0 rounded-full bg-slate-100 dark:bg-slate-600 text-xs font-bold flex items-center justify-center text-slate-600 dark:text-slate-200">{index + 1}</span>
+                        <span className="flex-1 min-w-0 text-slate-800 dark:text-slate-100"><InlineMarkdown>{item}</InlineMarkdown></span>
+                        {isChecked ? (
+                            !parts[index] && <span className="text-xs text-slate-500 dark:text-slate-400 shrink-0">정답: {(question.sequence || []).indexOf(item) + 1}번째</span>
+                        ) : (
+                            <span className="flex gap-1 shrink-0">
+                                <button onClick={() => move(index, index - 1)} disabled={index === 0} className="px-2 py-1 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-600 disabled:opacity-30" aria-label="위로">▲</button>
+                                <button onClick={() => move(index, index + 1)} disabled={index === values.length - 1} className="px-2 py-1 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-600 disabled:opacity-30" aria-label="아래로">▼</button>
+                            </span>
+                        )}
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+/** The cloze text with an input in place of each blank. */
+const ClozeInput: React.FC<StructuredAnswerInputProps> = ({ question, value, onChange, isChecked }) => {
+    const values = getStructuredValues(question, value);
+    const parts = checkStructuredParts(question, value);
+    const segments = (question.clozeText || '').split(CLOZE_BLANK);
+
+    const handleChange = (index: number, text: string) => {
+        const next = [...values];
+        next[index] = text;
+        onChange(encodeStructuredAnswer(next));
+    };
+
+    return (
+        <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/30 border border-slate-200 dark:border-slate-600 text-base leading-loose text-slate-800 dark:text-slate-100 break-keep">
+            {segments.map((segment, index) => (
+                <React.Fragment key={index}>
+                    <InlineMarkdown>{segment}</InlineMarkdown>
+                    {index < segments.length - 1 && (
+                        <span className="inline-flex flex-col align-middle mx-1">
+                            <input
+                                type="text"
+                                value={values[index] || ''}
+                                onChange={e => handleChange(index, e.target.value)}
+                                disabled={isChecked}
+                                aria-label={`빈칸 ${index + 1}`}
+                                className={`w-28 px-2 py-0.5 rounded border-2 text-sm text-center outline-none focus:ring-2 focus:ring-neon-blue ${partClassName(isChecked, parts[index])}`}
+                            />
+                            {isChecked && !parts[index] && (
+                                <span className="text-xs text-lime-700 dark:text-lime-300 text-center leading-tight">{question.blanks?.[index]}</span>
+                            )}
+                        </span>
+                    )}
+                </React.Fragment>
+            ))}
+        </div>
+    );
+};
+
+/** Answer input for matching, ordering and cloze questions. */
+export const StructuredAnswerInput: React.FC<StructuredAnswerInputProps> = props => {
+    switch (props.question.questionType) {
+        case 'matching':
+            return <MatchingInput {...props} />;
+        case 'ordering':
+            return <OrderingInput {...props} />;
+        case 'cloze':
+            return <ClozeInput {...props} />;
+        default:
+            return null;
+    }
+};
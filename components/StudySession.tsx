@@ -1,17 +1,27 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { getExplanationStream, generateQuestions, generateSpeech, QuestionRequest, getFollowUpAnswerStream, generateIllustration, generateConceptSummary } from '../services/geminiService.ts';
-import type { AchievementStandard, QuizQuestion, QuizResult, TTSVoice, QuestionType, ConversationMessage, DifficultyLevel } from '../types.ts';
-import useLocalStorage from '../hooks/useLocalStorage.ts';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { getExplanationStream, generateQuestions, generateSpeech, QuestionRequest, getFollowUpAnswerStream, generateIllustration, generateConceptSummary, getContentCacheSlot } from '../services/geminiService.ts';
+import type { LearningContext, PromptRevision, QuizQuestion, QuizResult, TTSVoice, QuestionType, ConversationMessage, DifficultyLevel, BankQuestion, MultiSelectScoring, ExamSettings, ExamTiming } from '../types.ts';
 import { Button } from './common/Button.tsx';
 import { Spinner } from './common/Spinner.tsx';
 import { Quiz } from './Quiz.tsx';
-import { AVAILABLE_VOICES } from '../constants.ts';
+import { QuizCompletion } from './QuizCompletion.tsx';
+import { QuizShareBar } from './QuizShareBar.tsx';
+import { createQuizPackage } from '../services/quizShare.ts';
+import { withMultiSelectScoring } from '../services/multiSelect.ts';
+import { addQuestionsToBank, drawFromBank, loadBankQuestions } from '../services/questionBank.ts';
+import { ADAPTIVE_BATCH_SIZE, nextDifficulty, planAdaptiveBatches } from '../services/adaptiveDifficulty.ts';
+import { AVAILABLE_VOICES, DEFAULT_EXAM_LIMITS, DEFAULT_HINT_PENALTY, DIFFICULTY_LABELS, HINT_PENALTY_OPTIONS, EXAM_TIMING_LABELS, MULTI_SELECT_SCORING_LABELS, QUESTION_TYPE_LABELS } from '../constants.ts';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import { MathInput } from './common/MathInput.tsx';
+import { ErrorNotice } from './common/ErrorNotice.tsx';
+import { isCancelledError, toErrorInfo, type AiErrorInfo } from '../services/aiErrors.ts';
+import { getCachedContent, setCachedContent } from '../services/contentCache.ts';
+import { createQuizResult } from '../services/studyHistory.ts';
+import { loadTranscript, saveTranscript } from '../services/qnaTranscripts.ts';
 
 // Helper functions for audio decoding
 function decode(base64: string): Uint8Array {
@@ -60,24 +70,34 @@ const SparklesIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
 );
 
 interface StudySessionProps {
-    subjectName: string;
-    standard: AchievementStandard;
+    context: LearningContext;
     onSessionEnd: () => void;
     onGoHome: () => void;
 }
 
 const defaultQuestionCounts: { [key in QuestionType]: number } = {
     'multiple-choice': 3,
+    'multiple-select': 0,
     'short-answer': 1,
     'ox': 1,
     'creativity': 0, 
+    'matching': 0,
+    'ordering': 0,
+    'cloze': 0,
 };
 
-export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standard, onSessionEnd, onGoHome }) => {
+const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
+
+export const StudySession: React.FC<StudySessionProps> = ({ context, onSessionEnd, onGoHome }) => {
+    const { subjectName, standard } = context;
     const [explanation, setExplanation] = useState<string>('');
     const [isLoadingExplanation, setIsLoadingExplanation] = useState<boolean>(true);
     const [isStreamingExplanation, setIsStreamingExplanation] = useState<boolean>(false);
     const explanationRef = useRef<string>('');
+    const [isExplanationCached, setIsExplanationCached] = useState<boolean>(false);
+    // Incremented by the regenerate button to re-run the content effect without the cache.
+    const [regenerateCount, setRegenerateCount] = useState<number>(0);
+    const bypassCacheRef = useRef<boolean>(false);
     
     const [illustration, setIllustration] = useState<string | null>(null);
     const [isLoadingIllustration, setIsLoadingIllustration] = useState<boolean>(false);
@@ -88,17 +108,45 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
     
     const [questionCounts, setQuestionCounts] = useState<{ [key in QuestionType]: number }>(defaultQuestionCounts);
     const [difficulty, setDifficulty] = useState<DifficultyLevel>('medium');
+    // For multiple-select questions that do not set their own scoring.
+    const [multiSelectScoring, setMultiSelectScoring] = useState<MultiSelectScoring>('all-or-nothing');
+    // Share of a question's credit each revealed hint costs.
+    const [hintPenalty, setHintPenalty] = useState<number>(DEFAULT_HINT_PENALTY);
 
     const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+    const [quizPrompt, setQuizPrompt] = useState<PromptRevision | null>(null);
     const [isGeneratingQuestions, setIsGeneratingQuestions] = useState<boolean>(false);
+    // Question bank items for this standard; quizzes use them before asking the AI.
+    const [bankItems, setBankItems] = useState<BankQuestion[]>([]);
+    const [useBank, setUseBank] = useState<boolean>(true);
+    // The questions in the current quiz that the AI wrote, and can be saved to the bank.
+    const [generatedQuestions, setGeneratedQuestions] = useState<QuizQuestion[]>([]);
+    // The level each question was made at; in adaptive mode it follows the learner's answers,
+    // and the rest of the quiz is generated batch by batch while it is being taken.
+    const [isAdaptive, setIsAdaptive] = useState<boolean>(false);
+    const [questionDifficulties, setQuestionDifficulties] = useState<DifficultyLevel[]>([]);
+    const [pendingBatches, setPendingBatches] = useState<QuestionRequest[][]>([]);
+    const [quizProgress, setQuizProgress] = useState<{ index: number; correctness: (boolean | null)[] }>({ index: 0, correctness: [] });
+    const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
+    const [moreQuestionsError, setMoreQuestionsError] = useState<AiErrorInfo | null>(null);
+    // Exam mode holds back feedback until the quiz is handed in, under a time limit. It
+    // cannot be combined with adaptive mode, which needs each answer checked as it goes.
+    const [isExam, setIsExam] = useState<boolean>(false);
+    const [examTiming, setExamTiming] = useState<ExamTiming>('total');
+    const [examLimits, setExamLimits] = useState<Record<ExamTiming, number>>(DEFAULT_EXAM_LIMITS);
+    const examSettings = useMemo<ExamSettings | undefined>(
+        () => isExam ? { timing: examTiming, limitSeconds: examLimits[examTiming] } : undefined,
+        [isExam, examTiming, examLimits]
+    );
     
-    const [explanationError, setExplanationError] = useState<string | null>(null);
-    const [questionsError, setQuestionsError] = useState<string | null>(null);
-    const [ttsError, setTtsError] = useState<string | null>(null);
+    const [explanationError, setExplanationError] = useState<AiErrorInfo | null>(null);
+    const [questionsError, setQuestionsError] = useState<AiErrorInfo | null>(null);
+    const [ttsError, setTtsError] = useState<AiErrorInfo | null>(null);
     
-    const [studyHistory, setStudyHistory] = useLocalStorage<QuizResult[]>('studyHistory', []);
     const [quizFinished, setQuizFinished] = useState(false);
-    const [lastResult, setLastResult] = useState<QuizResult | null>(null);
+    // Sharing is offered before the first answer and again with the results, not mid-attempt.
+    const [isQuizStarted, setIsQuizStarted] = useState(false);
+    const [lastResults, setLastResults] = useState<QuizResult[] | null>(null);
 
     // TTS State
     const [selectedVoice, setSelectedVoice] = useState<TTSVoice>('Kore');
@@ -108,11 +156,16 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
     const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
 
     // Q&A State
-    const [conversation, setConversation] = useState<ConversationMessage[]>([]);
+    const [conversation, setConversation] = useState<ConversationMessage[]>(() => loadTranscript(standard.id));
     const [userQuestion, setUserQuestion] = useState<string>('');
     const [isAnswering, setIsAnswering] = useState<boolean>(false);
-    const [qnaError, setQnaError] = useState<string | null>(null);
+    const [qnaError, setQnaError] = useState<AiErrorInfo | null>(null);
     const conversationEndRef = useRef<HTMLDivElement>(null);
+
+    // In-flight requests started by user actions, so they can be stopped or dropped on unmount.
+    const qnaControllerRef = useRef<AbortController | null>(null);
+    const quizControllerRef = useRef<AbortController | null>(null);
+    const ttsControllerRef = useRef<AbortController | null>(null);
     
     const stopAllAudio = useCallback(() => {
         if (audioSourceRef.current) {
@@ -135,28 +188,48 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
 
     useEffect(() => {
         let isCancelled = false;
+        // Aborting stops the requests themselves, not just the state updates below.
+        const controller = new AbortController();
+        const bypassCache = bypassCacheRef.current;
+        bypassCacheRef.current = false;
 
         const fetchExplanation = async () => {
             setIsLoadingExplanation(true);
             setIsStreamingExplanation(true);
+            setIsExplanationCached(false);
             setExplanation('');
             explanationRef.current = '';
             setExplanationError(null);
             try {
-                const stream = await getExplanationStream(subjectName, standard.description);
+                const cacheSlot = getContentCacheSlot('explanation', subjectName, standard.id);
+                const cached = bypassCache ? null : await getCachedContent(cacheSlot.key);
+                if (isCancelled) return;
+                if (cached) {
+                    explanationRef.current = cached;
+                    setExplanation(cached);
+                    setIsExplanationCached(true);
+                    setIsLoadingExplanation(false);
+                    return;
+                }
+
+                const stream = await getExplanationStream(context, controller.signal);
                 if (isCancelled) return;
                 
                 setIsLoadingExplanation(false); 
                 let currentText = '';
                 for await (const chunk of stream) {
                     if (isCancelled) break;
-                    currentText += chunk.text;
+                    currentText += chunk;
                     explanationRef.current = currentText;
                     setExplanation(currentText);
                 }
+                // Only complete explanations are cached; a cancelled stream is partial.
+                if (!isCancelled && currentText) {
+                    await setCachedContent(cacheSlot, currentText);
+                }
             } catch (err) {
                 if (!isCancelled) {
-                    setExplanationError(err instanceof Error ? err.message : '설명을 불러오는 데 실패했습니다.');
+                    setExplanationError(toErrorInfo(err, '설명을 불러오는 데 실패했습니다.'));
                     setIsLoadingExplanation(false);
                 }
             } finally {
@@ -170,11 +243,20 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
             setIsLoadingIllustration(true);
             setIllustration(null);
             try {
+                const cacheSlot = getContentCacheSlot('illustration', subjectName, standard.id);
+                const cached = bypassCache ? null : await getCachedContent(cacheSlot.key);
+                if (cached) {
+                    if (!isCancelled) setIllustration(cached);
+                    return;
+                }
                 // Use standard description directly for parallel generation
-                const imageBase64 = await generateIllustration(standard.description);
+                const imageBase64 = await generateIllustration(standard.description, context.grade, controller.signal, standard.id);
                 if (!isCancelled) {
                     setIllustration(imageBase64);
                 }
+                if (imageBase64) {
+                    await setCachedContent(cacheSlot, imageBase64);
+                }
             } catch (error) {
                 console.error("Illustration generation error:", error);
             } finally {
@@ -188,10 +270,20 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
             setIsLoadingSummary(true);
             setSummary(null);
             try {
-                const summaryText = await generateConceptSummary(subjectName, standard.description);
+                const cacheSlot = getContentCacheSlot('summary', subjectName, standard.id);
+                const cached = bypassCache ? null : await getCachedContent(cacheSlot.key);
+                if (cached) {
+                    if (!isCancelled) setSummary(cached);
+                    return;
+                }
+                const summaryText = await generateConceptSummary(context, controller.signal);
                 if (!isCancelled) {
                     setSummary(summaryText);
                 }
+                // An empty summary means generation failed; don't pin that in the cache.
+                if (summaryText) {
+                    await setCachedContent(cacheSlot, summaryText);
+                }
             } catch (error) {
                 console.error("Summary generation error:", error);
             } finally {
@@ -208,9 +300,16 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
 
         return () => {
             isCancelled = true;
+            controller.abort();
             stopAllAudio();
         };
-    }, [subjectName, standard.description, stopAllAudio]);
+    }, [context, subjectName, standard.id, standard.description, stopAllAudio, regenerateCount]);
+
+    const handleRegenerate = () => {
+        stopAllAudio();
+        bypassCacheRef.current = true;
+        setRegenerateCount(count => count + 1);
+    };
     
     const scrollToBottom = () => {
         conversationEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -220,21 +319,33 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
         scrollToBottom();
     }, [conversation]);
 
+    useEffect(() => {
+        loadBankQuestions(standard.id)
+            .then(setBankItems)
+            .catch(error => console.error("Failed to load the question bank:", error));
+    }, [standard.id]);
+
+    // Save once an answer has finished streaming rather than on every chunk.
+    useEffect(() => {
+        if (!isAnswering) saveTranscript(standard.id, conversation);
+    }, [standard.id, conversation, isAnswering]);
+
     const handleAskQuestion = async (e?: React.FormEvent) => {
         if (e) e.preventDefault();
         if (!userQuestion.trim() || isAnswering) return;
 
         const newQuestion: ConversationMessage = { role: 'user', text: userQuestion };
+        const controller = new AbortController();
+        qnaControllerRef.current = controller;
         setIsAnswering(true);
         setQnaError(null);
         setConversation(prev => [...prev, newQuestion, { role: 'model', text: '' }]);
         setUserQuestion('');
 
         try {
-            const stream = await getFollowUpAnswerStream(subjectName, standard.description, explanationRef.current, conversation, newQuestion.text);
+            const stream = await getFollowUpAnswerStream(context, explanationRef.current, conversation, newQuestion.text, controller.signal);
             
-            for await (const chunk of stream) {
-                const chunkText = chunk.text;
+            for await (const chunkText of stream) {
                 setConversation(prev => {
                     const newConversation = [...prev];
                     const lastMessage = newConversation[newConversation.length - 1];
@@ -246,26 +357,39 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
             }
 
         } catch (err) {
-            setQnaError(err instanceof Error ? err.message : '질문에 답변하는 중 오류가 발생했습니다.');
-             setConversation(prev => prev.slice(0, -2)); // Remove user question and empty model message on error
+            if (isCancelledError(err)) {
+                // Keep whatever was streamed before the stop; drop the exchange only if nothing arrived.
+                setConversation(prev => prev[prev.length - 1]?.text ? prev : prev.slice(0, -2));
+            } else {
+                setQnaError(toErrorInfo(err, '질문에 답변하는 중 오류가 발생했습니다.'));
+                setConversation(prev => prev.slice(0, -2)); // Remove user question and empty model message on error
+            }
         } finally {
+            qnaControllerRef.current = null;
             setIsAnswering(false);
         }
     };
 
+    const handleStopAnswering = () => {
+        qnaControllerRef.current?.abort();
+    };
+
     const handleToggleSpeak = useCallback(async () => {
         if (isSpeaking || isLoadingTTS) {
+            ttsControllerRef.current?.abort();
             stopAllAudio();
             return;
         }
 
         if (!explanation) return;
         
+        const controller = new AbortController();
+        ttsControllerRef.current = controller;
         setIsLoadingTTS(true);
         setTtsError(null);
 
         try {
-            const base64Audio = await generateSpeech(explanation, selectedVoice);
+            const base64Audio = await generateSpeech(explanation, selectedVoice, controller.signal, standard.id);
 
             const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
             audioContextRef.current = audioCtx;
@@ -290,13 +414,33 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
             setIsSpeaking(true);
 
         } catch (err) {
-            setTtsError(err instanceof Error ? err.message : '음성 재생 중 오류가 발생했습니다.');
+            if (!isCancelledError(err)) {
+                setTtsError(toErrorInfo(err, '음성 재생 중 오류가 발생했습니다.'));
+            }
             stopAllAudio();
         }
     }, [explanation, selectedVoice, isSpeaking, isLoadingTTS, stopAllAudio]);
 
 
+    // Bank questions first (skipping any already in the quiz), the AI for the rest.
+    const generateBatch = async (requests: QuestionRequest[], level: DifficultyLevel, signal: AbortSignal, used: QuizQuestion[] = []) => {
+        const { questions: banked, missing } = useBank
+            ? drawFromBank(bankItems.filter(item => !used.includes(item.question)), requests, level)
+            : { questions: [], missing: requests };
+        const generated = missing.length > 0 ? await generateQuestions(context, missing, level, signal) : null;
+        // Same type order as the request, whichever source each question came from.
+        const typeOrder = requests.map(req => req.type);
+        const combined = [...banked, ...(generated?.questions || [])]
+            .sort((a, b) => typeOrder.indexOf(a.questionType) - typeOrder.indexOf(b.questionType));
+        if (combined.length === 0) {
+            throw new Error("문제를 생성하지 못했습니다. 잠시 후 다시 시도해주세요.");
+        }
+        return { combined, generated };
+    };
+
     const handleGenerateQuiz = async () => {
+        const controller = new AbortController();
+        quizControllerRef.current = controller;
         setIsGeneratingQuestions(true);
         setQuestionsError(null);
         try {
@@ -305,53 +449,119 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
                 .filter(({ count }) => count > 0);
 
             if (requests.length === 0) {
-                setQuestionsError("하나 이상의 문제를 요청해야 합니다.");
+                setQuestionsError({ category: 'unknown', message: "하나 이상의 문제를 요청해야 합니다." });
                 setIsGeneratingQuestions(false);
                 return;
             }
 
-            const generated = await generateQuestions(subjectName, standard.description, requests, difficulty);
-            if (!generated || generated.length === 0) {
-                throw new Error("문제를 생성하지 못했습니다. 잠시 후 다시 시도해주세요.");
-            }
-            setQuestions(generated);
+            const batches = isAdaptive ? planAdaptiveBatches(requests) : [requests];
+            const { combined, generated } = await generateBatch(batches[0], difficulty, controller.signal);
+            setQuestions(combined);
+            setQuestionDifficulties(combined.map(() => difficulty));
+            setGeneratedQuestions(generated?.questions || []);
+            setQuizPrompt(generated?.prompt || null);
+            setPendingBatches(batches.slice(1));
+            setQuizProgress({ index: 0, correctness: [] });
+            setIsQuizStarted(false);
+            setMoreQuestionsError(null);
         } catch (err) {
-            setQuestionsError(err instanceof Error ? err.message : '문제를 생성하는 데 실패했습니다.');
+            if (!isCancelledError(err)) {
+                setQuestionsError(toErrorInfo(err, '문제를 생성하는 데 실패했습니다.'));
+            }
         } finally {
+            quizControllerRef.current = null;
             setIsGeneratingQuestions(false);
         }
     };
 
+    const handleLoadNextBatch = async () => {
+        if (!questions) return;
+        // Decided on every answer so far, including the one that finished the loaded questions.
+        const level = nextDifficulty(questionDifficulties[questionDifficulties.length - 1] || difficulty, quizProgress.correctness);
+        const controller = new AbortController();
+        quizControllerRef.current = controller;
+        setIsLoadingMore(true);
+        try {
+            const { combined, generated } = await generateBatch(pendingBatches[0], level, controller.signal, questions);
+            setQuestions([...questions, ...combined]);
+            setQuestionDifficulties(prev => [...prev, ...combined.map(() => level)]);
+            setGeneratedQuestions(prev => [...prev, ...(generated?.questions || [])]);
+            if (generated) setQuizPrompt(prev => prev || generated.prompt);
+            setPendingBatches(prev => prev.slice(1));
+        } catch (err) {
+            if (!isCancelledError(err)) {
+                setMoreQuestionsError(toErrorInfo(err, '다음 문제를 만들지 못했습니다.'));
+            }
+        } finally {
+            quizControllerRef.current = null;
+            setIsLoadingMore(false);
+        }
+    };
+
+    // An adaptive quiz fetches its next batch once the learner moves on from the last loaded question.
+    useEffect(() => {
+        if (!questions || pendingBatches.length === 0 || isLoadingMore || moreQuestionsError) return;
+        if (quizProgress.index < questions.length) return;
+        handleLoadNextBatch();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [questions, pendingBatches, quizProgress, isLoadingMore, moreQuestionsError]);
+
+    const handleQuizStart = useCallback(() => setIsQuizStarted(true), []);
+
+    const handleQuizProgress = useCallback((index: number, correctness: (boolean | null)[]) => {
+        setQuizProgress({ index, correctness });
+    }, []);
+
+    // Generated questions are saved under the level each was made at.
+    const handleSaveToBank = async () => {
+        const byLevel = new Map<DifficultyLevel, QuizQuestion[]>();
+        generatedQuestions.forEach(question => {
+            const level = questionDifficulties[questions?.indexOf(question) ?? -1] || difficulty;
+            byLevel.set(level, [...(byLevel.get(level) || []), question]);
+        });
+        const added = await Promise.all([...byLevel].map(([level, items]) => addQuestionsToBank(standard.id, level, items)));
+        return added.reduce((sum, count) => sum + count, 0);
+    };
+
+    const handleStopGeneratingQuiz = () => {
+        quizControllerRef.current?.abort();
+    };
+
+    // Leaving the page (back button, header navigation) stops anything the user started.
+    useEffect(() => {
+        return () => {
+            qnaControllerRef.current?.abort();
+            quizControllerRef.current?.abort();
+            ttsControllerRef.current?.abort();
+        };
+    }, []);
+
     const handleQuestionCountChange = (type: QuestionType, value: string) => {
         const count = Math.max(0, parseInt(value, 10) || 0);
         setQuestionCounts(prev => ({ ...prev, [type]: count }));
     };
 
+    const sharePackage = useMemo(
+        () => questions && questions.length > 0 ? createQuizPackage(context, withMultiSelectScoring(questions, multiSelectScoring), quizPrompt || undefined, undefined, hintPenalty) : null,
+        [context, questions, quizPrompt, multiSelectScoring, hintPenalty]
+    );
+
     const handleQuizSubmit = useCallback((
         score: number, 
         correctAnswers: number, 
         totalQuestions: number, 
         userAnswers: (string | null)[], 
-        correctness: (boolean | null)[]
+        correctness: (boolean | null)[],
+        _points: number[],
+        questionTimes: number[] | undefined,
+        hintsUsed: number[]
     ) => {
-        const newResult: QuizResult = {
-            id: new Date().toISOString(),
-            date: new Date().toISOString(),
-            standardId: standard.id,
-            standardDescription: standard.description,
-            subject: subjectName,
-            score,
-            totalQuestions,
-            correctAnswers,
-            // Save full details for review
-            questions: questions || undefined,
-            userAnswers,
-            correctness
-        };
-        setStudyHistory([...studyHistory, newResult]);
-        setLastResult(newResult);
+        const outcome = { score, correctAnswers, totalQuestions, userAnswers, correctness, exam: examSettings, questionTimes, hintsUsed, hintPenalty };
+        // The session's scoring is kept on the saved questions, so reviews score them the same way.
+        const savedQuestions = questions && withMultiSelectScoring(questions, multiSelectScoring);
+        setLastResults([createQuizResult(context, savedQuestions, quizPrompt, outcome, isAdaptive ? questionDifficulties : difficulty)]);
         setQuizFinished(true);
-    }, [standard, subjectName, studyHistory, setStudyHistory, questions]);
+    }, [context, questions, quizPrompt, difficulty, isAdaptive, questionDifficulties, multiSelectScoring, examSettings, hintPenalty]);
     
     const markdownComponents = {
         table: (props: any) => <div className="overflow-x-auto mb-2"><table className="table-auto w-full border-collapse border border-slate-300 dark:border-slate-600" {...props} /></div>,
@@ -381,13 +591,24 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
                 <header>
                     <div className="flex items-start justify-between gap-2">
                         <div>
-                            <p className="text-xs sm:text-sm font-semibold text-neon-blue">{subjectName}</p>
+                            <p className="text-xs sm:text-sm font-semibold text-neon-blue">{subjectName} · {context.grade} · {context.unitName}</p>
                             <h1 className="text-base sm:text-xl font-bold text-slate-900 dark:text-white mt-0.5 leading-tight">{standard.description}</h1>
                             <p className="text-xs text-slate-500 dark:text-slate-400 font-mono mt-1">{standard.id}</p>
                         </div>
                     </div>
                     
                      <div className="flex flex-wrap items-center justify-end mt-2 border-b border-slate-200 dark:border-slate-700 pb-2 gap-2">
+                        {isExplanationCached && (
+                            <span className="text-xs text-slate-500 dark:text-slate-400 mr-auto">저장된 학습 자료를 불러왔어요</span>
+                        )}
+                        <button
+                            onClick={handleRegenerate}
+                            disabled={isLoadingExplanation || isStreamingExplanation || isLoadingSummary || isLoadingIllustration}
+                            className="px-3 py-1.5 rounded-md bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 text-sm font-medium disabled:opacity-50 transition-colors"
+                            aria-label="학습 자료 다시 생성"
+                        >
+                            다시 생성
+                        </button>
                         <div className="flex items-center gap-2">
                             <select
                                 id="voice-select"
@@ -423,7 +644,7 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
                             </button>
                         </div>
                     </div>
-                     {ttsError && <p className="text-red-500 text-xs mt-1 text-right">{ttsError}</p>}
+                     {ttsError && <ErrorNotice error={ttsError} compact className="mt-1 text-right" />}
                 </header>
 
                 <article className="py-3 sm:py-4">
@@ -456,7 +677,7 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
                     {isLoadingExplanation ? (
                         <Spinner text="AI 튜터가 설명 자료를 준비하고 있어요..." />
                     ) : explanationError ? (
-                            <p className="text-red-500 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-sm">{explanationError}</p>
+                            <ErrorNotice error={explanationError} />
                     ) : (
                         <div className="prose prose-sm sm:prose-base prose-slate dark:prose-invert max-w-none overflow-x-hidden leading-snug">
                             <div className="w-full overflow-x-auto">
@@ -526,12 +747,23 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
                                     }}
                                 />
                                 <div className="flex justify-end items-center mt-1.5 gap-2">
-                                    <Button type="submit" disabled={!userQuestion.trim() || isAnswering} className="!py-1.5 !px-3 text-xs sm:text-sm">
-                                        {isAnswering ? <Spinner size="sm" /> : '질문 전송'}
-                                    </Button>
+                                    {conversation.length > 0 && !isAnswering && (
+                                        <Button type="button" variant="secondary" onClick={() => setConversation([])} className="!py-1.5 !px-3 text-xs sm:text-sm">
+                                            대화 지우기
+                                        </Button>
+                                    )}
+                                    {isAnswering ? (
+                                        <Button type="button" variant="secondary" onClick={handleStopAnswering} className="!py-1.5 !px-3 text-xs sm:text-sm">
+                                            답변 중지
+                                        </Button>
+                                    ) : (
+                                        <Button type="submit" disabled={!userQuestion.trim()} className="!py-1.5 !px-3 text-xs sm:text-sm">
+                                            질문 전송
+                                        </Button>
+                                    )}
                                 </div>
                             </form>
-                            {qnaError && <p className="text-red-500 mt-1 text-xs">{qnaError}</p>}
+                            {qnaError && <ErrorNotice error={qnaError} compact className="mt-1" />}
                         </section>
                         
                         <hr className="my-6 border-slate-200 dark:border-slate-700" />
@@ -551,36 +783,99 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
                                     <option value="medium">중 (보통)</option>
                                     <option value="hard">상 (심화)</option>
                                 </select>
+                                <label className="flex items-center gap-2 mt-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+                                    <input type="checkbox" checked={isAdaptive} disabled={isExam} onChange={e => setIsAdaptive(e.target.checked)} />
+                                    적응형 난이도 ({ADAPTIVE_BATCH_SIZE}문제씩 만들며, 푼 결과에 따라 난이도가 오르내려요)
+                                </label>
+                                <label className="flex items-center gap-2 mt-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+                                    <input type="checkbox" checked={isExam} disabled={isAdaptive} onChange={e => setIsExam(e.target.checked)} />
+                                    시험 모드 (제한 시간 안에 풀고, 정답은 모두 제출한 뒤에 확인해요)
+                                </label>
+                                {isExam && (
+                                    <div className="flex items-center gap-2 mt-1 text-xs text-slate-600 dark:text-slate-300">
+                                        <select
+                                            value={examTiming}
+                                            onChange={e => setExamTiming(e.target.value as ExamTiming)}
+                                            aria-label="시간 제한 방식"
+                                            className="p-1 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 rounded-md text-xs"
+                                        >
+                                            {(Object.keys(EXAM_TIMING_LABELS) as ExamTiming[]).map(timing => (
+                                                <option key={timing} value={timing}>{EXAM_TIMING_LABELS[timing]}</option>
+                                            ))}
+                                        </select>
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            value={examTiming === 'total' ? examLimits.total / 60 : examLimits['per-question']}
+                                            onChange={e => {
+                                                const value = Math.max(1, parseInt(e.target.value, 10) || 1);
+                                                setExamLimits(prev => ({ ...prev, [examTiming]: examTiming === 'total' ? value * 60 : value }));
+                                            }}
+                                            aria-label="제한 시간"
+                                            className="w-16 p-1 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 rounded-md text-xs text-center"
+                                        />
+                                        <span>{examTiming === 'total' ? '분' : '초'}</span>
+                                    </div>
+                                )}
+                                {bankItems.length > 0 && (
+                                    <label className="flex items-center gap-2 mt-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+                                        <input type="checkbox" checked={useBank} onChange={e => setUseBank(e.target.checked)} />
+                                        문제 은행 먼저 쓰기 (이 난이도 {bankItems.filter(item => item.difficulty === difficulty).length}문항, 모자라면 AI가 채움)
+                                    </label>
+                                )}
                             </div>
 
                             <div className="grid grid-cols-4 gap-2 mb-3">
-                                <div>
-                                    <label htmlFor="mc-questions" className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-0.5 text-center">객관식</label>
-                                    <input type="number" id="mc-questions" value={questionCounts['multiple-choice']} onChange={e => handleQuestionCountChange('multiple-choice', e.target.value)} min="0" className="w-full p-1.5 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 rounded-md text-sm text-center"/>
-                                </div>
-                                <div>
-                                    <label htmlFor="sa-questions" className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-0.5 text-center">서술형</label>
-                                    <input type="number" id="sa-questions" value={questionCounts['short-answer']} onChange={e => handleQuestionCountChange('short-answer', e.target.value)} min="0" className="w-full p-1.5 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 rounded-md text-sm text-center"/>
-                                </div>
-                                <div>
-                                    <label htmlFor="ox-questions" className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-0.5 text-center">OX</label>
-                                    <input type="number" id="ox-questions" value={questionCounts['ox']} onChange={e => handleQuestionCountChange('ox', e.target.value)} min="0" className="w-full p-1.5 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 rounded-md text-sm text-center"/>
-                                </div>
-                                <div>
-                                    <label htmlFor="cr-questions" className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-0.5 text-center">창의 서술형</label>
-                                    <input type="number" id="cr-questions" value={questionCounts['creativity']} onChange={e => handleQuestionCountChange('creativity', e.target.value)} min="0" className="w-full p-1.5 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 rounded-md text-sm text-center"/>
-                                </div>
+                                {QUESTION_TYPES.map(type => (
+                                    <div key={type}>
+                                        <label htmlFor={`${type}-questions`} className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-0.5 text-center">{QUESTION_TYPE_LABELS[type]}</label>
+                                        <input type="number" id={`${type}-questions`} value={questionCounts[type]} onChange={e => handleQuestionCountChange(type, e.target.value)} min="0" className="w-full p-1.5 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 rounded-md text-sm text-center"/>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="flex items-center justify-center gap-2 mb-3 text-xs text-slate-600 dark:text-slate-300">
+                                <label htmlFor="hint-penalty">힌트 1개당 감점</label>
+                                <select
+                                    id="hint-penalty"
+                                    value={hintPenalty}
+                                    onChange={e => setHintPenalty(Number(e.target.value))}
+                                    className="p-1 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 rounded-md text-xs"
+                                >
+                                    {HINT_PENALTY_OPTIONS.map(penalty => (
+                                        <option key={penalty} value={penalty}>{penalty === 0 ? '감점 없음' : `${Math.round(penalty * 100)}%`}</option>
+                                    ))}
+                                </select>
                             </div>
-                            <div className="flex flex-col">
+                            {questionCounts['multiple-select'] > 0 && (
+                                <div className="flex items-center justify-center gap-2 mb-3 text-xs text-slate-600 dark:text-slate-300">
+                                    <label htmlFor="multi-select-scoring">복수 정답 채점</label>
+                                    <select
+                                        id="multi-select-scoring"
+                                        value={multiSelectScoring}
+                                        onChange={e => setMultiSelectScoring(e.target.value as MultiSelectScoring)}
+                                        className="p-1 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 rounded-md text-xs"
+                                    >
+                                        {(Object.keys(MULTI_SELECT_SCORING_LABELS) as MultiSelectScoring[]).map(scoring => (
+                                            <option key={scoring} value={scoring}>{MULTI_SELECT_SCORING_LABELS[scoring]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+                            <div className="flex flex-col gap-2">
                                 <Button 
                                     onClick={handleGenerateQuiz} 
-                                    disabled={isGeneratingQuestions || (questionCounts['multiple-choice'] === 0 && questionCounts['short-answer'] === 0 && questionCounts['ox'] === 0 && questionCounts['creativity'] === 0)} 
+                                    disabled={isGeneratingQuestions || QUESTION_TYPES.every(type => questionCounts[type] === 0)} 
                                     className="w-full !py-3 text-base"
                                 >
                                     {isGeneratingQuestions ? <Spinner size="sm" /> : '연습 문제 풀기'}
                                 </Button>
+                                {isGeneratingQuestions && (
+                                    <Button variant="secondary" onClick={handleStopGeneratingQuiz} className="w-full !py-2 text-sm">
+                                        생성 중지
+                                    </Button>
+                                )}
                             </div>
-                            {questionsError && <p className="text-red-500 mt-2 text-xs text-center">{questionsError}</p>}
+                            {questionsError && <ErrorNotice error={questionsError} className="mt-2 text-center" />}
                         </section>
                     </>
                 )}
@@ -588,27 +883,49 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
         );
     }
     
-    if (quizFinished && lastResult) {
-      return (
-        <div className="max-w-2xl mx-auto text-center bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-xl shadow-lg mt-4 transition-colors duration-300">
-            <h2 className="text-lg sm:text-xl font-bold text-slate-800 dark:text-white mb-2">학습 완료!</h2>
-            <p className="text-slate-600 dark:text-slate-300 mb-4 text-sm break-keep">성취기준 <span className="font-semibold block sm:inline mt-1 sm:mt-0">{lastResult.standardId}</span>에 대한 학습을 마쳤습니다.</p>
-            <div className="bg-neon-blue/10 dark:bg-neon-blue/20 rounded-xl p-4 sm:p-6 mb-4">
-                <p className="text-base text-slate-700 dark:text-slate-200">총 <span className="font-bold text-neon-blue">{lastResult.totalQuestions}</span>문제 중</p>
-                <p className="text-4xl sm:text-5xl font-extrabold text-neon-blue my-2">{lastResult.correctAnswers}</p>
-                <p className="text-base text-slate-700 dark:text-slate-200">문제를 맞혔습니다.</p>
-                <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-3 mt-4 overflow-hidden">
-                    <div className="bg-lime-green h-3 rounded-full transition-all duration-1000 ease-out" style={{ width: `${lastResult.score}%` }}></div>
-                </div>
-                <p className="text-lg font-bold mt-1 text-slate-800 dark:text-slate-100">{lastResult.score.toFixed(0)}점</p>
-            </div>
-            <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
-                * 문제는 로컬 저장소에 저장되어 대시보드에서 다시 확인할 수 있습니다.
-            </p>
-            <Button onClick={onSessionEnd} className="w-full sm:w-auto !py-2.5">완료</Button>
-        </div>
-      );
+    const shareBar = sharePackage && <QuizShareBar quiz={sharePackage} onSaveToBank={generatedQuestions.length > 0 ? handleSaveToBank : undefined} />;
+
+    if (quizFinished && lastResults) {
+        return (
+            <>
+                {shareBar}
+                <QuizCompletion results={lastResults} onDone={onSessionEnd} />
+            </>
+        );
     }
 
-    return <Quiz questions={questions} onSubmit={handleQuizSubmit} />;
+    return (
+        <>
+            {!isQuizStarted && shareBar}
+            {isAdaptive && (
+                <div className="max-w-3xl mx-auto px-2 sm:px-4 mb-3">
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                        적응형 난이도 · 지금 문제: <strong className="text-neon-blue">{DIFFICULTY_LABELS[questionDifficulties[Math.min(quizProgress.index, questionDifficulties.length - 1)] || difficulty]}</strong>
+                    </p>
+                    {moreQuestionsError && (
+                        <div className="mt-2">
+                            <ErrorNotice error={moreQuestionsError} />
+                            <div className="flex gap-2 mt-2">
+                                <Button variant="secondary" onClick={() => setMoreQuestionsError(null)} className="!py-1.5 !px-3 text-sm">다시 시도</Button>
+                                <Button variant="secondary" onClick={() => { setPendingBatches([]); setMoreQuestionsError(null); }} className="!py-1.5 !px-3 text-sm">지금까지 푼 문제로 끝내기</Button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+            <Quiz
+                questions={questions}
+                grade={context.grade}
+                standardId={standard.id}
+                onSubmit={handleQuizSubmit}
+                plannedCount={questions.length + pendingBatches.reduce((sum, batch) => sum + batch.reduce((count, req) => count + req.count, 0), 0)}
+                onProgress={isAdaptive ? handleQuizProgress : undefined}
+                onStart={handleQuizStart}
+                multiSelectScoring={multiSelectScoring}
+                exam={examSettings}
+                hintPenalty={hintPenalty}
+                subject={context.subjectName}
+            />
+        </>
+    );
 };
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import type { LearnerProfile } from '../types.ts';
+import { Button } from './common/Button.tsx';
+import { Card } from './common/Card.tsx';
+import { isTeacherProfile, isValidPin, unlockTeacherMode } from '../services/profiles.ts';
+
+interface TeacherGateProps {
+    profile: LearnerProfile;
+    onUnlock: () => void;
+    onCancel: () => void;
+}
+
+/** Stands in for the class views until the active teacher profile's PIN is entered. */
+export const TeacherGate: React.FC<TeacherGateProps> = ({ profile, onUnlock, onCancel }) => {
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!unlockTeacherMode(pin)) {
+            setError("PIN이 맞지 않습니다.");
+            setPin('');
+            return;
+        }
+        onUnlock();
+    };
+
+    if (!isTeacherProfile(profile)) {
+        return (
+            <Card className="max-w-sm mx-auto text-center">
+                <p className="text-4xl mb-2">🔒</p>
+                <p className="text-sm text-slate-700 dark:text-slate-200 mb-4">
+                    학급 현황은 교사용 프로필에서만 열 수 있습니다. 프로필 메뉴에서 교사용 프로필로 바꿔주세요.
+                </p>
+                <Button variant="secondary" onClick={onCancel} className="!py-1.5 !px-3 text-sm">돌아가기</Button>
+            </Card>
+        );
+    }
+
+    return (
+        <Card className="max-w-sm mx-auto">
+            <form onSubmit={handleSubmit} className="text-center space-y-3">
+                <p className="text-4xl">{profile.avatar}</p>
+                <p className="text-sm text-slate-700 dark:text-slate-200">
+                    학급 현황을 열려면 <strong>{profile.name}</strong>의 PIN을 입력해주세요.
+                </p>
+                <input
+                    type="password"
+                    inputMode="numeric"
+                    maxLength={4}
+                    value={pin}
+                    onChange={e => setPin(e.target.value.replace(/\D/g, ''))}
+                    className="w-full max-w-[10rem] mx-auto bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-center tracking-[0.5em] text-lg text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none"
+                    aria-label="PIN"
+                    autoFocus
+                />
+                {error && <p className="text-red-500 text-xs">{error}</p>}
+                <div className="flex justify-center gap-2">
+                    <Button type="button" variant="secondary" onClick={onCancel} className="!py-1.5 !px-3 text-sm">취소</Button>
+                    <Button type="submit" disabled={!isValidPin(pin)} className="!py-1.5 !px-3 text-sm">확인</Button>
+                </div>
+            </form>
+        </Card>
+    );
+};
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AiFeature, UsageRecord } from '../types.ts';
+import { AI_FEATURE_LABELS } from '../constants.ts';
+import { Button } from './common/Button.tsx';
+import { Card } from './common/Card.tsx';
+import {
+    USAGE_CHANGED_EVENT,
+    clearUsageRecords,
+    getDailyBudgetUsd,
+    getUsageRecords,
+    setDailyBudgetUsd,
+    toDateKey,
+} from '../services/usageTracker.ts';
+
+interface UsagePanelProps {
+    // Turns a standard id into a readable label for the per-standard list.
+    describeStandard: (standardId: string) => string;
+}
+
+interface UsageTotals {
+    requests: number;
+    tokens: number;
+    images: number;
+    cost: number;
+}
+
+const RECENT_DAYS = 30;
+const TOP_STANDARDS = 5;
+
+const sumUsage = (records: UsageRecord[]): UsageTotals => records.reduce(
+    (totals, record) => ({
+        requests: totals.requests + record.requests,
+        tokens: totals.tokens + record.inputTokens + record.outputTokens,
+        images: totals.images + record.images,
+        cost: totals.cost + record.estimatedCostUsd,
+    }),
+    { requests: 0, tokens: 0, images: 0, cost: 0 }
+);
+
+const formatUsd = (value: number) => `$${value < 0.01 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
+const formatNumber = (value: number) => value.toLocaleString('ko-KR');
+
+const UsageStat = ({ title, value }: { title: string; value: string }) => (
+    <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/40 text-center">
+        <p className="text-xs text-slate-500 dark:text-slate-400">{title}</p>
+        <p className="text-lg font-bold text-slate-800 dark:text-slate-100">{value}</p>
+    </div>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ describeStandard }) => {
+    const [records, setRecords] = useState<UsageRecord[]>(getUsageRecords);
+    const [budget, setBudget] = useState<number | null>(getDailyBudgetUsd);
+    const [budgetInput, setBudgetInput] = useState(() => budget?.toString() ?? '');
+
+    // AI calls record usage from anywhere in the app (and other tabs), so follow the storage.
+    useEffect(() => {
+        const refresh = () => {
+            setRecords(getUsageRecords());
+            setBudget(getDailyBudgetUsd());
+        };
+        window.addEventListener(USAGE_CHANGED_EVENT, refresh);
+        window.addEventListener('storage', refresh);
+        return () => {
+            window.removeEventListener(USAGE_CHANGED_EVENT, refresh);
+            window.removeEventListener('storage', refresh);
+        };
+    }, []);
+
+    const { today, recent, byFeature, byStandard } = useMemo(() => {
+        const todayKey = toDateKey();
+        const since = new Date();
+        since.setDate(since.getDate() - (RECENT_DAYS - 1));
+        const sinceKey = toDateKey(since);
+        const recentRecords = records.filter(record => record.date >= sinceKey);
+
+        const features = Object.keys(AI_FEATURE_LABELS) as AiFeature[];
+        const standardCosts = new Map<string, UsageRecord[]>();
+        recentRecords.forEach(record => {
+            if (!record.standardId) return;
+            standardCosts.set(record.standardId, [...(standardCosts.get(record.standardId) || []), record]);
+        });
+
+        return {
+            today: sumUsage(records.filter(record => record.date === todayKey)),
+            recent: sumUsage(recentRecords),
+            byFeature: features
+                .map(feature => ({ feature, ...sumUsage(recentRecords.filter(record => record.feature === feature)) }))
+                .filter(row => row.requests > 0),
+            byStandard: [...standardCosts.entries()]
+                .map(([standardId, standardRecords]) => ({ standardId, ...sumUsage(standardRecords) }))
+                .sort((a, b) => b.cost - a.cost || b.requests - a.requests)
+                .slice(0, TOP_STANDARDS),
+        };
+    }, [records]);
+
+    const handleSaveBudget = () => {
+        const value = parseFloat(budgetInput);
+        if (budgetInput.trim() === '' || Number.isNaN(value) || value <= 0) {
+            alert("0보다 큰 금액(달러)을 입력해주세요.");
+            return;
+        }
+        setDailyBudgetUsd(value);
+        setBudget(value);
+    };
+
+    const handleClearBudget = () => {
+        setDailyBudgetUsd(null);
+        setBudget(null);
+        setBudgetInput('');
+    };
+
+    const handleClearUsage = () => {
+        if (window.confirm("AI 사용량 기록을 모두 지우시겠습니까?")) {
+            clearUsageRecords();
+            setRecords([]);
+        }
+    };
+
+    const budgetRatio = budget ? Math.min(1, today.cost / budget) : 0;
+    const isOverBudget = budget !== null && today.cost >= budget;
+
+    return (
+        <Card className="mb-6">
+            <div className="flex justify-between items-start gap-2 mb-3">
+                <div>
+                    <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">AI 사용량</h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                        비용은 공개된 요금표로 계산한 추정치이며, 실제 청구 금액과 다를 수 있습니다.
+                    </p>
+                </div>
+                {records.length > 0 && (
+                    <Button variant="secondary" onClick={handleClearUsage} className="!py-1.5 !px-3 text-xs shrink-0">
+                        기록 지우기
+                    </Button>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+                <UsageStat title="오늘 요청" value={`${formatNumber(today.requests)}회`} />
+                <UsageStat title="오늘 토큰" value={formatNumber(today.tokens)} />
+                <UsageStat title="오늘 추정 비용" value={formatUsd(today.cost)} />
+                <UsageStat title={`최근 ${RECENT_DAYS}일 추정 비용`} value={formatUsd(recent.cost)} />
+            </div>
+
+            <div className="mb-4 p-3 rounded-lg border border-slate-200 dark:border-slate-700">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <label htmlFor="daily-budget" className="text-sm font-semibold text-slate-700 dark:text-slate-200 shrink-0">
+                        하루 예산 (USD)
+                    </label>
+                    <input
+                        id="daily-budget"
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={budgetInput}
+                        onChange={e => setBudgetInput(e.target.value)}
+                        placeholder="예: 1.00"
+                        className="flex-1 min-w-0 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg py-1 px-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue"
+                    />
+                    <div className="flex gap-2">
+                        <Button onClick={handleSaveBudget} className="!py-1.5 !px-3 text-xs">저장</Button>
+                        {budget !== null && (
+                            <Button variant="secondary" onClick={handleClearBudget} className="!py-1.5 !px-3 text-xs">해제</Button>
+                        )}
+                    </div>
+                </div>
+                {budget !== null ? (
+                    <div className="mt-2">
+                        <div className="h-2 w-full bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                            <div
+                                className={`h-full ${isOverBudget ? 'bg-sunset-orange' : 'bg-neon-blue'}`}
+                                style={{ width: `${budgetRatio * 100}%` }}
+                            />
+                        </div>
+                        <p className={`text-xs mt-1 ${isOverBudget ? 'text-sunset-orange font-semibold' : 'text-slate-500 dark:text-slate-400'}`}>
+                            {isOverBudget
+                                ? `오늘 예산 ${formatUsd(budget)}을 모두 사용해 그림 생성과 음성 읽기가 중단되었습니다.`
+                                : `오늘 ${formatUsd(today.cost)} / ${formatUsd(budget)} 사용. 예산을 넘으면 그림 생성과 음성 읽기가 중단됩니다.`}
+                        </p>
+                    </div>
+                ) : (
+                    <p className="text-xs mt-1 text-slate-500 dark:text-slate-400">
+                        예산을 정하면 초과한 날에는 비용이 큰 그림 생성과 음성 읽기를 자동으로 멈춥니다.
+                    </p>
+                )}
+            </div>
+
+            {byFeature.length > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <h4 className="text-sm font-bold text-slate-700 dark:text-slate-200 mb-2">기능별 (최근 {RECENT_DAYS}일)</h4>
+                        <table className="w-full text-xs text-slate-700 dark:text-slate-300">
+                            <thead>
+                                <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                                    <th className="py-1 font-medium">기능</th>
+                                    <th className="py-1 font-medium text-right">요청</th>
+                                    <th className="py-1 font-medium text-right">토큰</th>
+                                    <th className="py-1 font-medium text-right">이미지</th>
+                                    <th className="py-1 font-medium text-right">비용</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {byFeature.map(row => (
+                                    <tr key={row.feature} className="border-b border-slate-100 dark:border-slate-700/50">
+                                        <td className="py-1">{AI_FEATURE_LABELS[row.feature]}</td>
+                                        <td className="py-1 text-right">{formatNumber(row.requests)}</td>
+                                        <td className="py-1 text-right">{formatNumber(row.tokens)}</td>
+                                        <td className="py-1 text-right">{formatNumber(row.images)}</td>
+                                        <td className="py-1 text-right">{formatUsd(row.cost)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div>
+                        <h4 className="text-sm font-bold text-slate-700 dark:text-slate-200 mb-2">비용이 큰 성취기준</h4>
+                        {byStandard.length > 0 ? (
+                            <ul className="space-y-1.5">
+                                {byStandard.map(row => (
+                                    <li key={row.standardId} className="flex justify-between gap-2 text-xs text-slate-700 dark:text-slate-300">
+                                        <span className="truncate" title={describeStandard(row.standardId)}>{describeStandard(row.standardId)}</span>
+                                        <span className="shrink-0 font-semibold">{formatUsd(row.cost)} · {formatNumber(row.requests)}회</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <p className="text-xs text-slate-500 dark:text-slate-400">성취기준별 기록이 없습니다.</p>
+                        )}
+                    </div>
+                </div>
+            ) : (
+                <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-2">아직 기록된 AI 사용량이 없습니다.</p>
+            )}
+        </Card>
+    );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { AI_ERROR_TITLES, type AiErrorCategory, type AiErrorInfo } from '../../services/aiErrors.ts';
+
+interface ErrorNoticeProps {
+    error: AiErrorInfo;
+    compact?: boolean;
+    className?: string;
+}
+
+// Temporary conditions (quota, busy server) are amber; problems the user must fix are red.
+const TEXT_STYLES: Record<AiErrorCategory, string> = {
+    quota: 'text-amber-700 dark:text-amber-300',
+    invalid_key: 'text-red-600 dark:text-red-300',
+    safety: 'text-orange-700 dark:text-orange-300',
+    network: 'text-slate-700 dark:text-slate-200',
+    timeout: 'text-slate-700 dark:text-slate-200',
+    unavailable: 'text-amber-700 dark:text-amber-300',
+    budget: 'text-amber-700 dark:text-amber-300',
+    cancelled: 'text-slate-500 dark:text-slate-400',
+    invalid_response: 'text-slate-700 dark:text-slate-200',
+    unknown: 'text-red-500 dark:text-red-300',
+};
+
+const BOX_STYLES: Record<AiErrorCategory, string> = {
+    quota: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800',
+    invalid_key: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800',
+    safety: 'bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-800',
+    network: 'bg-slate-100 dark:bg-slate-700/50 border-slate-300 dark:border-slate-600',
+    timeout: 'bg-slate-100 dark:bg-slate-700/50 border-slate-300 dark:border-slate-600',
+    unavailable: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800',
+    budget: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800',
+    cancelled: 'bg-slate-50 dark:bg-slate-700/30 border-slate-200 dark:border-slate-600',
+    invalid_response: 'bg-slate-100 dark:bg-slate-700/50 border-slate-300 dark:border-slate-600',
+    unknown: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800',
+};
+
+const ICONS: Record<AiErrorCategory, string> = {
+    quota: '⏳',
+    invalid_key: '🔑',
+    safety: '🛡️',
+    network: '📡',
+    timeout: '⌛',
+    unavailable: '🚧',
+    budget: '💰',
+    cancelled: '⏹️',
+    invalid_response: '🧩',
+    unknown: '⚠️',
+};
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, compact = false, className = '' }) => {
+    if (compact) {
+        return (
+            <p role="alert" className={`text-xs ${TEXT_STYLES[error.category]} ${className}`}>
+                {ICONS[error.category]} {error.message}
+            </p>
+        );
+    }
+
+    return (
+        <div role="alert" className={`p-3 border rounded-md text-sm ${TEXT_STYLES[error.category]} ${BOX_STYLES[error.category]} ${className}`}>
+            <p className="font-bold mb-0.5">{ICONS[error.category]} {AI_ERROR_TITLES[error.category]}</p>
+            <p>{error.message}</p>
+        </div>
+    );
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+import { Card } from './Card.tsx';
+
+interface StatsCardProps {
+    title: string;
+    value: string | number;
+    unit?: string;
+}
+
+export const StatsCard: React.FC<StatsCardProps> = ({ title, value, unit }) => (
+    <Card className="text-center">
+        <h3 className="text-xs sm:text-sm font-medium text-slate-500 dark:text-slate-400">{title}</h3>
+        <p className="text-2xl sm:text-3xl font-bold text-slate-800 dark:text-slate-100 mt-1">
+            {value} <span className="text-base font-medium text-slate-600 dark:text-slate-400">{unit}</span>
+        </p>
+    </Card>
+);
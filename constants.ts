@@ -1,5 +1,5 @@
 
-import type { EducationCurriculum, TTSVoice } from './types.ts';
+import type { EducationCurriculum, TTSVoice, AiProviderId, AiFeature, QuestionType, DifficultyLevel, MasteryLevel, MultiSelectScoring, ExamTiming } from './types.ts';
 
 export const AVAILABLE_VOICES: { id: TTSVoice; name: string }[] = [
     { id: 'Kore', name: '코리 (여성)' },
@@ -9,6 +9,96 @@ export const AVAILABLE_VOICES: { id: TTSVoice; name: string }[] = [
     { id: 'Zephyr', name: '제퍼 (남성)' },
 ];
 
+export const AVAILABLE_PROVIDERS: { id: AiProviderId; name: string }[] = [
+    { id: 'gemini', name: 'Google Gemini' },
+    { id: 'openai-compatible', name: 'OpenAI 호환 (학교 서버 등)' },
+    { id: 'demo', name: '데모 (오프라인 체험)' },
+];
+
+// Offered in the settings screen; any other model id can still be typed in.
+export const MODEL_SUGGESTIONS: Partial<Record<AiProviderId, Record<AiFeature, string[]>>> = {
+    'gemini': {
+        explanation: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'],
+        quiz: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'],
+        grading: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'],
+        diagnosis: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'],
+        image: ['imagen-4.0-generate-001', 'imagen-4.0-fast-generate-001', 'imagen-4.0-ultra-generate-001'],
+        speech: ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'],
+    },
+    'openai-compatible': {
+        explanation: ['gpt-4o-mini', 'gpt-4o'],
+        quiz: ['gpt-4o-mini', 'gpt-4o'],
+        grading: ['gpt-4o-mini', 'gpt-4o'],
+        diagnosis: ['gpt-4o-mini', 'gpt-4o'],
+        image: ['gpt-image-1'],
+        speech: ['gpt-4o-mini-tts'],
+    },
+};
+
+export const AI_FEATURE_LABELS: Record<AiFeature, string> = {
+    explanation: '개념 설명·질문',
+    quiz: '문제 생성',
+    grading: '서술형 채점',
+    diagnosis: '학습 진단',
+    image: '그림 생성',
+    speech: '음성 읽기',
+};
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+    'multiple-choice': '객관식',
+    'multiple-select': '복수 정답',
+    'short-answer': '서술형',
+    'ox': 'OX',
+    'creativity': '창의 서술형',
+    'matching': '짝 맞추기',
+    'ordering': '순서 정하기',
+    'cloze': '빈칸 채우기',
+};
+
+export const MULTI_SELECT_SCORING_LABELS: Record<MultiSelectScoring, string> = {
+    'all-or-nothing': '모두 맞혀야 정답',
+    'partial': '부분 점수',
+};
+
+export const EXAM_TIMING_LABELS: Record<ExamTiming, string> = {
+    'total': '전체 시간',
+    'per-question': '문제당 시간',
+};
+
+// Starting limits offered for each timing, in seconds.
+export const DEFAULT_EXAM_LIMITS: Record<ExamTiming, number> = {
+    'total': 10 * 60,
+    'per-question': 60,
+};
+
+// Share of a question's credit taken off for each hint revealed.
+export const HINT_PENALTY_OPTIONS = [0, 0.1, 0.25, 0.5];
+export const DEFAULT_HINT_PENALTY = 0.25;
+
+export const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+    easy: '하 (기초)',
+    medium: '중 (보통)',
+    hard: '상 (심화)',
+};
+
+export const MASTERY_LEVEL_LABELS: Record<MasteryLevel, string> = {
+    none: '아직 안 함',
+    learning: '익히는 중',
+    developing: '거의 다 왔어요',
+    mastered: '숙달',
+};
+
+export const MASTERY_LEVEL_BADGES: Record<MasteryLevel, string> = {
+    none: '⚪',
+    learning: '🔴',
+    developing: '🟡',
+    mastered: '🟢',
+};
+
+export const PROFILE_AVATARS = ['🙂', '🐶', '🐱', '🐰', '🐻', '🐼', '🦊', '🐯', '🦁', '🐸', '🐧', '🦄'];
+
+export const PROFILE_GRADE_OPTIONS = ['초등학교 1~2학년', '초등학교 3~4학년', '초등학교 5~6학년'];
+
 export const EDUCATION_CURRICULUMS: EducationCurriculum[] = [
     {
         name: "2022 개정 초등학교 교육과정",
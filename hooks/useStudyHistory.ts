@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { QuizResult } from '../types.ts';
+import { deleteStudyResult, loadStudyHistory } from '../services/studyHistory.ts';
+
+/** Loads the saved quiz results and keeps the list in step with deletions. */
+export const useStudyHistory = () => {
+    const [history, setHistory] = useState<QuizResult[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const isMountedRef = useRef(true);
+    useEffect(() => {
+        isMountedRef.current = true;
+        return () => {
+            isMountedRef.current = false;
+        };
+    }, []);
+
+    const reload = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const results = await loadStudyHistory();
+            if (!isMountedRef.current) return;
+            setHistory(results);
+            setError(null);
+        } catch (err) {
+            if (isMountedRef.current) setError(err instanceof Error ? err.message : "학습 기록을 불러오지 못했습니다.");
+        } finally {
+            if (isMountedRef.current) setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    const deleteResult = useCallback(async (id: string) => {
+        try {
+            await deleteStudyResult(id);
+            setHistory(prev => prev.filter(result => result.id !== id));
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "학습 기록을 삭제하지 못했습니다.");
+        }
+    }, []);
+
+    return { history, isLoading, error, reload, deleteResult };
+};
@@ -2,9 +2,10 @@
 import { useEffect } from 'react';
 import useLocalStorage from './useLocalStorage.ts';
 import type { Theme } from '../types.ts';
+import { profileStorageKey } from '../services/profiles.ts';
 
 export const useTheme = () => {
-    const [theme, setTheme] = useLocalStorage<Theme>('theme', 'system');
+    const [theme, setTheme] = useLocalStorage<Theme>(profileStorageKey('theme'), 'system');
 
     useEffect(() => {
         const root = window.document.documentElement;
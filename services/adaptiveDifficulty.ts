@@ -0,0 +1,42 @@
+import type { DifficultyLevel } from '../types.ts';
+import type { QuestionRequest } from './geminiService.ts';
+
+// Adaptive quizzes are generated a few questions at a time. Each batch is requested once the
+// learner has answered the one before, and its level moves one step up or down by how they did.
+
+export const ADAPTIVE_BATCH_SIZE = 3;
+
+const LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+// With a batch of three: all correct steps up, one or none correct steps down.
+const STEP_UP_RATIO = 0.8;
+const STEP_DOWN_RATIO = 0.4;
+
+/**
+ * The level for the next batch, judged on the last `ADAPTIVE_BATCH_SIZE` graded answers.
+ * Ungraded written answers are skipped, so the window can reach back into an earlier batch.
+ */
+export const nextDifficulty = (current: DifficultyLevel, correctness: (boolean | null)[]): DifficultyLevel => {
+    const recent = correctness.filter((value): value is boolean => value !== null).slice(-ADAPTIVE_BATCH_SIZE);
+    if (recent.length === 0) return current;
+    const ratio = recent.filter(Boolean).length / recent.length;
+    const index = LEVELS.indexOf(current);
+    if (ratio >= STEP_UP_RATIO) return LEVELS[Math.min(index + 1, LEVELS.length - 1)];
+    if (ratio <= STEP_DOWN_RATIO) return LEVELS[Math.max(index - 1, 0)];
+    return current;
+};
+
+/** Splits the requested counts into batches of `ADAPTIVE_BATCH_SIZE`, keeping the request order. */
+export const planAdaptiveBatches = (requests: QuestionRequest[]): QuestionRequest[][] => {
+    const types = requests.flatMap(({ type, count }) => Array<QuestionRequest['type']>(count).fill(type));
+    const batches: QuestionRequest[][] = [];
+    for (let start = 0; start < types.length; start += ADAPTIVE_BATCH_SIZE) {
+        const batch: QuestionRequest[] = [];
+        types.slice(start, start + ADAPTIVE_BATCH_SIZE).forEach(type => {
+            const last = batch[batch.length - 1];
+            if (last?.type === type) last.count++;
+            else batch.push({ type, count: 1 });
+        });
+        batches.push(batch);
+    }
+    return batches;
+};
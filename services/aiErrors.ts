@@ -0,0 +1,111 @@
+// Typed failures for AI calls so the UI can tell a spent quota from a bad key or a dropped connection.
+
+export type AiErrorCategory = 'quota' | 'invalid_key' | 'safety' | 'network' | 'timeout' | 'unavailable' | 'budget' | 'cancelled' | 'invalid_response' | 'unknown';
+
+export const AI_ERROR_MESSAGES: Record<AiErrorCategory, string> = {
+    quota: "AI 사용량 한도를 초과했습니다. 잠시 후 다시 시도하거나 다른 API 키를 사용해주세요.",
+    invalid_key: "API 키가 유효하지 않습니다. 올바른 키로 다시 설정해주세요.",
+    safety: "안전 정책에 따라 AI가 이 요청에 답변하지 않았습니다. 질문을 바꾸어 다시 시도해주세요.",
+    network: "AI 모델과 통신 중 오류가 발생했습니다. 네트워크 연결을 확인해주세요.",
+    timeout: "AI 응답 시간이 너무 오래 걸립니다. 잠시 후 다시 시도해주세요.",
+    unavailable: "AI 서비스가 일시적으로 혼잡합니다. 잠시 후 다시 시도해주세요.",
+    budget: "오늘의 AI 사용 예산을 모두 사용했습니다. 학습 현황에서 예산을 조정하거나 내일 다시 이용해주세요.",
+    cancelled: "요청을 중단했습니다.",
+    invalid_response: "AI가 알아볼 수 없는 형식으로 답했습니다. 잠시 후 다시 시도해주세요.",
+    unknown: "AI 모델과 통신 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+};
+
+export const AI_ERROR_TITLES: Record<AiErrorCategory, string> = {
+    quota: '사용량 초과',
+    invalid_key: 'API 키 오류',
+    safety: '안전 정책 차단',
+    network: '네트워크 오류',
+    timeout: '응답 시간 초과',
+    unavailable: '서비스 혼잡',
+    budget: '예산 초과',
+    cancelled: '중단됨',
+    invalid_response: '응답 형식 오류',
+    unknown: '오류',
+};
+
+export class AiError extends Error {
+    readonly category: AiErrorCategory;
+    // Server-provided hint for how long to wait before retrying, if any.
+    readonly retryAfterMs?: number;
+
+    constructor(category: AiErrorCategory, message: string = AI_ERROR_MESSAGES[category], retryAfterMs?: number) {
+        super(message);
+        this.name = 'AiError';
+        this.category = category;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+const getStatus = (error: unknown): number | undefined => {
+    const status = (error as { status?: unknown } | null)?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+/** Reads "retry after" hints from provider errors (Gemini RetryInfo, OpenAI Retry-After header). */
+export const getRetryAfterMs = (error: unknown): number | undefined => {
+    if (error instanceof AiError && error.retryAfterMs !== undefined) return error.retryAfterMs;
+    const explicit = (error as { retryAfterMs?: unknown } | null)?.retryAfterMs;
+    if (typeof explicit === 'number') return explicit;
+    const message = error instanceof Error ? error.message : '';
+    const match = message.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+export const classifyAiError = (error: unknown): AiErrorCategory => {
+    if (error instanceof AiError) return error.category;
+
+    const status = getStatus(error);
+    const message = error instanceof Error ? error.message : String(error);
+
+    if ((error instanceof Error || error instanceof DOMException) && error.name === 'AbortError') {
+        return 'cancelled';
+    }
+
+    if (message.includes("API key not valid") || message.includes("Requested entity was not found.") || status === 401 || status === 403) {
+        return 'invalid_key';
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+        return 'quota';
+    }
+    if (/SAFETY|blocked|content_filter|content policy/i.test(message)) {
+        return 'safety';
+    }
+    if (status === 408 || /timed? ?out|DEADLINE_EXCEEDED/i.test(message)) {
+        return 'timeout';
+    }
+    if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded/i.test(message)) {
+        return 'unavailable';
+    }
+    if (error instanceof TypeError || /Failed to fetch|NetworkError|network/i.test(message)) {
+        return 'network';
+    }
+    return 'unknown';
+};
+
+export const toAiError = (error: unknown): AiError => {
+    if (error instanceof AiError) return error;
+    const category = classifyAiError(error);
+    return new AiError(category, AI_ERROR_MESSAGES[category], getRetryAfterMs(error));
+};
+
+/** True when the user stopped the request; callers usually keep partial output and show nothing. */
+export const isCancelledError = (error: unknown): boolean => classifyAiError(error) === 'cancelled';
+
+export const getErrorCategory = (error: unknown): AiErrorCategory =>
+    error instanceof AiError ? error.category : 'unknown';
+
+// Plain shape for component state, so errors can be shown without keeping Error objects around.
+export interface AiErrorInfo {
+    category: AiErrorCategory;
+    message: string;
+}
+
+export const toErrorInfo = (error: unknown, fallbackMessage: string): AiErrorInfo => ({
+    category: getErrorCategory(error),
+    message: error instanceof Error ? error.message : fallbackMessage,
+});
@@ -0,0 +1,85 @@
+import type { AiFeature, AiProviderId, FeatureModelSettings, TTSVoice } from '../types.ts';
+
+// Provider-neutral subset of JSON Schema used for structured output.
+export interface JsonSchema {
+    type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+    description?: string;
+    enum?: string[];
+    items?: JsonSchema;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+}
+
+/** What a single response consumed, as reported by the backend. */
+export interface AiUsage {
+    inputTokens: number;
+    // Includes thinking tokens, which are billed as output.
+    outputTokens: number;
+    images?: number;
+}
+
+export interface AiTextRequest {
+    feature: AiFeature;
+    prompt: string;
+    thinkingBudget?: number;
+    // Aborting stops the request, and for streams ends iteration with an AbortError.
+    signal?: AbortSignal;
+    // Called once per response that reports usage; streams report when they end.
+    onUsage?: (usage: AiUsage) => void;
+}
+
+export interface AiJsonRequest extends AiTextRequest {
+    schema: JsonSchema;
+}
+
+export interface AiImageRequest {
+    feature: AiFeature;
+    prompt: string;
+    signal?: AbortSignal;
+    onUsage?: (usage: AiUsage) => void;
+}
+
+export interface AiSpeechRequest {
+    feature: AiFeature;
+    text: string;
+    voice: TTSVoice;
+    signal?: AbortSignal;
+    onUsage?: (usage: AiUsage) => void;
+}
+
+export interface AiProviderConfig {
+    apiKey: string;
+    baseUrl?: string;
+    model?: string;
+    features?: Partial<Record<AiFeature, FeatureModelSettings>>;
+}
+
+/**
+ * Model for a feature: the per-feature choice, else the single custom model for text
+ * features (image and speech need dedicated models), else the provider default.
+ */
+export const resolveModel = (config: AiProviderConfig, feature: AiFeature, defaults: Record<AiFeature, string>): string =>
+    config.features?.[feature]?.model
+    || (config.model && feature !== 'image' && feature !== 'speech' ? config.model : defaults[feature]);
+
+/**
+ * A backend that can serve every AI feature of the app.
+ * Adapters throw plain errors; the service layer turns them into user-facing messages.
+ */
+export interface AiProvider {
+    readonly id: AiProviderId;
+    // Model that serves the given feature; part of cache keys so a model change invalidates them.
+    modelFor: (feature: AiFeature) => string;
+    generateText: (request: AiTextRequest) => Promise<string>;
+    generateTextStream: (request: AiTextRequest) => Promise<AsyncGenerator<string>>;
+    // Returns the raw JSON text so the caller decides how to parse/repair it.
+    generateJson: (request: AiJsonRequest) => Promise<string>;
+    // Resolves to base64 PNG data, or null when the backend returned no image.
+    generateImage: (request: AiImageRequest) => Promise<string | null>;
+    // Resolves to base64 16-bit PCM audio at 24kHz.
+    generateSpeech: (request: AiSpeechRequest) => Promise<string>;
+    // Makes a minimal request to check that the credentials work.
+    validate: () => Promise<void>;
+    // Resolves if the credentials can use `model`; rejects like any other request otherwise.
+    checkModel: (model: string, signal?: AbortSignal) => Promise<void>;
+}
@@ -0,0 +1,191 @@
+import { AiError, classifyAiError, getRetryAfterMs, toAiError, type AiErrorCategory } from './aiErrors.ts';
+
+// Shared wrapper for every AI call: per-key concurrency limit, per-attempt timeout,
+// and exponential backoff for failures that are likely to go away on their own.
+
+export interface AiRequestOptions {
+    timeoutMs?: number;
+    maxRetries?: number;
+    signal?: AbortSignal;
+}
+
+const MAX_CONCURRENT_REQUESTS_PER_KEY = 2;
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1_000;
+// Hints longer than this usually mean a daily quota, not a short rate limit.
+const MAX_RETRY_DELAY_MS = 30_000;
+
+// A malformed reply is retried too: the same prompt usually comes back well-formed.
+const RETRYABLE_CATEGORIES: AiErrorCategory[] = ['quota', 'network', 'timeout', 'unavailable', 'invalid_response'];
+
+interface KeyLimiter {
+    active: number;
+    queue: (() => void)[];
+}
+
+const limiters = new Map<string, KeyLimiter>();
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new AiError('cancelled');
+};
+
+// Rejects as soon as `signal` aborts; used to stop waiting on work that ignores the signal.
+const abortPromise = (signal: AbortSignal | undefined, cleanup: (() => void)[]): Promise<never> =>
+    new Promise((_, reject) => {
+        if (!signal) return;
+        const onAbort = () => reject(new AiError('cancelled'));
+        signal.addEventListener('abort', onAbort, { once: true });
+        cleanup.push(() => signal.removeEventListener('abort', onAbort));
+    });
+
+const acquireSlot = async (key: string, signal?: AbortSignal): Promise<() => void> => {
+    let limiter = limiters.get(key);
+    if (!limiter) {
+        limiter = { active: 0, queue: [] };
+        limiters.set(key, limiter);
+    }
+    const current = limiter;
+    if (current.active >= MAX_CONCURRENT_REQUESTS_PER_KEY) {
+        let grant: () => void = () => {};
+        const cleanup: (() => void)[] = [];
+        try {
+            await Promise.race([
+                new Promise<void>(resolve => {
+                    grant = resolve;
+                    current.queue.push(grant);
+                }),
+                abortPromise(signal, cleanup),
+            ]);
+        } catch (error) {
+            // Give up our place in line so the next waiter is not skipped.
+            current.queue = current.queue.filter(waiter => waiter !== grant);
+            throw error;
+        } finally {
+            cleanup.forEach(fn => fn());
+        }
+    }
+    current.active++;
+
+    let released = false;
+    return () => {
+        if (released) return;
+        released = true;
+        current.active--;
+        current.queue.shift()?.();
+    };
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+    const cleanup: (() => void)[] = [];
+    let timer: ReturnType<typeof setTimeout>;
+    return Promise.race([
+        new Promise<void>(resolve => {
+            timer = setTimeout(resolve, ms);
+        }),
+        abortPromise(signal, cleanup),
+    ]).finally(() => {
+        clearTimeout(timer);
+        cleanup.forEach(fn => fn());
+    });
+};
+
+// Each attempt gets its own controller that follows the caller's signal, so a timed-out
+// attempt can be stopped without cancelling the whole request.
+const linkAbortController = (signal?: AbortSignal): { controller: AbortController; unlink: () => void } => {
+    const controller = new AbortController();
+    if (!signal) return { controller, unlink: () => {} };
+    const onAbort = () => controller.abort();
+    if (signal.aborted) onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    return { controller, unlink: () => signal.removeEventListener('abort', onAbort) };
+};
+
+const withTimeout = <T,>(promise: Promise<T>, timeoutMs: number, controller: AbortController): Promise<T> => {
+    const cleanup: (() => void)[] = [];
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            reject(new AiError('timeout'));
+            controller.abort();
+        }, timeoutMs);
+    });
+    return Promise.race([promise, timeout, abortPromise(controller.signal, cleanup)]).finally(() => {
+        clearTimeout(timer);
+        cleanup.forEach(fn => fn());
+    });
+};
+
+const backoffDelay = (attempt: number) => {
+    const exponential = BASE_RETRY_DELAY_MS * 2 ** attempt;
+    // Full jitter keeps a classroom of clients from retrying in lockstep.
+    return Math.min(MAX_RETRY_DELAY_MS, exponential / 2 + Math.random() * exponential / 2);
+};
+
+// Resolves with the first successful attempt and the slot it still holds; the caller releases it.
+const runAttempts = async <T,>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    options: AiRequestOptions
+): Promise<{ value: T; release: () => void }> => {
+    const { timeoutMs = DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES, signal } = options;
+
+    for (let attempt = 0; ; attempt++) {
+        throwIfAborted(signal);
+        const releaseSlot = await acquireSlot(key, signal);
+        const { controller, unlink } = linkAbortController(signal);
+        const release = () => {
+            unlink();
+            releaseSlot();
+        };
+        try {
+            return { value: await withTimeout(task(controller.signal), timeoutMs, controller), release };
+        } catch (error) {
+            release();
+            const category = classifyAiError(error);
+            const retryAfterMs = getRetryAfterMs(error);
+            const canRetry = attempt < maxRetries
+                && RETRYABLE_CATEGORIES.includes(category)
+                && (retryAfterMs === undefined || retryAfterMs <= MAX_RETRY_DELAY_MS);
+            if (!canRetry) {
+                throw toAiError(error);
+            }
+            console.warn(`AI request failed (${category}), retrying (${attempt + 1}/${maxRetries})`, error);
+            await wait(retryAfterMs ?? backoffDelay(attempt), signal);
+        }
+    }
+};
+
+/**
+ * Runs `task` under the concurrency limit for `key`, retrying transient failures.
+ * `task` gets the attempt's signal, which aborts on timeout as well as with `signal`.
+ * Always rejects with an `AiError`; aborting `signal` rejects with the 'cancelled' category
+ * whether the request is queued, in flight, or waiting to retry.
+ */
+export const runAiRequest = async <T,>(key: string, task: (signal: AbortSignal) => Promise<T>, options: AiRequestOptions = {}): Promise<T> => {
+    const { value, release } = await runAttempts(key, task, options);
+    release();
+    return value;
+};
+
+/**
+ * `runAiRequest` for streamed responses: retries and the timeout cover opening the stream,
+ * and the concurrency slot stays taken until the stream ends, throws or `signal` aborts.
+ */
+export const runAiStream = async <T,>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<AsyncGenerator<T>>,
+    options: AiRequestOptions = {}
+): Promise<AsyncGenerator<T>> => {
+    const { value: stream, release } = await runAttempts(key, task, options);
+    // The generator's `finally` never runs if the caller aborts before reading, so free the slot here too.
+    options.signal?.addEventListener('abort', release, { once: true });
+    return (async function* () {
+        try {
+            yield* stream;
+        } finally {
+            options.signal?.removeEventListener('abort', release);
+            release();
+        }
+    })();
+};
@@ -0,0 +1,300 @@
+import type { BankQuestion, LearnerProfile, QuizResult, ReviewItem, UsageRecord } from '../types.ts';
+import { addStudyResults, loadQuizImages, loadResultOwners, loadStudyHistory } from './studyHistory.ts';
+import { getAllCachedEntries, importCachedEntries, type ContentCacheEntry } from './contentCache.ts';
+import { getActiveProfile, getActiveProfileId, profileStorageKey } from './profiles.ts';
+import { getAllBankQuestions, importBankQuestions } from './questionBank.ts';
+import { addMissedQuestions, getAllReviewItems, importReviewItems } from './reviewQueue.ts';
+import { getAllTranscripts, mergeTranscripts, type StoredTranscript } from './qnaTranscripts.ts';
+import { getDailyBudgetUsd, getUsageRecords, mergeUsageRecords, setDailyBudgetUsd, toDateKey } from './usageTracker.ts';
+
+// Exports everything the app keeps for the active learner profile into one JSON file and merges
+// such a file back in. API keys are left out on purpose: a backup is easy to pass around, a key is not.
+
+const BACKUP_FORMAT = 'ai-sdl-e-backup';
+// Bump when the file shape changes and teach `parseBackup` to read the older version.
+const BACKUP_VERSION = 1;
+
+// Per-profile localStorage keys restored as-is when the user opts in to settings.
+const SETTINGS_STORAGE_KEYS = ['theme', 'ai_provider_settings'] as const;
+type SettingsStorageKey = typeof SETTINGS_STORAGE_KEYS[number];
+// Per-profile localStorage key of the dashboard's AI learning diagnosis.
+const DIAGNOSIS_STORAGE_KEY = 'diagnosisReport';
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    // Whose data this is; used to name the student when a teacher imports the file.
+    profile?: Pick<LearnerProfile, 'name' | 'avatar' | 'grade'>;
+    // Results with their question images inlined.
+    studyHistory: QuizResult[];
+    settings: {
+        storage: Partial<Record<SettingsStorageKey, unknown>>;
+        dailyBudgetUsd: number | null;
+    };
+    usage: UsageRecord[];
+    contentCache: ContentCacheEntry[];
+    diagnosisReport: string | null;
+    // Follow-up Q&A keyed by standard id.
+    qnaTranscripts: Record<string, StoredTranscript>;
+    // The device's question bank; it is shared by every profile, so a restore merges it for all.
+    questionBank: BankQuestion[];
+    // Spaced-review progress on missed questions.
+    reviewQueue: ReviewItem[];
+}
+
+/** What importing a backup would change, shown before anything is written. */
+export interface BackupPreview {
+    exportedAt: string;
+    newResults: QuizResult[];
+    // Results this profile already has (or that repeat within the file); these are skipped.
+    // Results whose id another profile here already uses are in `newResults` under a new id.
+    // Old id -> new id for those, so their review items follow them.
+    renamedResultIds: Record<string, string>;
+    duplicateCount: number;
+    // Records that are not quiz results at all, e.g. from a hand-edited file.
+    invalidCount: number;
+    usageRecordCount: number;
+    cacheEntryCount: number;
+    transcriptCount: number;
+    bankQuestionCount: number;
+    reviewItemCount: number;
+    // Only restored when this profile has no diagnosis of its own yet.
+    hasDiagnosisReport: boolean;
+    hasSettings: boolean;
+}
+
+export type BackupErrorReason = 'invalid_file' | 'unsupported_version';
+
+const BACKUP_ERROR_MESSAGES: Record<BackupErrorReason, string> = {
+    invalid_file: "백업 파일을 읽을 수 없습니다. 이 앱에서 내보낸 파일인지 확인해주세요.",
+    unsupported_version: "더 새로운 버전의 앱에서 만든 백업 파일입니다. 앱을 새로고침한 뒤 다시 시도해주세요.",
+};
+
+export class BackupError extends Error {
+    readonly reason: BackupErrorReason;
+
+    constructor(reason: BackupErrorReason) {
+        super(BACKUP_ERROR_MESSAGES[reason]);
+        this.name = 'BackupError';
+        this.reason = reason;
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isQuizResult = (value: unknown): value is QuizResult =>
+    isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.date === 'string'
+    && typeof value.standardId === 'string'
+    && typeof value.score === 'number'
+    && typeof value.totalQuestions === 'number'
+    && typeof value.correctAnswers === 'number';
+
+const isUsageRecord = (value: unknown): value is UsageRecord =>
+    isObject(value)
+    && typeof value.date === 'string'
+    && typeof value.feature === 'string'
+    && typeof value.model === 'string'
+    && typeof value.requests === 'number';
+
+const isCacheEntry = (value: unknown): value is ContentCacheEntry =>
+    isObject(value) && typeof value.key === 'string' && typeof value.value === 'string';
+
+const isBankQuestion = (value: unknown): value is BankQuestion =>
+    isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.standardId === 'string'
+    && typeof value.difficulty === 'string'
+    && isObject(value.question)
+    && typeof value.question.question === 'string'
+    && typeof value.createdAt === 'string';
+
+const isReviewItem = (value: unknown): value is ReviewItem =>
+    isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.resultId === 'string'
+    && typeof value.questionIndex === 'number'
+    && typeof value.standardId === 'string'
+    && isObject(value.question)
+    && typeof value.box === 'number'
+    && typeof value.dueDate === 'string'
+    && typeof value.reviewCount === 'number';
+
+const isTranscript = (value: unknown): value is StoredTranscript =>
+    isObject(value) && Array.isArray(value.messages) && typeof value.updatedAt === 'number';
+
+const readStorage = (key: string): unknown => {
+    try {
+        const item = window.localStorage.getItem(key);
+        return item ? JSON.parse(item) : undefined;
+    } catch (error) {
+        console.error(error);
+        return undefined;
+    }
+};
+
+export const createBackup = async (): Promise<BackupFile> => {
+    const history = await loadStudyHistory();
+    const storage: BackupFile['settings']['storage'] = {};
+    SETTINGS_STORAGE_KEYS.forEach(key => {
+        const value = readStorage(profileStorageKey(key));
+        if (value !== undefined) storage[key] = value;
+    });
+    const { name, avatar, grade } = getActiveProfile();
+    const diagnosisReport = readStorage(profileStorageKey(DIAGNOSIS_STORAGE_KEY));
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        profile: { name, avatar, grade },
+        studyHistory: await Promise.all(history.map(loadQuizImages)),
+        settings: { storage, dailyBudgetUsd: getDailyBudgetUsd() },
+        usage: getUsageRecords(),
+        contentCache: await getAllCachedEntries(),
+        diagnosisReport: typeof diagnosisReport === 'string' ? diagnosisReport : null,
+        qnaTranscripts: getAllTranscripts(),
+        questionBank: await getAllBankQuestions(),
+        reviewQueue: await getAllReviewItems(),
+    };
+};
+
+/** Builds a backup and hands it to the browser as a file download. */
+export const downloadBackup = async (): Promise<void> => {
+    const backup = await createBackup();
+    const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ai-sdl-e-backup-${toDateKey()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Checks a file's text and returns it as a backup. Unrecognisable records inside an otherwise
+ * valid file are kept here and counted by `previewBackup`; only the envelope is strict.
+ */
+export const parseBackup = (text: string): BackupFile => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new BackupError('invalid_file');
+    }
+    if (!isObject(raw) || raw.format !== BACKUP_FORMAT || typeof raw.version !== 'number') {
+        throw new BackupError('invalid_file');
+    }
+    if (raw.version > BACKUP_VERSION) {
+        throw new BackupError('unsupported_version');
+    }
+    if (!Array.isArray(raw.studyHistory)) {
+        throw new BackupError('invalid_file');
+    }
+    const settings = isObject(raw.settings) ? raw.settings : {};
+    const transcripts = isObject(raw.qnaTranscripts) ? raw.qnaTranscripts : {};
+    return {
+        format: BACKUP_FORMAT,
+        version: raw.version,
+        exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+        profile: isObject(raw.profile) && typeof raw.profile.name === 'string'
+            ? { name: raw.profile.name, avatar: String(raw.profile.avatar ?? ''), grade: typeof raw.profile.grade === 'string' ? raw.profile.grade : undefined }
+            : undefined,
+        studyHistory: raw.studyHistory,
+        settings: {
+            storage: isObject(settings.storage) ? settings.storage : {},
+            dailyBudgetUsd: typeof settings.dailyBudgetUsd === 'number' ? settings.dailyBudgetUsd : null,
+        },
+        usage: Array.isArray(raw.usage) ? raw.usage.filter(isUsageRecord) : [],
+        contentCache: Array.isArray(raw.contentCache) ? raw.contentCache.filter(isCacheEntry) : [],
+        diagnosisReport: typeof raw.diagnosisReport === 'string' && raw.diagnosisReport ? raw.diagnosisReport : null,
+        qnaTranscripts: Object.fromEntries(Object.entries(transcripts).filter((entry): entry is [string, StoredTranscript] => isTranscript(entry[1]))),
+        questionBank: Array.isArray(raw.questionBank) ? raw.questionBank.filter(isBankQuestion) : [],
+        reviewQueue: Array.isArray(raw.reviewQueue) ? raw.reviewQueue.filter(isReviewItem) : [],
+    };
+};
+
+/** The file's quiz results, leaving out records that are not results at all. */
+export const getBackupResults = (backup: BackupFile): QuizResult[] => backup.studyHistory.filter(isQuizResult);
+
+export const previewBackup = async (backup: BackupFile): Promise<BackupPreview> => {
+    // Result ids are unique per device, not per profile, so they are checked against every
+    // profile's history: writing over an id another learner owns would move their result here.
+    const owners = await loadResultOwners();
+    const profileId = getActiveProfileId();
+    const newResults: QuizResult[] = [];
+    const renamedResultIds: Record<string, string> = {};
+    let duplicateCount = 0;
+    let invalidCount = 0;
+    backup.studyHistory.forEach(result => {
+        if (!isQuizResult(result)) {
+            invalidCount++;
+            return;
+        }
+        // Derived rather than random, so importing the same file again still finds the copy.
+        const id = owners.has(result.id) && owners.get(result.id) !== profileId ? `${result.id}@${profileId}` : result.id;
+        if (owners.has(id)) {
+            duplicateCount++;
+        } else {
+            owners.set(id, profileId);
+            if (id !== result.id) renamedResultIds[result.id] = id;
+            newResults.push(id === result.id ? result : { ...result, id });
+        }
+    });
+    return {
+        exportedAt: backup.exportedAt,
+        newResults,
+        renamedResultIds,
+        duplicateCount,
+        invalidCount,
+        usageRecordCount: backup.usage.length,
+        cacheEntryCount: backup.contentCache.length,
+        transcriptCount: Object.keys(backup.qnaTranscripts).length,
+        bankQuestionCount: backup.questionBank.length,
+        reviewItemCount: backup.reviewQueue.length,
+        hasDiagnosisReport: backup.diagnosisReport !== null && !readStorage(profileStorageKey(DIAGNOSIS_STORAGE_KEY)),
+        hasSettings: Object.keys(backup.settings.storage).length > 0 || backup.settings.dailyBudgetUsd !== null,
+    };
+};
+
+/**
+ * Writes a previewed backup. History, usage, cached content, Q&A, the question bank and the
+ * review queue are merged, and the diagnosis fills in only when there is none here; settings
+ * replace the current ones only when asked, and take effect after the page reloads.
+ */
+export const restoreBackup = async (backup: BackupFile, preview: BackupPreview, includeSettings: boolean): Promise<void> => {
+    if (preview.newResults.length > 0) {
+        await addStudyResults(preview.newResults);
+    }
+    mergeUsageRecords(backup.usage);
+    await importCachedEntries(backup.contentCache);
+    mergeTranscripts(backup.qnaTranscripts);
+    if (backup.questionBank.length > 0) {
+        await importBankQuestions(backup.questionBank);
+    }
+    await importReviewItems(backup.reviewQueue.map(item => {
+        const resultId = preview.renamedResultIds[item.resultId];
+        return resultId ? { ...item, resultId, id: `${resultId}#${item.questionIndex}` } : item;
+    }));
+    // Misses of imported results that the file had no review item for start a fresh review.
+    if (preview.newResults.length > 0) {
+        await addMissedQuestions(preview.newResults);
+    }
+    if (preview.hasDiagnosisReport) {
+        window.localStorage.setItem(profileStorageKey(DIAGNOSIS_STORAGE_KEY), JSON.stringify(backup.diagnosisReport));
+    }
+    if (includeSettings) {
+        Object.entries(backup.settings.storage).forEach(([key, value]) => {
+            if ((SETTINGS_STORAGE_KEYS as readonly string[]).includes(key)) {
+                window.localStorage.setItem(profileStorageKey(key), JSON.stringify(value));
+            }
+        });
+        if (backup.settings.dailyBudgetUsd !== null) {
+            setDailyBudgetUsd(backup.settings.dailyBudgetUsd);
+        }
+    }
+};
@@ -0,0 +1,113 @@
+import type { QuizQuestion, QuizResult, RosterStudent } from '../types.ts';
+import { STORES, requestToPromise, withStore } from './indexedDb.ts';
+import { getProfiles } from './profiles.ts';
+import { loadStudyHistory } from './studyHistory.ts';
+import { getBackupResults, parseBackup } from './backup.ts';
+
+// Teacher mode: a class roster made of the learner profiles on this device, read live, and
+// students whose backup files were imported, stored in IndexedDB.
+
+const PROFILE_STUDENT_PREFIX = 'profile:';
+const FILE_STUDENT_PREFIX = 'file:';
+
+// Imported question images would multiply the roster's size by the class size, so only the
+// text is kept; drill-down still shows every question and answer.
+const withoutImages = (result: QuizResult): QuizResult => ({
+    ...result,
+    questions: result.questions?.map(({ imageBase64: _imageBase64, ...question }): QuizQuestion => question),
+});
+
+export const loadRoster = async (): Promise<RosterStudent[]> => {
+    const profileStudents = await Promise.all(getProfiles().map(async (profile): Promise<RosterStudent> => ({
+        id: `${PROFILE_STUDENT_PREFIX}${profile.id}`,
+        name: profile.name,
+        avatar: profile.avatar,
+        source: 'profile',
+        results: await loadStudyHistory(profile.id),
+    })));
+    const fileStudents = await withStore(STORES.classRoster, 'readonly', store =>
+        requestToPromise(store.getAll() as IDBRequest<RosterStudent[]>)
+    );
+    return [...profileStudents, ...fileStudents.sort((a, b) => a.name.localeCompare(b.name, 'ko'))];
+};
+
+/**
+ * Adds a student from an exported backup file. Files are matched to students by the profile
+ * name inside them (or the file name), so importing a newer file from the same student adds
+ * their new results instead of a second row. Throws `BackupError` for unreadable files.
+ */
+export const importRosterFile = async (fileName: string, text: string): Promise<RosterStudent> => {
+    const backup = parseBackup(text);
+    const name = backup.profile?.name.trim() || fileName.replace(/\.json$/i, '');
+    const id = `${FILE_STUDENT_PREFIX}${name}`;
+    return withStore(STORES.classRoster, 'readwrite', async store => {
+        const existing = await requestToPromise(store.get(id) as IDBRequest<RosterStudent | undefined>);
+        const results = new Map((existing?.results || []).map(result => [result.id, result]));
+        getBackupResults(backup).forEach(result => results.set(result.id, withoutImages(result)));
+        const student: RosterStudent = {
+            id,
+            name,
+            avatar: backup.profile?.avatar || existing?.avatar,
+            source: 'file',
+            results: [...results.values()].sort((a, b) => a.date.localeCompare(b.date)),
+            importedAt: new Date().toISOString(),
+        };
+        store.put(student);
+        return student;
+    });
+};
+
+/** Drops an imported student. Device profiles are managed from the profile switcher instead. */
+export const removeRosterStudent = (id: string): Promise<void> =>
+    withStore(STORES.classRoster, 'readwrite', store => {
+        store.delete(id);
+    });
+
+export interface StandardClassStat {
+    standardId: string;
+    // Mean of each student's latest score on the standard.
+    average: number;
+    studentCount: number;
+}
+
+export interface ClassSummary {
+    // Sorted by standard id, which follows the curriculum order.
+    standards: StandardClassStat[];
+    // studentId -> standardId -> the student's latest result on that standard.
+    latestResults: Map<string, Map<string, QuizResult>>;
+    // Mean over students who have studied anything of their average latest score.
+    classAverage: number;
+}
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Reduces the roster to one score per student and standard: the latest attempt, since a
+ * child who retried a standard has moved past their first score.
+ */
+export const summarizeClass = (students: RosterStudent[]): ClassSummary => {
+    const latestResults = new Map<string, Map<string, QuizResult>>();
+    const scoresByStandard = new Map<string, number[]>();
+    const studentAverages: number[] = [];
+
+    students.forEach(student => {
+        const latest = new Map<string, QuizResult>();
+        student.results.forEach(result => {
+            const current = latest.get(result.standardId);
+            if (!current || current.date < result.date) latest.set(result.standardId, result);
+        });
+        latestResults.set(student.id, latest);
+        latest.forEach((result, standardId) => {
+            scoresByStandard.set(standardId, [...(scoresByStandard.get(standardId) || []), result.score]);
+        });
+        if (latest.size > 0) {
+            studentAverages.push(average([...latest.values()].map(result => result.score)));
+        }
+    });
+
+    const standards = [...scoresByStandard.entries()]
+        .map(([standardId, scores]) => ({ standardId, average: average(scores), studentCount: scores.length }))
+        .sort((a, b) => a.standardId.localeCompare(b.standardId, 'ko'));
+
+    return { standards, latestResults, classAverage: average(studentAverages) };
+};
@@ -0,0 +1,136 @@
+import type { PromptRevision } from '../types.ts';
+import { STORES, requestToPromise, withStore } from './indexedDb.ts';
+
+// Persistent cache for generated study content (explanations, summaries, illustrations).
+// Entries are evicted least-recently-used first once the size or count limit is exceeded.
+
+export type CachedContentKind = 'explanation' | 'summary' | 'illustration';
+
+export interface ContentCacheKeyParts {
+    kind: CachedContentKind;
+    subjectName: string;
+    standardId: string;
+    model: string;
+    prompt: PromptRevision;
+}
+
+/** Where a piece of content is cached, and which prompt revision it is generated from. */
+export interface ContentCacheSlot {
+    key: string;
+    kind: CachedContentKind;
+    prompt: PromptRevision;
+}
+
+export interface ContentCacheEntry {
+    key: string;
+    kind: CachedContentKind;
+    // Absent on entries written before prompts were versioned per template.
+    prompt?: PromptRevision;
+    value: string;
+    size: number;
+    createdAt: number;
+    lastAccessedAt: number;
+}
+
+// Illustrations dominate the size (a base64 PNG is ~1-2MB), so the byte limit is what usually applies.
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 500;
+
+export const buildContentCacheKey = ({ kind, subjectName, standardId, model, prompt }: ContentCacheKeyParts): string =>
+    [kind, subjectName, standardId, model, `${prompt.templateId}@v${prompt.version}`].join('|');
+
+// JS strings are UTF-16, so this is what the entry roughly costs in storage.
+const estimateSize = (value: string) => value.length * 2;
+
+const evictIfNeeded = () => withStore(STORES.contentCache, 'readwrite', async store => {
+    const entries = await requestToPromise(store.getAll() as IDBRequest<ContentCacheEntry[]>);
+    let bytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let count = entries.length;
+    if (bytes <= MAX_CACHE_BYTES && count <= MAX_CACHE_ENTRIES) return;
+
+    entries.sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+    for (const entry of entries) {
+        if (bytes <= MAX_CACHE_BYTES && count <= MAX_CACHE_ENTRIES) break;
+        store.delete(entry.key);
+        bytes -= entry.size;
+        count--;
+    }
+});
+
+/** Resolves to the cached value, or null on a miss. Cache failures are never fatal. */
+export const getCachedContent = async (key: string): Promise<string | null> => {
+    try {
+        return await withStore(STORES.contentCache, 'readwrite', async store => {
+            const entry = await requestToPromise(store.get(key) as IDBRequest<ContentCacheEntry | undefined>);
+            if (!entry) return null;
+            store.put({ ...entry, lastAccessedAt: Date.now() });
+            return entry.value;
+        });
+    } catch (error) {
+        console.warn("Content cache read failed:", error);
+        return null;
+    }
+};
+
+export const setCachedContent = async ({ key, kind, prompt }: ContentCacheSlot, value: string): Promise<void> => {
+    const size = estimateSize(value);
+    if (size > MAX_CACHE_BYTES) return;
+    try {
+        const now = Date.now();
+        const entry: ContentCacheEntry = { key, kind, prompt, value, size, createdAt: now, lastAccessedAt: now };
+        await withStore(STORES.contentCache, 'readwrite', store => {
+            store.put(entry);
+        });
+        await evictIfNeeded();
+    } catch (error) {
+        console.warn("Content cache write failed:", error);
+    }
+};
+
+export const deleteCachedContent = async (keys: string[]): Promise<void> => {
+    try {
+        await withStore(STORES.contentCache, 'readwrite', store => {
+            keys.forEach(key => store.delete(key));
+        });
+    } catch (error) {
+        console.warn("Content cache delete failed:", error);
+    }
+};
+
+/** Every cached item, for backups. Cache failures yield an empty list. */
+export const getAllCachedEntries = async (): Promise<ContentCacheEntry[]> => {
+    try {
+        return await withStore(STORES.contentCache, 'readonly', store =>
+            requestToPromise(store.getAll() as IDBRequest<ContentCacheEntry[]>)
+        );
+    } catch (error) {
+        console.warn("Content cache read failed:", error);
+        return [];
+    }
+};
+
+/** Adds entries from a backup, keeping any local entry with the same key, then trims to the limits. */
+export const importCachedEntries = async (entries: ContentCacheEntry[]): Promise<void> => {
+    try {
+        await withStore(STORES.contentCache, 'readwrite', async store => {
+            const existing = new Set(await requestToPromise(store.getAllKeys()));
+            entries
+                .filter(entry => !existing.has(entry.key))
+                .forEach(entry => store.put(entry));
+        });
+        await evictIfNeeded();
+    } catch (error) {
+        console.warn("Content cache import failed:", error);
+    }
+};
+
+/** Drops every cached item; used to free space when more important data hits the quota. */
+export const clearContentCache = async (): Promise<void> => {
+    try {
+        await withStore(STORES.contentCache, 'readwrite', store => {
+            store.clear();
+        });
+    } catch (error) {
+        console.warn("Content cache clear failed:", error);
+    }
+};
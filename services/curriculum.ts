@@ -0,0 +1,40 @@
+import { EDUCATION_CURRICULUMS } from '../constants.ts';
+
+export interface StandardDetails {
+    curriculumName: string;
+    subjectName: string;
+    grade: string;
+    unitName: string;
+    standardDescription: string;
+}
+
+const curriculumDetailsCache = new Map<string, StandardDetails>();
+
+/** Where a standard sits in the curriculum, or null for ids that are not in it. */
+export const findDetailsForStandard = (standardId: string): StandardDetails | null => {
+    const cached = curriculumDetailsCache.get(standardId);
+    if (cached) {
+        return cached;
+    }
+    for (const curriculum of EDUCATION_CURRICULUMS) {
+        for (const subject of curriculum.subjects) {
+            for (const grade of subject.grades) {
+                for (const unit of grade.units) {
+                    const standard = unit.standards.find(s => s.id === standardId);
+                    if (standard) {
+                        const details = {
+                            curriculumName: curriculum.name,
+                            subjectName: subject.name,
+                            grade: grade.grade,
+                            unitName: unit.name,
+                            standardDescription: standard.description
+                        };
+                        curriculumDetailsCache.set(standardId, details);
+                        return details;
+                    }
+                }
+            }
+        }
+    }
+    return null;
+};
@@ -0,0 +1,51 @@
+import type { ExamSettings } from '../types.ts';
+
+// Exam-mode timing. While the exam runs, the time on each question is kept in milliseconds;
+// results store it in whole seconds.
+
+/** Time left on the whole exam, or on question `index` when each question has its own limit. */
+export const getRemainingMs = (exam: ExamSettings, times: number[], index: number): number => {
+    const used = exam.timing === 'total' ? times.reduce((sum, time) => sum + (time || 0), 0) : times[index] || 0;
+    return Math.max(0, exam.limitSeconds * 1000 - used);
+};
+
+export const isQuestionOpen = (exam: ExamSettings, times: number[], index: number): boolean =>
+    getRemainingMs(exam, times, index) > 0;
+
+/**
+ * The nearest question from `from` in `direction` that still has time, or null. With `wrap`
+ * the search continues from the other end, so only `from` itself is never returned.
+ */
+export const findOpenQuestion = (
+    exam: ExamSettings,
+    times: number[],
+    count: number,
+    from: number,
+    direction: 1 | -1,
+    wrap = false
+): number | null => {
+    for (let step = 1; step < count; step++) {
+        let index = from + direction * step;
+        if (wrap) index = (index + count) % count;
+        else if (index < 0 || index >= count) return null;
+        if (isQuestionOpen(exam, times, index)) return index;
+    }
+    return null;
+};
+
+/** `m:ss`, rounded up so the clock reads 0:00 only when time is over. */
+export const formatClock = (ms: number): string => {
+    const seconds = Math.ceil(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const toSeconds = (times: number[]): number[] => times.map(time => Math.round((time || 0) / 1000));
+
+/** Seconds as Korean text: "42초", "3분 5초". */
+export const formatDuration = (seconds: number): string => {
+    const total = Math.round(seconds);
+    const minutes = Math.floor(total / 60);
+    const rest = total % 60;
+    if (minutes === 0) return `${rest}초`;
+    return rest === 0 ? `${minutes}분` : `${minutes}분 ${rest}초`;
+};
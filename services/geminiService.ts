@@ -1,180 +1,246 @@
+import type { AiFeature, QuizQuestion, TTSVoice, QuestionType, ConversationMessage, ShortAnswerEvaluation, QuizResult, DifficultyLevel, AiProviderSettings, LearningContext, PromptRevision, FeatureModelSettings, ModelAccessResult, ModelAccessStatus } from '../types.ts';
+import type { AiProvider, AiProviderConfig, AiUsage } from './aiProvider.ts';
+import { createProvider } from './providers/index.ts';
+import { parseGeneratedJson, validateGeneratedQuestions, type GeneratedQuestion, type ValidatedQuestions } from './quizValidation.ts';
+import { AiError, classifyAiError, toAiError } from './aiErrors.ts';
+import { runAiRequest, runAiStream, type AiRequestOptions } from './aiRequest.ts';
+import { buildContentCacheKey, type CachedContentKind, type ContentCacheSlot } from './contentCache.ts';
+import { buildLearnerGuidance, getGradeBand } from './gradeBands.ts';
+import { getPromptRevision, resolvePrompt, type PromptTemplateId } from './prompts/promptRegistry.ts';
+import { isDailyBudgetExceeded, recordUsage } from './usageTracker.ts';
+import { computeMastery } from './mastery.ts';
+import { MASTERY_LEVEL_LABELS } from '../constants.ts';
+
+export const DEFAULT_PROVIDER_SETTINGS: AiProviderSettings = { providerId: 'gemini' };
+
+// Applied under the user's per-feature settings. Quiz JSON is long and rarely benefits from thinking.
+export const DEFAULT_FEATURE_SETTINGS: Partial<Record<AiFeature, FeatureModelSettings>> = {
+    quiz: { thinkingBudget: 0 },
+};
+
+const AI_FEATURES: AiFeature[] = ['explanation', 'quiz', 'grading', 'diagnosis', 'image', 'speech'];
+
+const toProviderConfig = (apiKey: string, settings: AiProviderSettings): AiProviderConfig => ({
+    apiKey,
+    baseUrl: settings.baseUrl,
+    model: settings.model,
+    features: Object.fromEntries(AI_FEATURES.map(feature => [
+        feature,
+        { ...DEFAULT_FEATURE_SETTINGS[feature], ...settings.features?.[feature] },
+    ])),
+});
+
+// Quiz batches and images take noticeably longer than text answers.
+const QUIZ_TIMEOUT_MS = 120_000;
+const IMAGE_TIMEOUT_MS = 90_000;
 
-import { GoogleGenAI, Type, Modality, GenerateContentResponse } from '@google/genai';
-import type { QuizQuestion, TTSVoice, QuestionType, ConversationMessage, ShortAnswerEvaluation, QuizResult, DifficultyLevel } from '../types.ts';
+let provider: AiProvider | null = null;
+// Calls made with the same key share one concurrency limit, since they share one quota.
+let requestKey = '';
 
-let ai: GoogleGenAI | null = null;
+const requiresApiKey = (settings: AiProviderSettings) => settings.providerId === 'gemini';
 
-export const initializeAi = (apiKey: string) => {
-    if (!apiKey) {
+export const initializeAi = (apiKey: string, settings: AiProviderSettings = DEFAULT_PROVIDER_SETTINGS) => {
+    if (!apiKey && requiresApiKey(settings)) {
         throw new Error("API 키가 제공되지 않았습니다.");
     }
-    ai = new GoogleGenAI({ apiKey });
+    provider = createProvider(settings.providerId, toProviderConfig(apiKey, settings));
+    requestKey = apiKey || `${settings.providerId}:${settings.baseUrl || ''}`;
 };
 
-const getAi = (): GoogleGenAI => {
-    if (!ai) {
-        throw new Error("AI 서비스가 초기화되지 않았습니다. API 키를 먼저 설정해주세요.");
+const getProvider = (): AiProvider => {
+    if (!provider) {
+        throw new AiError('invalid_key', "AI 서비스가 초기화되지 않았습니다. API 키를 먼저 설정해주세요.");
     }
-    return ai;
+    return provider;
+};
+
+// Runs a provider call through the shared retry/backoff and concurrency wrapper. The task must
+// pass the attempt's signal on to the provider so a timed-out attempt is actually stopped.
+const callProvider = <T,>(task: (provider: AiProvider, signal: AbortSignal) => Promise<T>, options?: AiRequestOptions): Promise<T> => {
+    const activeProvider = getProvider();
+    return runAiRequest(requestKey, attemptSignal => task(activeProvider, attemptSignal), options);
+};
+
+// Same for streams, which keep their concurrency slot until they are read to the end.
+const callProviderStream = (task: (provider: AiProvider, signal: AbortSignal) => Promise<AsyncGenerator<string>>, options?: AiRequestOptions): Promise<AsyncGenerator<string>> => {
+    const activeProvider = getProvider();
+    return runAiStream(requestKey, attemptSignal => task(activeProvider, attemptSignal), options);
+};
+
+// Attributes what a call consumed to its feature and, when known, the standard being studied.
+const trackUsage = (feature: AiFeature, standardId?: string) => {
+    const model = getProvider().modelFor(feature);
+    return (usage: AiUsage) => recordUsage(feature, model, usage, standardId);
 };
 
+// Errors raised mid-stream happen after the wrapper has returned, so classify them here.
+async function* withAiErrors(stream: AsyncGenerator<string>): AsyncGenerator<string> {
+    try {
+        yield* stream;
+    } catch (error) {
+        throw toAiError(error);
+    }
+}
+
 const handleApiError = (error: unknown): never => {
-    console.error("Gemini API Error:", error);
-    if (error instanceof Error && (error.message.includes("API key not valid") || error.message.includes("Requested entity was not found."))) {
-        throw new Error("API 키가 유효하지 않습니다. 올바른 키로 다시 설정해주세요.");
+    const aiError = toAiError(error);
+    if (aiError.category === 'cancelled') {
+        throw aiError;
     }
-    
-    if (typeof window !== 'undefined' && window.location.protocol === 'file:') {
-        throw new Error("AI 모델 통신 오류: 파일을 직접 열어 실행하는 경우 브라우저 보안 정책으로 인해 AI 기능이 작동하지 않을 수 있습니다. 로컬 개발 서버를 통해 접속해주세요.");
+    console.error("AI API Error:", error);
+
+    if (aiError.category === 'network' && typeof window !== 'undefined' && window.location.protocol === 'file:') {
+        throw new AiError('network', "AI 모델 통신 오류: 파일을 직접 열어 실행하는 경우 브라우저 보안 정책으로 인해 AI 기능이 작동하지 않을 수 있습니다. 로컬 개발 서버를 통해 접속해주세요.");
     }
 
-    throw new Error("AI 모델과 통신 중 오류가 발생했습니다. 네트워크 연결을 확인하거나 잠시 후 다시 시도해주세요.");
+    throw aiError;
+};
+
+const toAccessStatus = (error: unknown): ModelAccessStatus => {
+    const status = (error as { status?: unknown } | null)?.status;
+    const message = error instanceof Error ? error.message : String(error);
+    if (status === 404 || /not[ _]?found/i.test(message)) return 'not_found';
+    return classifyAiError(error) === 'invalid_key' ? 'denied' : 'error';
+};
+
+// One check per distinct model, so features sharing a model share the result. The checks are
+// cheap metadata lookups, so they skip the retry wrapper and keep the raw error for classification.
+const checkModelAccess = async (tempProvider: AiProvider): Promise<ModelAccessResult[]> => {
+    const featuresByModel = new Map<string, AiFeature[]>();
+    AI_FEATURES.forEach(feature => {
+        const model = tempProvider.modelFor(feature);
+        featuresByModel.set(model, [...(featuresByModel.get(model) || []), feature]);
+    });
+    return Promise.all([...featuresByModel.entries()].map(async ([model, features]): Promise<ModelAccessResult> => {
+        try {
+            await tempProvider.checkModel(model);
+            return { model, features, status: 'available' };
+        } catch (error) {
+            console.warn(`Model access check failed for ${model}:`, error);
+            return { model, features, status: toAccessStatus(error), message: error instanceof Error ? error.message : undefined };
+        }
+    }));
 };
 
-export const validateApiKey = async (apiKey: string): Promise<void> => {
-    if (!apiKey) {
+/** Checks the key, then reports which of the configured models it can use. */
+export const validateApiKey = async (apiKey: string, settings: AiProviderSettings = DEFAULT_PROVIDER_SETTINGS): Promise<ModelAccessResult[]> => {
+    if (!apiKey && requiresApiKey(settings)) {
         throw new Error("API 키를 입력해주세요.");
     }
+    if (settings.providerId === 'openai-compatible' && !settings.baseUrl?.trim() && !apiKey) {
+        throw new Error("API 키 또는 서버 주소를 입력해주세요.");
+    }
+    const key = apiKey || settings.providerId;
+    const tempProvider = createProvider(settings.providerId, toProviderConfig(apiKey, settings));
     try {
-        const tempAi = new GoogleGenAI({ apiKey });
-        // Use a very simple, low-cost call to validate the key
-        await tempAi.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: 'hello',
-        });
-        // If successful, it returns void.
+        await runAiRequest(key, () => tempProvider.validate(), { maxRetries: 1 });
     } catch (error) {
+        const category = classifyAiError(error);
+        // A rate-limited key is still a valid key; later calls will back off and retry.
+        if (category === 'quota') {
+            console.warn("API key is valid but currently rate limited:", error);
+            return checkModelAccess(tempProvider);
+        }
         console.error("API Key validation failed:", error);
-        if (error instanceof Error && (error.message.includes("API key not valid") || error.message.includes("Requested entity was not found."))) {
-            throw new Error("API 키가 유효하지 않습니다. Google AI Studio에서 발급받은 정확한 키인지 확인해주세요.");
+        if (category === 'invalid_key') {
+            throw new Error("API 키가 유효하지 않습니다. 발급받은 정확한 키인지 확인해주세요.");
         }
-        throw new Error("키를 확인하는 중 오류가 발생했습니다. 네트워크 연결을 확인해주세요.");
+        throw new Error("키를 확인하는 중 오류가 발생했습니다. 네트워크 연결이나 서버 주소를 확인해주세요.");
     }
+    return checkModelAccess(tempProvider);
 };
 
-export const generateIllustration = async (prompt: string): Promise<string | null> => {
-    try {
-        const aiInstance = getAi();
-        const imagePrompt = `**[Strict Visual Rule]** This image must be purely visual. Do NOT include any text, numbers, labels, or symbols. Style: Friendly, colorful, and clear educational illustration suitable for a middle school textbook. It should visually explain the following concept to help a student understand: ${prompt}.`;
-        
-        const response = await aiInstance.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: imagePrompt,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/png',
-                aspectRatio: '1:1',
-            },
-        });
+// The template revision is part of the cache key, so bumping a template's version retires its cached content.
+const CONTENT_TEMPLATES: Record<CachedContentKind, PromptTemplateId> = {
+    explanation: 'explanation',
+    summary: 'concept-summary',
+    illustration: 'illustration',
+};
 
-        if (response.generatedImages && response.generatedImages.length > 0) {
-            return response.generatedImages[0].image.imageBytes;
-        }
+const CONTENT_FEATURES: Record<CachedContentKind, AiFeature> = {
+    explanation: 'explanation',
+    summary: 'explanation',
+    illustration: 'image',
+};
+
+export const getContentCacheSlot = (kind: CachedContentKind, subjectName: string, standardId: string): ContentCacheSlot => {
+    const prompt = getPromptRevision(CONTENT_TEMPLATES[kind], subjectName);
+    const key = buildContentCacheKey({
+        kind,
+        subjectName,
+        standardId,
+        model: getProvider().modelFor(CONTENT_FEATURES[kind]),
+        prompt,
+    });
+    return { key, kind, prompt };
+};
+
+export const generateIllustration = async (prompt: string, grade?: string, signal?: AbortSignal, standardId?: string): Promise<string | null> => {
+    // Images are the most expensive call, so they are the first thing the daily budget turns off.
+    if (isDailyBudgetExceeded()) {
+        console.warn("Daily AI budget reached; skipping illustration.");
         return null;
+    }
+    try {
+        const { illustrationAudience } = getGradeBand(grade);
+        const imagePrompt = resolvePrompt('illustration', undefined, { audience: illustrationAudience, concept: prompt }).text;
+
+        return await callProvider((p, attemptSignal) => p.generateImage({ feature: 'image', prompt: imagePrompt, signal: attemptSignal, onUsage: trackUsage('image', standardId) }), { timeoutMs: IMAGE_TIMEOUT_MS, signal });
     } catch (error) {
         console.error("Image generation failed:", error);
         return null; 
     }
 };
 
-const MATH_RULE_PROMPT = `
-**[수식 표기 원칙 - LaTeX 필수]**
-1. **수학 수식은 반드시 LaTeX 문법**을 사용하십시오.
-2. **인라인 수식**: 문장 중간에 나오는 변수나 간단한 식은 \`$ ... $\`를 사용하세요. (예: $y = 2x$)
-3. **블록 수식**: 중요하거나 복잡한 식은 \`$$ ... $$\`를 사용하세요. (예: $$ x = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a} $$)
-4. **주의**: \`$x$\`와 같이 달러 기호로 확실하게 감싸야 렌더링됩니다. 일반 텍스트로 수식을 쓰지 마십시오.
-`;
-
-export const getExplanationStream = async (subjectName: string, standardDescription: string): Promise<AsyncGenerator<GenerateContentResponse>> => {
+export const getExplanationStream = async (context: LearningContext, signal?: AbortSignal): Promise<AsyncGenerator<string>> => {
     try {
-        let prompt = '';
-        if (subjectName === '영어') {
-            prompt = `
-            당신은 한국 중학생들을 위한 친절하고 유능한 영어 AI 튜터입니다.
-            다음 영어과 성취기준의 핵심 개념을 중학생들이 **쉽고 재미있게** 이해할 수 있도록 **개요 형식(번호와 불릿 포인트)**으로 정리해서 설명해주세요.
-            
-            **작성 지침:**
-            1. **구조화된 설명**: **1. 핵심 개념**, **2. 주요 표현/문법**, **3. 예문** 과 같이 번호를 매겨 정리하세요.
-            2. **중학생 눈높이**: 어려운 용어는 쉽게 풀어서 설명하고, 친근한 어조("~해요", "~랍니다")를 사용하세요.
-            3. **풍부한 예시**: 문법이나 표현을 설명할 때 실제 원어민이 사용하는 자연스러운 영어 문장 예시를 많이 들어주세요.
-            4. **핵심 요약**: 400자 내외로 핵심 내용을 명확하게 전달하세요.
-
-            성취기준: "${standardDescription}"
-            `;
-        } else {
-            prompt = `
-            당신은 한국의 중학생들을 위한 친절하고 유능한 AI 튜터입니다.
-            다음 성취기준에 대해 학생들이 **쉽고 재미있게** 이해할 수 있도록 **개요 형식(번호와 불릿 포인트 활용)**으로 일목요연하게 설명해주세요.
-
-            **작성 지침:**
-            1. **구조화된 개요 형식**: 줄글로 길게 늘어놓지 말고, **1. 개념 정의**, **2. 주요 특징/원리**, **3. 실생활 예시** 와 같이 번호를 매겨 구조화하세요.
-            2. **중학생 눈높이**: 어려운 전문 용어 대신 쉬운 단어를 사용하고, 개념을 직관적으로 이해할 수 있도록 설명하세요.
-            3. **수식 강조**: 수학/과학 공식은 **블록 수식($$ ... $$)**을 사용하여 눈에 잘 띄게 표현하세요.
-            4. **친근한 어조**: 선생님이 정리해주는 것처럼 다정하고 격려하는 어조("~해요", "~랍니다")를 사용하세요.
-            
-            ${MATH_RULE_PROMPT}
-
-            성취기준: "${standardDescription}"
-            `;
-        }
-
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContentStream({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
+        const { subjectName, unitName, standard } = context;
+        const band = getGradeBand(context.grade);
+        const { text: prompt } = resolvePrompt('explanation', subjectName, {
+            learner: band.learner,
+            learnerGuidance: buildLearnerGuidance(band),
+            explanationLength: band.explanationLength,
+            subjectName,
+            unitName,
+            standardDescription: standard.description,
         });
-        
-        return response;
+
+        const onUsage = trackUsage('explanation', standard.id);
+        return withAiErrors(await callProviderStream((p, attemptSignal) => p.generateTextStream({ feature: 'explanation', prompt, signal: attemptSignal, onUsage }), { signal }));
     } catch (error) {
         handleApiError(error);
     }
 };
 
-export const generateSummary = async (text: string): Promise<string> => {
+export const generateSummary = async (text: string, grade?: string, signal?: AbortSignal): Promise<string> => {
     try {
-        const prompt = `
-        위 내용을 중학생이 한눈에 알아볼 수 있도록 3~7줄 내외의 글머리 기호(Bullet points)로 핵심만 요약해줘.
-        
-        ${MATH_RULE_PROMPT}
-
-        ---
-        ${text}
-        `;
+        const band = getGradeBand(grade);
+        const { text: prompt } = resolvePrompt('text-summary', undefined, { learner: band.learner, text });
 
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
+        const summary = await callProvider((p, attemptSignal) => p.generateText({ feature: 'explanation', prompt, signal: attemptSignal, onUsage: trackUsage('explanation') }), { signal });
 
-        return response.text || "요약을 생성할 수 없습니다.";
+        return summary || "요약을 생성할 수 없습니다.";
     } catch (error) {
-        console.error("Summary generation error:", error);
-        throw new Error("요약 생성 중 오류가 발생했습니다.");
+        handleApiError(error);
     }
 };
 
-export const generateConceptSummary = async (subjectName: string, standardDescription: string): Promise<string> => {
+export const generateConceptSummary = async (context: LearningContext, signal?: AbortSignal): Promise<string> => {
     try {
-        const prompt = `
-        당신은 중학생들의 학습을 돕는 친절한 AI 튜터입니다.
-        다음 성취기준과 관련된 핵심 개념을 3~5개의 글머리 기호(Bullet points)로 요약해주세요.
-        중학생이 이해하기 쉽도록 핵심 용어와 원리를 간결하게 설명하세요.
-        답변은 바로 글머리 기호 내용부터 시작하세요.
-
-        과목: ${subjectName}
-        성취기준: ${standardDescription}
-
-        ${MATH_RULE_PROMPT}
-        `;
-
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
+        const band = getGradeBand(context.grade);
+        const { text: prompt } = resolvePrompt('concept-summary', context.subjectName, {
+            learner: band.learner,
+            learnerGuidance: buildLearnerGuidance(band),
+            subjectName: context.subjectName,
+            unitName: context.unitName,
+            standardDescription: context.standard.description,
         });
 
-        return response.text || "요약을 생성할 수 없습니다.";
+        const onUsage = trackUsage('explanation', context.standard.id);
+        const text = await callProvider((p, attemptSignal) => p.generateText({ feature: 'explanation', prompt, signal: attemptSignal, onUsage }), { signal });
+
+        return text || "요약을 생성할 수 없습니다.";
     } catch (error) {
         console.error("Summary generation error:", error);
         return ""; // Fail gracefully
@@ -182,73 +248,28 @@ export const generateConceptSummary = async (subjectName: string, standardDescri
 };
 
 export const getFollowUpAnswerStream = async (
-    subjectName: string,
-    standardDescription: string,
+    context: LearningContext,
     initialExplanation: string,
     conversationHistory: ConversationMessage[],
-    userQuestion: string
-): Promise<AsyncGenerator<GenerateContentResponse>> => {
+    userQuestion: string,
+    signal?: AbortSignal
+): Promise<AsyncGenerator<string>> => {
     try {
         const historyText = conversationHistory
             .map(msg => `${msg.role === 'user' ? '학생' : 'AI 튜터'}: ${msg.text}`)
             .join('\n');
-
-        let prompt = '';
-        if (subjectName === '영어') {
-            prompt = `
-            당신은 한국 중학생들을 위한 친절하고 유능한 영어 AI 튜터입니다. 
-            학생의 질문에 대해 중학생 눈높이에 맞춰 쉽고 친절하게 답변해주세요.
-            
-            학생은 현재 다음 영어과 성취기준에 대해 학습하고 있습니다:
-            "${standardDescription}"
-
-            당신은 이전에 학생에게 다음과 같은 초기 설명을 제공했습니다:
-            --- 초기 설명 ---
-            ${initialExplanation}
-            --------------------
-
-            지금까지 학생과의 대화 내용은 다음과 같습니다:
-            --- 대화 기록 ---
-            ${historyText}
-            --------------------
-
-            학생이 다음과 같은 새로운 질문을 했습니다. 문법, 어휘, 표현 등을 쉽게 풀어서 설명해주세요.
-            학생의 질문: "${userQuestion}"
-            `;
-        } else {
-            prompt = `
-            당신은 한국의 중학생들을 위한 친절하고 유능한 AI 튜터입니다.
-            학생의 질문에 대해 중학생 눈높이에 맞춰 쉽고 친절하게 답변해주세요. 이해를 돕기 위해 비유나 예시를 활용하면 좋습니다.
-            수식이 필요한 경우 반드시 LaTeX 포맷($ 또는 $$)을 사용하세요.
-            
-            ${MATH_RULE_PROMPT}
-            
-            학생은 현재 다음 성취기준에 대해 학습하고 있습니다:
-            "${standardDescription}"
-
-            당신은 이전에 학생에게 다음과 같은 초기 설명을 제공했습니다:
-            --- 초기 설명 ---
-            ${initialExplanation}
-            --------------------
-
-            지금까지 학생과의 대화 내용은 다음과 같습니다:
-            --- 대화 기록 ---
-            ${historyText}
-            --------------------
-
-            학생이 다음과 같은 새로운 질문을 했습니다.
-            학생의 질문: "${userQuestion}"
-            `;
-        }
-
-
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContentStream({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
+        const band = getGradeBand(context.grade);
+        const { text: prompt } = resolvePrompt('follow-up', context.subjectName, {
+            learner: band.learner,
+            learnerGuidance: buildLearnerGuidance(band),
+            standardDescription: context.standard.description,
+            initialExplanation,
+            historyText,
+            userQuestion,
         });
 
-        return response;
+        const onUsage = trackUsage('explanation', context.standard.id);
+        return withAiErrors(await callProviderStream((p, attemptSignal) => p.generateTextStream({ feature: 'explanation', prompt, signal: attemptSignal, onUsage }), { signal }));
     } catch (error) {
         handleApiError(error);
     }
@@ -260,271 +281,314 @@ export interface QuestionRequest {
     count: number;
 }
 
-export const generateQuestions = async (subjectName: string, standardDescription: string, requests: QuestionRequest[], difficulty: DifficultyLevel = 'medium'): Promise<QuizQuestion[]> => {
+export interface GeneratedQuiz {
+    questions: QuizQuestion[];
+    // Recorded with the quiz result so scores can be compared across prompt revisions.
+    prompt: PromptRevision;
+}
+
+const validateQuestionReply = (jsonString: string): ValidatedQuestions => {
+    let items: unknown;
     try {
-        const totalQuestions = requests.reduce((sum, req) => sum + req.count, 0);
-        if (totalQuestions === 0) {
-            return [];
-        }
+        items = parseGeneratedJson(jsonString);
+    } catch (error) {
+        console.warn("Generated quiz is not valid JSON:", error);
+        throw new AiError('invalid_response');
+    }
+    const result = validateGeneratedQuestions(items);
+    if (result.valid.length === 0) {
+        console.warn("Generated quiz has no usable questions:", result.invalid);
+        throw new AiError('invalid_response');
+    }
+    return result;
+};
 
-        const requestPrompts = requests
-            .filter(req => req.count > 0)
-            .map(req => {
-                switch (req.type) {
-                    case 'multiple-choice':
-                        return `- ${req.count}개의 객관식 문제. (5지선다)`;
-                    case 'short-answer':
-                        return `- ${req.count}개의 단답형 서술형 문제. (명확한 정답이 있는 문제)`;
-                    case 'ox':
-                        return `- ${req.count}개의 OX 퀴즈.`;
-                    case 'creativity':
-                        return `- ${req.count}개의 창의/탐구형 서술형 문제. (정답이 하나로 정해지지 않고, 학생이 성취기준을 바탕으로 논리적으로 생각하여 자신만의 답을 서술해야 하는 문제. 실생활 적용, 대안 제시, 비판적 사고 등을 요구함.)`;
-                }
-            }).join('\n');
-            
-        let difficultyPrompt = '';
-        switch (difficulty) {
-            case 'easy':
-                difficultyPrompt = '난이도: 하 (기초 개념을 확인하는 쉬운 문제)';
-                break;
-            case 'hard':
-                difficultyPrompt = '난이도: 상 (심화 사고력과 응용력을 요하는 어려운 문제)';
-                break;
-            case 'medium':
-            default:
-                difficultyPrompt = '난이도: 중 (개념 이해와 적용을 확인하는 일반적인 문제)';
-                break;
-        }
-            
-        const languageInstruction = subjectName === '영어'
-            ? '모든 텍스트(질문, 지문, 선택지, 정답, 해설)는 반드시 영어로만 작성하십시오. **필수**: `questionTranslation`, `answerTranslation`, `explanationTranslation` 필드에 각각의 한국어 번역을 반드시 포함하십시오.'
-            : '문제, 정답, 해설은 모두 한국어로 작성하십시오.';
-
-        const explanationInstruction = subjectName === '영어'
-            ? '해설(explanation)은 영어로 작성하고, 그에 대한 한국어 번역은 explanationTranslation에 작성하십시오.'
-            : '해설 포함.';
-            
-        const passageInstruction = subjectName === '영어'
-            ? '**중요**: 듣기(Listening)나 독해(Reading) 평가인 경우, 대화문(Script)이나 지문(Passage)은 반드시 `passage` 필드(영어)와 `passageTranslation` 필드(한국어)에 분리하여 작성해야 합니다. `passage` 필드에는 한글을 포함하지 마세요.'
-            : '국어 과목이나 지문이 필요한 경우 `passage` 필드에 지문을 작성하세요.';
-
-        const prompt = `
-            성취기준: "${standardDescription}"
-            위 성취기준에 근거하여 중학생 수준의 총 ${totalQuestions}개의 문제를 JSON 형식으로 생성하세요.
-            
-            난이도 설정: ${difficultyPrompt}
-            
-            요청사항:
-            ${requestPrompts}
-            
-            지침:
-            - ${languageInstruction}
-            - ${explanationInstruction}
-            - ${passageInstruction}
-            - **필수**: 객관식('multiple-choice') 문제의 경우, 반드시 4~5개의 선택지를 'options' 배열에 포함해야 합니다. 선택지가 없으면 문제가 성립되지 않습니다.
-            - **창의/탐구형 문제('creativity')의 경우**: 'answer' 필드에는 학생이 작성해야 할 모범 답안의 예시나, 채점 시 고려해야 할 핵심 평가 요소(키워드, 논리 구조 등)를 상세히 기술하세요.
-            - 문제의 난이도는 위 '난이도 설정'을 따르되, 중학생이 풀 수 있는 수준으로 맞춰주세요.
-            - 시각 자료가 문제 풀이에 결정적인 도움이 되는 경우에만 'imagePrompt'에 영어 프롬프트 작성 (없으면 빈 문자열).
-            - ${MATH_RULE_PROMPT}
-            - **JSON 문자열 내부 주의**: LaTeX를 사용할 때는 백슬래시를 이스케이프 해야 합니다. (예: "$\\frac{1}{2}$" -> "$\\\\frac{1}{2}$")
-        `;
-
-        const requiredFields = ["question", "questionType", "answer", "explanation"];
-        if (subjectName === '영어') {
-            requiredFields.push("questionTranslation", "answerTranslation", "explanationTranslation");
-        }
+// How many extra rounds may be spent re-requesting questions that failed validation.
+const MAX_QUESTION_REPAIR_ROUNDS = 1;
+
+/**
+ * Requests one batch and validates it inside the retried call, so a reply that is not JSON or
+ * holds no usable question is asked for again like a failed request.
+ */
+const requestQuestionBatch = async (context: LearningContext, requests: QuestionRequest[], difficulty: DifficultyLevel, signal?: AbortSignal): Promise<ValidatedQuestions> => {
+    const { subjectName, unitName } = context;
+    const band = getGradeBand(context.grade);
+    const totalQuestions = requests.reduce((sum, req) => sum + req.count, 0);
+
+    const requestPrompts = requests
+        .filter(req => req.count > 0)
+        .map(req => {
+            switch (req.type) {
+                case 'multiple-choice':
+                    return `- ${req.count}개의 객관식 문제. (5지선다)`;
+                case 'multiple-select':
+                    return `- ${req.count}개의 복수 정답 객관식 문제. (questionType 'multiple-select'. "알맞은 것을 모두 고르세요" 형태로, 5개의 선택지를 'options'에 작성하고 그중 정답 2~3개를 선택지와 똑같은 글자로 'answers' 배열에 작성.)`;
+                case 'short-answer':
+                    return `- ${req.count}개의 단답형 서술형 문제. (명확한 정답이 있는 문제)`;
+                case 'ox':
+                    return `- ${req.count}개의 OX 퀴즈.`;
+                case 'creativity':
+                    return `- ${req.count}개의 창의/탐구형 서술형 문제. (정답이 하나로 정해지지 않고, 학생이 성취기준을 바탕으로 논리적으로 생각하여 자신만의 답을 서술해야 하는 문제. 실생활 적용, 대안 제시, 비판적 사고 등을 요구함.)`;
+                case 'matching':
+                    return `- ${req.count}개의 짝 맞추기 문제. (questionType 'matching'. 서로 짝이 되는 항목 3~5쌍을 'pairs' 배열에 { "left": ..., "right": ... } 형태로 작성. 'right' 항목은 서로 달라야 함.)`;
+                case 'ordering':
+                    return `- ${req.count}개의 순서 정하기 문제. (questionType 'ordering'. 이야기의 사건, 과정의 단계 등 3~6개 항목을 올바른 순서대로 'sequence' 배열에 작성. 항목은 서로 달라야 함.)`;
+                case 'cloze':
+                    return `- ${req.count}개의 빈칸 채우기 문제. (questionType 'cloze'. 'question'에는 지시문, 'clozeText'에는 빈칸을 ___(밑줄 세 개)로 표시한 문장, 'blanks'에는 빈칸마다 들어갈 낱말을 순서대로 작성. 정답으로 인정할 다른 낱말은 '/'로 구분.)`;
+            }
+        }).join('\n');
+        
+    let difficultyPrompt = '';
+    switch (difficulty) {
+        case 'easy':
+            difficultyPrompt = '난이도: 하 (기초 개념을 확인하는 쉬운 문제)';
+            break;
+        case 'hard':
+            difficultyPrompt = '난이도: 상 (심화 사고력과 응용력을 요하는 어려운 문제)';
+            break;
+        case 'medium':
+        default:
+            difficultyPrompt = '난이도: 중 (개념 이해와 적용을 확인하는 일반적인 문제)';
+            break;
+    }
+
+    const { text: prompt } = resolvePrompt('quiz', subjectName, {
+        learner: band.learner,
+        learnerGuidance: buildLearnerGuidance(band),
+        questionGuidance: band.questions,
+        unitName,
+        standardDescription: context.standard.description,
+        totalQuestions,
+        difficulty: difficultyPrompt,
+        requests: requestPrompts,
+    });
+
+    const requiredFields = ["question", "questionType", "answer", "explanation"];
+    if (subjectName === '영어') {
+        requiredFields.push("questionTranslation", "answerTranslation", "explanationTranslation");
+    }
 
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            question: { type: Type.STRING },
-                            questionTranslation: { type: Type.STRING, description: "Korean translation of the question (Required for English subject)" },
-                            passage: { 
-                                type: Type.STRING,
-                                description: "The reading passage or listening script context. Required for reading/listening tasks."
-                            },
-                            passageTranslation: { type: Type.STRING, description: "Korean translation of the passage (if subject is English)" },
-                            questionType: { 
-                                type: Type.STRING,
-                                description: "Must be exactly one of: 'multiple-choice', 'short-answer', 'ox', 'creativity'"
-                            },
-                            options: {
-                                type: Type.ARRAY,
-                                items: { type: Type.STRING },
-                                description: "Required for multiple-choice questions. Must include 4-5 options."
-                            },
-                            optionsTranslation: {
-                                type: Type.ARRAY,
-                                items: { type: Type.STRING },
-                                description: "Korean translations of the options (if subject is English)"
-                            },
-                            answer: { type: Type.STRING, description: "Correct answer or model answer key for creativity questions." },
-                            answerTranslation: { type: Type.STRING, description: "Korean translation of the answer (if subject is English)" },
-                            explanation: { type: Type.STRING },
-                            explanationTranslation: { type: Type.STRING, description: "Korean translation of the explanation (if subject is English)" },
-                            imagePrompt: { 
-                                type: Type.STRING,
-                                description: 'Concise English prompt for image generation. Empty if not needed.'
-                            },
+    return callProvider(async (p, attemptSignal) => validateQuestionReply(await p.generateJson({
+        feature: 'quiz',
+        prompt,
+        signal: attemptSignal,
+        onUsage: trackUsage('quiz', context.standard.id),
+        schema: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    question: { type: 'string' },
+                    questionTranslation: { type: 'string', description: "Korean translation of the question (Required for English subject)" },
+                    passage: { 
+                        type: 'string',
+                        description: "The reading passage or listening script context. Required for reading/listening tasks."
+                    },
+                    passageTranslation: { type: 'string', description: "Korean translation of the passage (if subject is English)" },
+                    questionType: { 
+                        type: 'string',
+                        description: "Must be exactly one of: 'multiple-choice', 'multiple-select', 'short-answer', 'ox', 'creativity', 'matching', 'ordering', 'cloze'"
+                    },
+                    options: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: "Required for multiple-choice and multiple-select questions. Must include 4-5 options."
+                    },
+                    answers: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: "Required for multiple-select questions: every correct option, copied exactly from 'options'.",
+                    },
+                    optionsTranslation: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: "Korean translations of the options (if subject is English)"
+                    },
+                    pairs: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: { left: { type: 'string' }, right: { type: 'string' } },
+                            required: ['left', 'right'],
                         },
-                        required: requiredFields,
+                        description: "Required for matching questions: the items that go together.",
+                    },
+                    sequence: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: "Required for ordering questions: the items in the correct order.",
+                    },
+                    clozeText: { type: 'string', description: "Required for cloze questions: the text with each blank written as ___." },
+                    blanks: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: "Required for cloze questions: the word for each blank, in order.",
+                    },
+                    answer: { type: 'string', description: "Correct answer or model answer key for creativity questions. For multiple-select, matching, ordering and cloze, a short summary of the key." },
+                    answerTranslation: { type: 'string', description: "Korean translation of the answer (if subject is English)" },
+                    explanation: { type: 'string' },
+                    explanationTranslation: { type: 'string', description: "Korean translation of the explanation (if subject is English)" },
+                    hints: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: "2-3 graduated hints, from a gentle nudge to a clear direction. None may state the answer.",
+                    },
+                    imagePrompt: { 
+                        type: 'string',
+                        description: 'Concise English prompt for image generation. Empty if not needed.'
                     },
                 },
-                thinkingConfig: { thinkingBudget: 0 },
+                required: requiredFields,
             },
-        });
+        },
+    })), { timeoutMs: QUIZ_TIMEOUT_MS, signal });
+};
 
-        const jsonString = response.text;
-        const questionsWithPrompts = JSON.parse(jsonString) as (QuizQuestion & { imagePrompt?: string })[];
+export const generateQuestions = async (context: LearningContext, requests: QuestionRequest[], difficulty: DifficultyLevel = 'medium', signal?: AbortSignal): Promise<GeneratedQuiz> => {
+    try {
+        const prompt = getPromptRevision('quiz', context.subjectName);
+        const totalQuestions = requests.reduce((sum, req) => sum + req.count, 0);
+        if (totalQuestions === 0) {
+            return { questions: [], prompt };
+        }
+
+        const questions: GeneratedQuestion[] = [];
+        let pending = requests.filter(req => req.count > 0);
+
+        for (let round = 0; round <= MAX_QUESTION_REPAIR_ROUNDS && pending.length > 0; round++) {
+            let batch: ValidatedQuestions;
+            try {
+                batch = await requestQuestionBatch(context, pending, difficulty, signal);
+            } catch (error) {
+                // A repair round that still fails keeps what the first round produced.
+                if (round > 0 && classifyAiError(error) === 'invalid_response') break;
+                throw error;
+            }
+            const { valid, invalid } = batch;
+            if (invalid.length > 0) {
+                console.warn("Discarded invalid generated questions:", invalid);
+            }
+
+            // Keep at most the requested number per type, then re-request only what is missing.
+            pending = pending.map(req => {
+                const accepted = valid.filter(q => q.questionType === req.type).slice(0, req.count);
+                questions.push(...accepted);
+                return { type: req.type, count: req.count - accepted.length };
+            }).filter(req => req.count > 0);
+        }
+
+        if (questions.length === 0) {
+            throw new AiError('invalid_response', "생성된 문제 형식이 올바르지 않습니다.");
+        }
+
+        // Restore the requested type order after repair rounds appended items.
+        const typeOrder = requests.map(req => req.type);
+        questions.sort((a, b) => typeOrder.indexOf(a.questionType) - typeOrder.indexOf(b.questionType));
 
         const questionsWithImages = await Promise.all(
-            questionsWithPrompts.map(async (q) => {
-                if (q.imagePrompt && q.imagePrompt.trim() !== '') {
-                    const imageBase64 = await generateIllustration(q.imagePrompt);
+            questions.map(async ({ imagePrompt, ...q }) => {
+                if (imagePrompt && imagePrompt.trim() !== '') {
+                    const imageBase64 = await generateIllustration(imagePrompt, context.grade, signal, context.standard.id);
                     return { ...q, imageBase64: imageBase64 || undefined };
                 }
                 return q;
             })
         );
-        
-        return questionsWithImages as QuizQuestion[];
+        // Illustration failures are swallowed, so a stop during that phase is only visible here.
+        signal?.throwIfAborted();
+
+        return { questions: questionsWithImages, prompt };
 
     } catch (error) {
         handleApiError(error);
     }
 };
 
-export const evaluateShortAnswer = async (question: string, correctAnswer: string, userAnswer: string): Promise<ShortAnswerEvaluation> => {
+export const evaluateShortAnswer = async (
+    question: string,
+    correctAnswer: string,
+    userAnswer: string,
+    grade?: string,
+    signal?: AbortSignal,
+    standardId?: string
+): Promise<ShortAnswerEvaluation> => {
     try {
-        const prompt = `
-        You are a strict but fair teacher grading a middle school student's answer.
-        
-        Question: "${question}"
-        Model/Correct Answer: "${correctAnswer}"
-        Student's Answer: "${userAnswer}"
+        const band = getGradeBand(grade);
+        const { text: prompt } = resolvePrompt('grading', undefined, {
+            learner: band.learner,
+            gradingStrictness: band.grading,
+            question,
+            correctAnswer,
+            userAnswer,
+        });
 
-        Please evaluate the student's answer and assign a grade.
-        
-        **Grading Criteria:**
-        - If the question is a factual/short-answer question, compare with the correct answer for accuracy.
-        - If the question is a **Creativity/Open-ended (창의/탐구형)** question, evaluate based on:
-          1. **Logic**: Is the answer logically sound and coherent?
-          2. **Relevance**: Does it address the question provided?
-          3. **Creativity**: Does it show original thinking or good application of concepts?
-          (Note: For creativity questions, the 'Model Answer' is just a guide/example. Do not penalize for being different if the student's answer is logical and high-quality.)
-
-        **Grade Scale:**
-        - Grade 'A': Excellent. Accurate/Creative/Logical (100% points).
-        - Grade 'B': Good. Mostly accurate or logical but misses minor details (75% points).
-        - Grade 'C': Fair. Captures keywords or basic logic but lacks completeness (50% points).
-        - Grade 'D': Poor. Misses key points or logic is weak (25% points).
-        - Grade 'E': Incorrect/Irrelevant (0% points).
-
-        Provide a brief, encouraging feedback explaining why this grade was given (in Korean).
-        `;
-
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        grade: { type: Type.STRING, enum: ["A", "B", "C", "D", "E"] },
-                        feedback: { type: Type.STRING },
-                    },
-                    required: ["grade", "feedback"],
+        const jsonString = await callProvider((p, attemptSignal) => p.generateJson({
+            feature: 'grading',
+            prompt,
+            signal: attemptSignal,
+            onUsage: trackUsage('grading', standardId),
+            schema: {
+                type: 'object',
+                properties: {
+                    grade: { type: 'string', enum: ["A", "B", "C", "D", "E"] },
+                    feedback: { type: 'string' },
                 },
+                required: ["grade", "feedback"],
             },
-        });
+        }), { signal });
 
-        return JSON.parse(response.text) as ShortAnswerEvaluation;
+        return JSON.parse(jsonString) as ShortAnswerEvaluation;
     } catch (error) {
-        console.error("Evaluation error:", error);
-        throw new Error("AI 채점 중 오류가 발생했습니다.");
+        handleApiError(error);
     }
 };
 
-export const generateSpeech = async (textToSpeak: string, voice: TTSVoice): Promise<string> => {
+export const generateSpeech = async (textToSpeak: string, voice: TTSVoice, signal?: AbortSignal, standardId?: string): Promise<string> => {
+    if (isDailyBudgetExceeded()) {
+        throw new AiError('budget');
+    }
     try {
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: textToSpeak }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: voice },
-                    },
-                },
-            },
-        });
-        
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (!base64Audio) {
-            throw new Error("API로부터 오디오 데이터를 받지 못했습니다.");
-        }
-        return base64Audio;
+        const onUsage = trackUsage('speech', standardId);
+        return await callProvider((p, attemptSignal) => p.generateSpeech({ feature: 'speech', text: textToSpeak, voice, signal: attemptSignal, onUsage }), { signal });
     } catch (error) {
         handleApiError(error);
     }
 };
 
-export const generateLearningDiagnosis = async (history: QuizResult[]): Promise<string> => {
+export const generateLearningDiagnosis = async (history: QuizResult[], signal?: AbortSignal): Promise<string> => {
     try {
         if (!history || history.length === 0) {
             return "아직 분석할 학습 기록이 충분하지 않습니다. 문제를 풀고 다시 시도해주세요!";
         }
 
-        // Use up to 50 most recent records to stay within context context, though flash models have large context.
-        // Let's pass simplified data to the model.
-        const recentHistory = history.slice(-50).reverse(); // Newest first
-        
-        const historyText = recentHistory.map((h, idx) => {
-             const date = new Date(h.date).toLocaleDateString();
-             return `${idx+1}. [${date}] 과목: ${h.subject}, 내용: ${h.standardDescription || h.standardId}, 점수: ${Math.round(h.score)}점`;
-        }).join('\n');
+        // One line per standard with its mastery estimate, rather than a raw list of scores.
+        const latestByStandard = new Map(history.map(h => [h.standardId, h]));
+        const masteryText = [...computeMastery(history).values()]
+            .sort((a, b) => b.lastStudied.localeCompare(a.lastStudied))
+            .map((m, idx) => {
+                const h = latestByStandard.get(m.standardId)!;
+                const unit = h.unitName ? `, 단원: ${h.unitName}` : '';
+                const date = new Date(m.lastStudied).toLocaleDateString();
+                return `${idx+1}. 과목: ${h.subject}${unit}, 내용: ${h.standardDescription || h.standardId}, 숙달도: ${MASTERY_LEVEL_LABELS[m.level]} (추정 정답률 ${Math.round(m.estimate * 100)}%), 학습 ${m.attempts}회, 마지막 학습 ${date}`;
+            }).join('\n');
 
-        const prompt = `
-        당신은 학생의 자기주도학습을 돕는 다정하고 예리한 'AI 학습 코치'입니다.
-        아래 제공된 학생의 학습 이력을 분석하여, 학생에게 도움이 되는 **학습 진단 리포트**를 작성해주세요.
-
-        **학생의 학습 이력 (최신순):**
-        ${historyText}
-
-        **리포트 작성 가이드라인:**
-        1. **인사 및 총평**: 학생의 전반적인 노력(학습 빈도, 시도 횟수 등)을 칭찬하며 따뜻하게 시작하세요.
-        2. **강점 발견**: 성취도가 높거나 꾸준히 학습한 과목/단원을 찾아 구체적으로 칭찬해주세요.
-        3. **취약점 및 보완 제안**: 상대적으로 점수가 낮거나 기복이 심한 부분이 있다면, 질책보다는 격려와 함께 구체적인 복습 방법(예: 개념 재확인, 오답 노트 등)을 제안해주세요.
-        4. **맞춤형 학습 전략**: 앞으로 어떤 과목이나 단원에 집중하면 좋을지, 어떤 태도로 임하면 좋을지 실질적인 조언을 해주세요.
-        5. **마무리**: 할 수 있다는 자신감을 불어넣어 주는 응원의 말로 마무리하세요.
-
-        **형식 및 어조:**
-        - **마크다운(Markdown)** 형식을 사용하여 가독성 있게 작성하세요 (소제목 볼드체, 리스트 활용).
-        - 중학생에게 말하듯 **친근하고 존중하는 해요체**를 사용하세요.
-        - 이모지(😊, 📚, ✨ 등)를 적절히 사용하여 딱딱하지 않게 표현해주세요.
-        `;
-
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
+        const days = new Set(history.map(h => new Date(h.date).toDateString())).size;
+        const firstDate = new Date(history[0].date).toLocaleDateString();
+        const activityText = `${firstDate}부터 ${days}일 동안 퀴즈 ${history.length}회, 성취기준 ${latestByStandard.size}개를 학습했습니다.`;
+        // Address the student at the level they are currently studying.
+        const band = getGradeBand([...history].reverse().find(h => h.grade)?.grade);
+
+        const { text: prompt } = resolvePrompt('diagnosis', undefined, {
+            learner: band.learner,
+            vocabulary: band.vocabulary,
+            masteryText,
+            activityText,
         });
+
+        const text = await callProvider((p, attemptSignal) => p.generateText({ feature: 'diagnosis', prompt, signal: attemptSignal, onUsage: trackUsage('diagnosis') }), { signal });
         
-        return response.text || "진단 리포트를 생성하지 못했습니다.";
+        return text || "진단 리포트를 생성하지 못했습니다.";
     } catch (error) {
-        console.error("Diagnosis generation error:", error);
-        throw new Error("리포트를 생성하는 중 오류가 발생했습니다.");
+        handleApiError(error);
     }
 };
@@ -0,0 +1,102 @@
+// Grade-band profiles used to pitch AI prompts at the learner's level.
+// The band is parsed from curriculum grade labels such as "초등학교 1~2학년".
+
+export type GradeBandId = 'elementary-lower' | 'elementary-middle' | 'elementary-upper' | 'middle' | 'high';
+
+export interface GradeBand {
+    id: GradeBandId;
+    // Who the prompts address, e.g. "초등학교 1~2학년 학생".
+    learner: string;
+    vocabulary: string;
+    sentences: string;
+    examples: string;
+    // Target length of the main explanation.
+    explanationLength: string;
+    questions: string;
+    grading: string;
+    // English phrase for image prompts, e.g. "a picture book for 7-8 year olds".
+    illustrationAudience: string;
+}
+
+const GRADE_BANDS: Record<GradeBandId, Omit<GradeBand, 'id' | 'learner'>> = {
+    'elementary-lower': {
+        vocabulary: '받침이 적고 일상에서 자주 쓰는 쉬운 낱말만 사용하고, 한자어·전문 용어는 쓰지 마세요. 꼭 필요한 용어는 "~라는 말은 ~라는 뜻이에요"처럼 풀어 주세요.',
+        sentences: '한 문장은 15자 안팎으로 아주 짧게 쓰고, 한 문장에는 한 가지 생각만 담으세요.',
+        examples: '가족, 학교, 놀이, 간식처럼 아이가 직접 보고 만질 수 있는 것으로 예를 드세요. 수는 10~20 이내로 작게 쓰세요.',
+        explanationLength: '200자 내외',
+        questions: '한 번에 한 가지만 묻는 짧은 문제로 내고, 지문과 선택지도 짧게 쓰세요. 함정이나 복잡한 조건은 넣지 마세요.',
+        grading: '맞춤법이나 띄어쓰기, 표현이 서툴러도 핵심 생각이 맞으면 정답으로 인정하세요. 아주 너그럽게 채점하고 칭찬을 먼저 해 주세요.',
+        illustrationAudience: 'a picture book for 7-8 year old children, with simple shapes and very few elements',
+    },
+    'elementary-middle': {
+        vocabulary: '쉬운 낱말을 중심으로 쓰고, 교과서에 나오는 기본 용어는 쓰되 처음 나올 때 뜻을 풀어 주세요.',
+        sentences: '한 문장은 25자 안팎으로 짧게 쓰고, 어려운 접속 표현은 피하세요.',
+        examples: '학교생활, 동네, 자연 관찰처럼 친숙한 경험으로 예를 드세요. 수는 세 자리 수 이내로 쓰세요.',
+        explanationLength: '300자 내외',
+        questions: '기본 개념을 확인하는 문제를 중심으로, 두 단계 이상의 추론은 최소화하세요.',
+        grading: '핵심 낱말이나 생각이 들어 있으면 부분 점수를 넉넉히 주세요. 표현의 정확성보다 이해했는지를 보세요.',
+        illustrationAudience: 'an elementary school textbook for 9-10 year olds',
+    },
+    'elementary-upper': {
+        vocabulary: '교과서 수준의 용어를 사용하되, 새 용어는 쉬운 말로 한 번 더 설명하세요.',
+        sentences: '문장은 간결하게 쓰고, 긴 설명은 여러 문장으로 나누세요.',
+        examples: '실생활 상황과 간단한 실험·조사 활동으로 예를 드세요.',
+        explanationLength: '400자 내외',
+        questions: '개념 이해와 간단한 적용을 묻고, 심화 문제도 초등학교 교과 범위를 넘지 않게 하세요.',
+        grading: '핵심 개념이 정확하면 표현이 다소 부족해도 높은 등급을 주세요. 근거가 있는 답을 존중하세요.',
+        illustrationAudience: 'an elementary school textbook for 11-12 year olds',
+    },
+    middle: {
+        vocabulary: '어려운 전문 용어 대신 쉬운 단어를 사용하고, 필요한 용어는 정확하게 정의하세요.',
+        sentences: '개념이 드러나도록 논리적인 순서로 간결하게 쓰세요.',
+        examples: '실생활 예시와 교과 간 연결을 활용하세요.',
+        explanationLength: '400자 내외',
+        questions: '개념 이해, 적용, 간단한 분석을 고르게 묻되 중학생이 풀 수 있는 수준으로 맞추세요.',
+        grading: '정확성과 논리를 함께 보되, 사소한 표현 실수는 감점하지 마세요.',
+        illustrationAudience: 'a middle school textbook',
+    },
+    high: {
+        vocabulary: '교과 전문 용어를 정확하게 사용하세요.',
+        sentences: '논리적 흐름을 갖춘 문장으로 명료하게 쓰세요.',
+        examples: '실생활 사례와 함께 심화·응용 사례를 제시하세요.',
+        explanationLength: '500자 내외',
+        questions: '개념 이해를 넘어 분석·추론·적용을 요구하는 문제를 포함하세요.',
+        grading: '개념의 정확성, 논리의 완결성, 근거 제시를 엄격하게 평가하세요.',
+        illustrationAudience: 'a high school textbook',
+    },
+};
+
+const SCHOOL_LABELS: Record<string, string> = {
+    '초등학교': 'elementary',
+    '중학교': 'middle',
+    '고등학교': 'high',
+};
+
+// Grade labels that cannot be parsed keep the app's original middle-school pitch.
+const FALLBACK_BAND: GradeBandId = 'middle';
+
+const toBandId = (school: string, lowestGrade: number): GradeBandId => {
+    if (school === 'elementary') {
+        if (lowestGrade <= 2) return 'elementary-lower';
+        if (lowestGrade <= 4) return 'elementary-middle';
+        return 'elementary-upper';
+    }
+    return school === 'high' ? 'high' : 'middle';
+};
+
+export const getGradeBand = (grade?: string): GradeBand => {
+    const match = grade?.match(/(초등학교|중학교|고등학교)\s*(\d)(?:\s*~\s*\d)?\s*학년/);
+    if (!grade || !match) {
+        return { id: FALLBACK_BAND, learner: '중학생', ...GRADE_BANDS[FALLBACK_BAND] };
+    }
+    const id = toBandId(SCHOOL_LABELS[match[1]], Number(match[2]));
+    return { id, learner: `${grade.trim()} 학생`, ...GRADE_BANDS[id] };
+};
+
+/** Prompt section describing how to write for the learner's grade band. */
+export const buildLearnerGuidance = (band: GradeBand): string => `
+**[학습자 수준 맞춤 - ${band.learner}]**
+- 어휘: ${band.vocabulary}
+- 문장: ${band.sentences}
+- 예시: ${band.examples}
+`;
@@ -0,0 +1,128 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Schema changes are appended to MIGRATIONS; DB_VERSION follows its length.
+
+const DB_NAME = 'ai-sdl-e';
+
+export const STORES = {
+    contentCache: 'contentCache',
+    studyHistory: 'studyHistory',
+    quizImages: 'quizImages',
+    classRoster: 'classRoster',
+    questionBank: 'questionBank',
+    reviewQueue: 'reviewQueue',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// MIGRATIONS[n] upgrades a database at version n to version n + 1. Never edit a shipped step.
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+    db => {
+        db.createObjectStore(STORES.contentCache, { keyPath: 'key' });
+    },
+    db => {
+        const history = db.createObjectStore(STORES.studyHistory, { keyPath: 'id' });
+        history.createIndex('date', 'date');
+        // Question images are kept apart so listing the history never loads megabytes of base64.
+        const images = db.createObjectStore(STORES.quizImages, { keyPath: 'key' });
+        images.createIndex('resultId', 'resultId');
+    },
+    (_db, transaction) => {
+        const history = transaction.objectStore(STORES.studyHistory);
+        history.createIndex('profileId', 'profileId');
+        // Results saved before learner profiles existed belong to the default profile.
+        const cursorRequest = history.openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            cursor.update({ ...cursor.value, profileId: 'default' });
+            cursor.continue();
+        };
+    },
+    db => {
+        db.createObjectStore(STORES.classRoster, { keyPath: 'id' });
+    },
+    db => {
+        const bank = db.createObjectStore(STORES.questionBank, { keyPath: 'id' });
+        bank.createIndex('standardId', 'standardId');
+    },
+    db => {
+        const queue = db.createObjectStore(STORES.reviewQueue, { keyPath: 'id' });
+        queue.createIndex('profileId', 'profileId');
+    },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => {
+    for (let version = oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, transaction);
+    }
+};
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+/** True for the errors browsers raise when the origin's storage quota is used up. */
+export const isQuotaExceededError = (error: unknown): boolean =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (!isIndexedDbAvailable()) {
+                reject(new Error("이 브라우저는 IndexedDB를 지원하지 않습니다."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = event => upgrade(request.result, request.transaction!, event.oldVersion);
+            request.onsuccess = () => {
+                const db = request.result;
+                // Another tab upgraded the schema; reopen lazily on the next call.
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => reject(request.error);
+        }).catch(error => {
+            dbPromise = null;
+            throw error;
+        });
+    }
+    return dbPromise;
+};
+
+export const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Runs `work` inside a single transaction over `storeNames` and resolves with its result
+ * once the transaction commits, so callers never observe half-applied writes.
+ */
+export const withTransaction = async <T,>(
+    storeNames: StoreName[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeNames, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await work(transaction);
+    await done;
+    return result;
+};
+
+export const withStore = <T,>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => withTransaction([storeName], mode, transaction => work(transaction.objectStore(storeName)));
@@ -0,0 +1,101 @@
+import type { DifficultyLevel, MasteryLevel, QuestionType, QuizResult, StandardMastery } from '../types.ts';
+
+// Mastery per achievement standard from per-question evidence rather than quiz averages.
+// Every answer is weighted by how much it says (an OX answer is a coin flip for a guesser; a
+// missed easy question says more than a missed hard one) and by how recent it is, and the
+// weighted counts update a Beta(1, 1) prior, so one lucky quiz cannot reach mastery alone.
+
+const QUESTION_TYPE_WEIGHTS: Record<QuestionType, number> = {
+    'ox': 0.5,
+    'multiple-choice': 0.8,
+    'multiple-select': 0.9,
+    'short-answer': 1,
+    'creativity': 1,
+    // Partial credit per pair, position or blank makes these close to written answers.
+    'matching': 0.8,
+    'ordering': 0.8,
+    'cloze': 1,
+};
+
+// A correct answer counts this much more, and a miss this much less, at each difficulty.
+const DIFFICULTY_WEIGHTS: Record<DifficultyLevel, number> = {
+    easy: 0.8,
+    medium: 1,
+    hard: 1.25,
+};
+
+// Evidence loses half its weight every this many days, so recent answers dominate.
+const RECENCY_HALF_LIFE_DAYS = 21;
+const PRIOR_CORRECT = 1;
+const PRIOR_TOTAL = 2;
+// Mastery needs a high estimate and enough weighted answers behind it.
+const MASTERED_ESTIMATE = 0.8;
+const MASTERED_MIN_EVIDENCE = 6;
+const DEVELOPING_ESTIMATE = 0.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toLevel = (estimate: number, evidence: number): MasteryLevel => {
+    if (estimate >= MASTERED_ESTIMATE && evidence >= MASTERED_MIN_EVIDENCE) return 'mastered';
+    if (estimate >= DEVELOPING_ESTIMATE) return 'developing';
+    return 'learning';
+};
+
+interface Evidence {
+    correct: number;
+    total: number;
+}
+
+const resultEvidence = (result: QuizResult, now: Date): Evidence => {
+    const ageDays = Math.max(0, (now.getTime() - new Date(result.date).getTime()) / DAY_MS);
+    const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+
+    // Records saved before per-question details only have a score; read it as multiple choice.
+    if (!result.questions || !result.correctness) {
+        const difficulty = DIFFICULTY_WEIGHTS[result.difficulty || 'medium'];
+        const weight = QUESTION_TYPE_WEIGHTS['multiple-choice'] * recency * result.totalQuestions;
+        const fraction = result.score / 100;
+        const correct = weight * fraction * difficulty;
+        return { correct, total: correct + weight * (1 - fraction) / difficulty };
+    }
+
+    return result.questions.reduce<Evidence>((sum, question, index) => {
+        const isCorrect = result.correctness?.[index];
+        if (isCorrect === null || isCorrect === undefined) return sum;
+        const difficulty = DIFFICULTY_WEIGHTS[result.questionDifficulties?.[index] || result.difficulty || 'medium'];
+        // Older or imported records may carry a type with no weight; they count like multiple choice.
+        const typeWeight = QUESTION_TYPE_WEIGHTS[question.questionType] ?? QUESTION_TYPE_WEIGHTS['multiple-choice'];
+        const weight = typeWeight * recency * (isCorrect ? difficulty : 1 / difficulty);
+        return { correct: sum.correct + (isCorrect ? weight : 0), total: sum.total + weight };
+    }, { correct: 0, total: 0 });
+};
+
+/** Mastery of every standard the history touches, keyed by standard id. */
+export const computeMastery = (history: QuizResult[], now: Date = new Date()): Map<string, StandardMastery> => {
+    const byStandard = new Map<string, QuizResult[]>();
+    history.forEach(result => {
+        byStandard.set(result.standardId, [...(byStandard.get(result.standardId) || []), result]);
+    });
+
+    const mastery = new Map<string, StandardMastery>();
+    byStandard.forEach((results, standardId) => {
+        const evidence = results.reduce<Evidence>((sum, result) => {
+            const { correct, total } = resultEvidence(result, now);
+            return { correct: sum.correct + correct, total: sum.total + total };
+        }, { correct: 0, total: 0 });
+        const estimate = (PRIOR_CORRECT + evidence.correct) / (PRIOR_TOTAL + evidence.total);
+        mastery.set(standardId, {
+            standardId,
+            estimate,
+            evidence: evidence.total,
+            level: toLevel(estimate, evidence.total),
+            attempts: results.length,
+            lastStudied: results.reduce((latest, result) => result.date > latest ? result.date : latest, ''),
+        });
+    });
+    return mastery;
+};
+
+/** Mean estimate over the given standards as a 0-100 score, for subject and unit summaries. */
+export const averageMastery = (items: StandardMastery[]): number =>
+    items.length > 0 ? (items.reduce((sum, item) => sum + item.estimate, 0) / items.length) * 100 : 0;
@@ -0,0 +1,238 @@
+// Equivalence checking for numeric answers, so `1/2`, `0.5`, `$\frac{1}{2}$`, `2분의 1` and
+// `2/4` all count as the same answer. Answers are read from LaTeX (as MathInput produces)
+// or plain text, reduced to a number with an optional unit, and compared by value.
+// Anything that is not a single number or simple expression is left to human or AI grading.
+
+export interface MathAnswer {
+    value: number;
+    // Normalized unit symbol, e.g. 'cm²'; absent for bare numbers.
+    unit?: string;
+    // Accepted distance from `value`, in the answer's own unit; set by `±` or an approximate key.
+    tolerance?: number;
+}
+
+interface UnitInfo {
+    // Units of one dimension convert into each other; count words only match themselves.
+    dimension: string;
+    factor: number;
+}
+
+const UNITS: Record<string, UnitInfo> = {
+    'mm': { dimension: 'length', factor: 0.001 },
+    'cm': { dimension: 'length', factor: 0.01 },
+    'm': { dimension: 'length', factor: 1 },
+    'km': { dimension: 'length', factor: 1000 },
+    'mm²': { dimension: 'area', factor: 1e-6 },
+    'cm²': { dimension: 'area', factor: 1e-4 },
+    'm²': { dimension: 'area', factor: 1 },
+    'km²': { dimension: 'area', factor: 1e6 },
+    'cm³': { dimension: 'volume', factor: 1e-6 },
+    'm³': { dimension: 'volume', factor: 1 },
+    'mL': { dimension: 'volume', factor: 1e-6 },
+    'L': { dimension: 'volume', factor: 1e-3 },
+    'mg': { dimension: 'mass', factor: 0.001 },
+    'g': { dimension: 'mass', factor: 1 },
+    'kg': { dimension: 'mass', factor: 1000 },
+    't': { dimension: 'mass', factor: 1e6 },
+    '°': { dimension: 'angle', factor: 1 },
+    '%': { dimension: 'percent', factor: 1 },
+    '초': { dimension: 'time', factor: 1 },
+    '분': { dimension: 'time', factor: 60 },
+    '시간': { dimension: 'time', factor: 3600 },
+    '일': { dimension: 'time', factor: 86400 },
+};
+
+// Other spellings of the units above.
+const UNIT_ALIASES: Record<string, string> = {
+    'cm^2': 'cm²', 'cm2': 'cm²', '㎠': 'cm²', 'm^2': 'm²', 'm2': 'm²', '㎡': 'm²',
+    'mm^2': 'mm²', 'mm2': 'mm²', 'km^2': 'km²', 'km2': 'km²',
+    'cm^3': 'cm³', 'cm3': 'cm³', '㎤': 'cm³', 'm^3': 'm³', 'm3': 'm³',
+    'ml': 'mL', '㎖': 'mL', 'l': 'L', 'ℓ': 'L',
+    '㎜': 'mm', '㎝': 'cm', '㎞': 'km', '㎏': 'kg', '㎎': 'mg',
+    '도': '°', '퍼센트': '%', '프로': '%', '톤': 't',
+};
+
+// Counting words that end an answer; compared as-is.
+const COUNT_WORDS = ['개', '명', '원', '살', '권', '자루', '장', '마리', '대', '송이', '번', '배', '쪽', '칸', '줄', '묶음', '상자', '층', '시', '년', '월', '주'];
+
+const UNIT_SUFFIXES = [...Object.keys(UNITS), ...Object.keys(UNIT_ALIASES), ...COUNT_WORDS]
+    .sort((a, b) => b.length - a.length);
+
+// Default closeness for exact answers, to absorb floating point error only.
+const EPSILON = 1e-9;
+
+// Innermost LaTeX groups first, so nested fractions unwrap from the inside out.
+const LATEX_FRACTION = /\\frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/;
+const LATEX_SQRT = /\\sqrt\s*\{([^{}]*)\}/;
+const LATEX_TEXT = /\\(?:text|mathrm|textrm|operatorname)\s*\{([^{}]*)\}/;
+
+const replaceRepeatedly = (text: string, pattern: RegExp, replace: (...groups: string[]) => string) => {
+    let result = text;
+    for (let match = result.match(pattern); match; match = result.match(pattern)) {
+        result = result.replace(pattern, (_, ...groups: string[]) => replace(...groups));
+    }
+    return result;
+};
+
+const latexToPlain = (text: string): string => {
+    let result = text
+        .replace(/\\[()[\]]/g, '')
+        .replace(/\$/g, '')
+        .replace(/\\left|\\right/g, '')
+        .replace(/\\[dt]frac/g, '\\frac')
+        // A whole number right before a fraction is a mixed number: 2\frac{1}{2} is 2½.
+        .replace(/(\d)\s*\\frac/g, '$1+\\frac');
+    result = replaceRepeatedly(result, LATEX_TEXT, content => content);
+    result = replaceRepeatedly(result, LATEX_FRACTION, (top, bottom) => `((${top})/(${bottom}))`);
+    result = replaceRepeatedly(result, LATEX_SQRT, content => `sqrt(${content})`);
+    return result
+        .replace(/\^\s*\{?\\circ\}?/g, '°')
+        .replace(/\\(?:times|cdot)/g, '*')
+        .replace(/\\div/g, '/')
+        .replace(/\\%/g, '%')
+        .replace(/\\pm/g, '±')
+        .replace(/\\approx/g, '≈')
+        .replace(/\\[,;:! ]/g, ' ')
+        .replace(/\{/g, '(')
+        .replace(/\}/g, ')');
+};
+
+/** Evaluates + - * / ^, parentheses and sqrt(); null for anything else. */
+const evaluate = (expression: string): number | null => {
+    const tokens = expression.match(/\d+(?:\.\d+)?|\.\d+|sqrt|[-+*/^()]/g);
+    if (!tokens || tokens.join('') !== expression.replace(/\s+/g, '')) return null;
+    let position = 0;
+
+    const parseSum = (): number | null => {
+        let value = parseProduct();
+        while (value !== null && (tokens[position] === '+' || tokens[position] === '-')) {
+            const operator = tokens[position++];
+            const right = parseProduct();
+            if (right === null) return null;
+            value = operator === '+' ? value + right : value - right;
+        }
+        return value;
+    };
+    const parseProduct = (): number | null => {
+        let value = parsePower();
+        while (value !== null && (tokens[position] === '*' || tokens[position] === '/')) {
+            const operator = tokens[position++];
+            const right = parsePower();
+            if (right === null) return null;
+            value = operator === '*' ? value * right : value / right;
+        }
+        return value;
+    };
+    const parsePower = (): number | null => {
+        const base = parseUnary();
+        if (base === null || tokens[position] !== '^') return base;
+        position++;
+        const exponent = parsePower();
+        return exponent === null ? null : Math.pow(base, exponent);
+    };
+    const parseUnary = (): number | null => {
+        if (tokens[position] === '-') {
+            position++;
+            const value = parseUnary();
+            return value === null ? null : -value;
+        }
+        if (tokens[position] === '+') position++;
+        return parseAtom();
+    };
+    const parseAtom = (): number | null => {
+        const token = tokens[position++];
+        if (token === undefined) return null;
+        if (token === 'sqrt') {
+            if (tokens[position] !== '(') return null;
+            const value = parseAtom();
+            return value === null ? null : Math.sqrt(value);
+        }
+        if (token === '(') {
+            const value = parseSum();
+            return tokens[position++] === ')' ? value : null;
+        }
+        const value = Number(token);
+        return Number.isNaN(value) ? null : value;
+    };
+
+    const value = parseSum();
+    return value !== null && position === tokens.length && Number.isFinite(value) ? value : null;
+};
+
+const splitUnit = (text: string): { expression: string; unit?: string } => {
+    const suffix = UNIT_SUFFIXES.find(unit => text.endsWith(unit) && !/[a-zA-Z]/.test(text.charAt(text.length - unit.length - 1)));
+    if (!suffix) return { expression: text };
+    return { expression: text.slice(0, -suffix.length).trim(), unit: UNIT_ALIASES[suffix] || suffix };
+};
+
+// Places after the decimal point, for the rounding an approximate key implies.
+const decimalPlaces = (text: string) => text.match(/\.(\d+)/)?.[1].length ?? 0;
+
+/** Reads an answer as a number with an optional unit, or null if it is not one. */
+export const parseMathAnswer = (text: string | null | undefined): MathAnswer | null => {
+    if (!text || !text.trim()) return null;
+    let plain = latexToPlain(text.trim())
+        .replace(/×/g, '*')
+        .replace(/÷/g, '/')
+        .replace(/[−–]/g, '-')
+        .replace(/^(?:답|정답)\s*[:：]?\s*/, '')
+        .replace(/\s*(?:입니다|이에요|예요|이다|다)?\s*[.。]?$/, '')
+        .trim();
+    // "x = 3", "□ = 3": the value is what comes last.
+    if (plain.includes('=')) plain = plain.slice(plain.lastIndexOf('=') + 1).trim();
+
+    const isApproximate = /^(?:약|≈)/.test(plain) || /(?:쯤|정도)$/.test(plain);
+    plain = plain.replace(/^(?:약|≈)\s*/, '').replace(/\s*(?:쯤|정도)$/, '');
+
+    let tolerance: number | undefined;
+    const [main, spread] = plain.split('±');
+    if (spread !== undefined) {
+        const spreadValue = evaluate(splitUnit(spread.trim()).expression);
+        if (spreadValue === null) return null;
+        tolerance = Math.abs(spreadValue);
+    }
+
+    const { expression: rawExpression, unit } = splitUnit(main.trim());
+    const expression = rawExpression
+        // Korean fractions: "2분의 1" is 1/2.
+        .replace(/(\d+(?:\.\d+)?)\s*분의\s*(\d+(?:\.\d+)?)/g, '($2/$1)')
+        // Mixed numbers written out: "1 1/2".
+        .replace(/(\d+)\s+(\d+)\s*\/\s*(\d+)/g, '($1+$2/$3)')
+        // Thousands separators.
+        .replace(/(\d),(?=\d{3}(?!\d))/g, '$1');
+    const value = evaluate(expression);
+    if (value === null) return null;
+
+    if (tolerance === undefined && isApproximate) {
+        tolerance = 0.5 * Math.pow(10, -decimalPlaces(expression));
+    }
+    return { value, unit, tolerance };
+};
+
+/**
+ * Whether an answer equals the key by value: true or false when both read as numbers, null
+ * when either does not, so the caller falls back to its usual grading. Units convert within
+ * a dimension (1 m = 100 cm); a missing unit on either side is read in the other's unit.
+ */
+export const compareMathAnswers = (answer: string | null | undefined, key: string): boolean | null => {
+    const given = parseMathAnswer(answer);
+    const expected = parseMathAnswer(key);
+    if (!given || !expected) return null;
+
+    let givenValue = given.value;
+    if (given.unit && expected.unit && given.unit !== expected.unit) {
+        const givenUnit = UNITS[given.unit];
+        const expectedUnit = UNITS[expected.unit];
+        if (!givenUnit || !expectedUnit || givenUnit.dimension !== expectedUnit.dimension) return false;
+        givenValue = given.value * givenUnit.factor / expectedUnit.factor;
+    }
+
+    const tolerance = expected.tolerance ?? EPSILON * Math.max(1, Math.abs(expected.value));
+    return Math.abs(givenValue - expected.value) <= tolerance + EPSILON;
+};
+
+/** Whether short answers in a subject are graded by value; elsewhere a number may be a year or a page. */
+export const isMathSubject = (subject: string | undefined): boolean => subject === '수학';
+
+/** Whether the key is a number, i.e. answers to it can be graded automatically. */
+export const isMathAnswerKey = (key: string): boolean => parseMathAnswer(key) !== null;
@@ -0,0 +1,58 @@
+import type { MultiSelectScoring, QuizQuestion } from '../types.ts';
+import { decodeStructuredAnswer, encodeStructuredAnswer } from './structuredQuestions.ts';
+
+// Multiple-select questions ("choose all that apply") list options like multiple choice but
+// have every correct option in `answers`. The learner's picks are kept as a JSON array in the
+// answer string, the same way structured answers are.
+
+/** The options the learner picked, in option order. */
+export const getSelectedOptions = (question: QuizQuestion, answer: string | null | undefined): string[] => {
+    const picked = decodeStructuredAnswer(answer);
+    return (question.options || []).filter(option => picked.includes(option));
+};
+
+/** The answer with `option` picked or unpicked. */
+export const toggleSelectedOption = (question: QuizQuestion, answer: string | null | undefined, option: string): string => {
+    const picked = getSelectedOptions(question, answer);
+    const next = picked.includes(option) ? picked.filter(value => value !== option) : [...picked, option];
+    return encodeStructuredAnswer((question.options || []).filter(value => next.includes(value)));
+};
+
+export const isCorrectOption = (question: QuizQuestion, option: string): boolean =>
+    (question.answers || []).includes(option);
+
+/**
+ * Credit from 0 to 1. All-or-nothing gives 1 only for exactly the correct options; partial
+ * gives each correct pick a share and takes one back for each wrong pick, never below 0.
+ * The question's own `scoring` wins over `fallback`.
+ */
+export const scoreMultiSelectAnswer = (
+    question: QuizQuestion,
+    answer: string | null | undefined,
+    fallback: MultiSelectScoring = 'all-or-nothing'
+): number => {
+    const correct = question.answers || [];
+    if (correct.length === 0) return 0;
+    const picked = getSelectedOptions(question, answer);
+    const hits = picked.filter(option => correct.includes(option)).length;
+    const misses = picked.length - hits;
+    if ((question.scoring || fallback) === 'partial') return Math.max(0, (hits - misses) / correct.length);
+    return hits === correct.length && misses === 0 ? 1 : 0;
+};
+
+/** The questions with `scoring` set on every multiple-select one that leaves it open, for saving or sharing. */
+export const withMultiSelectScoring = (questions: QuizQuestion[], scoring: MultiSelectScoring): QuizQuestion[] =>
+    questions.map(question => question.questionType === 'multiple-select' && !question.scoring ? { ...question, scoring } : question);
+
+/** The answer key as text, stored as `answer` on this type. */
+export const describeMultiSelectKey = (question: QuizQuestion): string => (question.answers || []).join(', ');
+
+/** The learner's picks as a Markdown list, marking each right or wrong, plus any missed options. */
+export const describeMultiSelectAnswer = (question: QuizQuestion, answer: string | null | undefined): string => {
+    const picked = getSelectedOptions(question, answer);
+    const missed = (question.answers || []).filter(option => !picked.includes(option));
+    return [
+        ...(picked.length > 0 ? picked.map(option => `- ${isCorrectOption(question, option) ? '✅' : '❌'} ${option}`) : ['- (선택 안 함)']),
+        ...missed.map(option => `- ⬜ ${option} (고르지 않은 정답)`),
+    ].join('\n');
+};
@@ -0,0 +1,133 @@
+import type { LearnerProfile } from '../types.ts';
+
+// Learner profiles for devices shared by several children. Each profile gets its own study
+// history, diagnosis report, Q&A transcripts and settings (theme, AI service and keys).
+// AI usage and the daily budget stay device-wide, since they track whoever pays for the key.
+//
+// The profile is chosen once per page load: switching stores the new id and reloads, so no
+// screen has to cope with the profile changing underneath it.
+
+const PROFILES_STORAGE_KEY = 'learnerProfiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'activeLearnerProfileId';
+
+// The profile that owns everything saved before profiles existed. Its keys keep their
+// original, un-suffixed names so nothing has to be migrated.
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Settings copied into a new profile when asked, so the class API key is entered only once.
+const AI_SETTINGS_STORAGE_KEYS = ['ai_provider_settings', 'gemini_api_key', 'openai_compatible_api_key'];
+
+export interface NewProfileInput {
+    name: string;
+    avatar: string;
+    grade?: string;
+    pin?: string;
+    // Ignored without a PIN: the PIN is what keeps learners out of the class views.
+    isTeacher?: boolean;
+    copyAiSettings?: boolean;
+}
+
+const createDefaultProfile = (): LearnerProfile => ({
+    id: DEFAULT_PROFILE_ID,
+    name: '학습자',
+    avatar: '🙂',
+    createdAt: new Date().toISOString(),
+});
+
+const saveProfiles = (profiles: LearnerProfile[]) => {
+    window.localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+/** All profiles; there is always at least the default one. */
+export const getProfiles = (): LearnerProfile[] => {
+    try {
+        const item = window.localStorage.getItem(PROFILES_STORAGE_KEY);
+        const profiles: LearnerProfile[] = item ? JSON.parse(item) : [];
+        if (profiles.length > 0) return profiles;
+    } catch (error) {
+        console.error(error);
+    }
+    return [createDefaultProfile()];
+};
+
+export const getActiveProfile = (): LearnerProfile => {
+    const profiles = getProfiles();
+    const id = window.localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+    return profiles.find(profile => profile.id === id) || profiles[0];
+};
+
+export const getActiveProfileId = (): string => getActiveProfile().id;
+
+/** The localStorage key holding `key` for a profile (the active one by default). */
+export const profileStorageKey = (key: string, profileId: string = getActiveProfileId()): string =>
+    profileId === DEFAULT_PROFILE_ID ? key : `${key}@${profileId}`;
+
+// A 4-digit PIN only keeps classmates out of each other's results; any hash of it is
+// brute-forced instantly, so this just avoids keeping the digits in plain text.
+const hashPin = (profileId: string, pin: string): string => {
+    let hash = 0x811c9dc5;
+    for (const char of `${profileId}:${pin}`) {
+        hash ^= char.charCodeAt(0);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+};
+
+export const isValidPin = (pin: string) => /^\d{4}$/.test(pin);
+
+export const verifyProfilePin = (profile: LearnerProfile, pin: string): boolean =>
+    !profile.pinHash || profile.pinHash === hashPin(profile.id, pin);
+
+// Class views stay unlocked until the page reloads, which is also how profiles switch.
+let isTeacherModeUnlocked = false;
+
+export const isTeacherProfile = (profile: LearnerProfile): boolean => !!profile.isTeacher && !!profile.pinHash;
+
+export const isTeacherUnlocked = (): boolean => isTeacherModeUnlocked;
+
+/** Unlocks the class views when the active profile is a teacher's and `pin` is its PIN. */
+export const unlockTeacherMode = (pin: string): boolean => {
+    const profile = getActiveProfile();
+    if (!isTeacherProfile(profile) || !verifyProfilePin(profile, pin)) return false;
+    isTeacherModeUnlocked = true;
+    return true;
+};
+
+export const createProfile = ({ name, avatar, grade, pin, isTeacher, copyAiSettings }: NewProfileInput): LearnerProfile => {
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    const profile: LearnerProfile = {
+        id,
+        name: name.trim(),
+        avatar,
+        grade: grade || undefined,
+        pinHash: pin ? hashPin(id, pin) : undefined,
+        isTeacher: isTeacher && pin ? true : undefined,
+        createdAt: new Date().toISOString(),
+    };
+    if (copyAiSettings) {
+        AI_SETTINGS_STORAGE_KEYS.forEach(key => {
+            const value = window.localStorage.getItem(profileStorageKey(key));
+            if (value !== null) window.localStorage.setItem(profileStorageKey(key, id), value);
+        });
+    }
+    saveProfiles([...getProfiles(), profile]);
+    return profile;
+};
+
+/**
+ * Removes a profile and its localStorage keys. The caller deletes its study history, which
+ * lives in IndexedDB. The active and default profiles cannot be deleted.
+ */
+export const deleteProfile = (profileId: string) => {
+    if (profileId === DEFAULT_PROFILE_ID || profileId === getActiveProfileId()) return;
+    const suffix = `@${profileId}`;
+    Object.keys(window.localStorage)
+        .filter(key => key.endsWith(suffix))
+        .forEach(key => window.localStorage.removeItem(key));
+    saveProfiles(getProfiles().filter(profile => profile.id !== profileId));
+};
+
+export const switchProfile = (profileId: string) => {
+    window.localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, profileId);
+    window.location.reload();
+};
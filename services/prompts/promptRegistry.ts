@@ -0,0 +1,84 @@
+import type { PromptRevision } from '../../types.ts';
+import { PROMPT_TEMPLATES } from './templates.ts';
+
+// Registry of versioned prompt templates. Every AI call resolves its prompt here so
+// revisions can be tracked (cache keys, quiz results) and subjects can override wording.
+
+export type PromptTemplateId =
+    | 'explanation'
+    | 'concept-summary'
+    | 'text-summary'
+    | 'follow-up'
+    | 'quiz'
+    | 'grading'
+    | 'diagnosis'
+    | 'illustration';
+
+export interface PromptTemplate {
+    id: PromptTemplateId;
+    // Bump whenever the wording changes; cached content from older versions is then ignored.
+    version: number;
+    // Subjects this variant is for. Omitted on the default variant of each id.
+    subjects?: string[];
+    // Variables the caller must supply, referenced in `body` as {{name}}.
+    variables: string[];
+    body: string;
+}
+
+export interface ResolvedPrompt {
+    revision: PromptRevision;
+    text: string;
+}
+
+/** Blocks every template may reference without the caller supplying them. */
+export const SHARED_PROMPT_VARIABLES: Record<string, string> = {
+    mathRules: `
+**[수식 표기 원칙 - LaTeX 필수]**
+1. **수학 수식은 반드시 LaTeX 문법**을 사용하십시오.
+2. **인라인 수식**: 문장 중간에 나오는 변수나 간단한 식은 \`$ ... $\`를 사용하세요. (예: $y = 2x$)
+3. **블록 수식**: 중요하거나 복잡한 식은 \`$$ ... $$\`를 사용하세요. (예: $$ x = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a} $$)
+4. **주의**: \`$x$\`와 같이 달러 기호로 확실하게 감싸야 렌더링됩니다. 일반 텍스트로 수식을 쓰지 마십시오.
+`,
+};
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+// Stable, readable identifier such as "explanation" or "explanation:수학".
+const templateKey = (template: PromptTemplate) =>
+    template.subjects ? `${template.id}:${template.subjects.join(',')}` : template.id;
+
+/** Picks the subject-specific variant if one exists, otherwise the default. */
+export const getPromptTemplate = (id: PromptTemplateId, subjectName?: string): PromptTemplate => {
+    const candidates = PROMPT_TEMPLATES.filter(template => template.id === id);
+    const template = (subjectName && candidates.find(t => t.subjects?.includes(subjectName)))
+        || candidates.find(t => !t.subjects);
+    if (!template) {
+        throw new Error(`Prompt template "${id}" is not registered.`);
+    }
+    return template;
+};
+
+export const getPromptRevision = (id: PromptTemplateId, subjectName?: string): PromptRevision => {
+    const template = getPromptTemplate(id, subjectName);
+    return { templateId: templateKey(template), version: template.version };
+};
+
+export const resolvePrompt = (
+    id: PromptTemplateId,
+    subjectName: string | undefined,
+    variables: Record<string, string | number>
+): ResolvedPrompt => {
+    const template = getPromptTemplate(id, subjectName);
+    const missing = template.variables.filter(name => variables[name] === undefined);
+    if (missing.length > 0) {
+        throw new Error(`Prompt template "${templateKey(template)}" is missing variables: ${missing.join(', ')}`);
+    }
+    const values: Record<string, string | number> = { ...SHARED_PROMPT_VARIABLES, ...variables };
+    const text = template.body.replace(PLACEHOLDER, (placeholder, name: string) =>
+        values[name] !== undefined ? String(values[name]) : placeholder
+    );
+    return {
+        revision: { templateId: templateKey(template), version: template.version },
+        text,
+    };
+};
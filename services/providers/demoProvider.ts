@@ -0,0 +1,187 @@
+import type { AiFeature, QuizQuestion, ShortAnswerEvaluation } from '../../types.ts';
+import type { AiProvider } from '../aiProvider.ts';
+
+// Offline provider with canned, schema-valid responses for classroom demos and development.
+// Every response is deterministic so screens can be tested without a network or API key.
+
+const RESPONSE_DELAY_MS = 400;
+const STREAM_CHUNK_DELAY_MS = 30;
+const SILENT_AUDIO_SECONDS = 1;
+const SAMPLE_RATE = 24000;
+
+// Mirrors a real request: resolves after `ms`, or rejects with an AbortError once `signal` aborts.
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const DEMO_EXPLANATION = `**1. 개념 정의**
+- 이 내용은 **데모 모드**에서 보여주는 예시 설명이에요.
+- 실제 AI 대신 미리 준비된 글이 나타나요.
+
+**2. 주요 특징/원리**
+- 설명은 작은 조각으로 나뉘어 **스트리밍**되는 것처럼 보여요.
+- 수식도 잘 보이는지 확인할 수 있어요: $\\frac{1}{2} + \\frac{1}{4} = \\frac{3}{4}$
+
+$$ 3 \\times 4 = 12 $$
+
+**3. 실생활 예시**
+- 피자 한 판을 친구와 똑같이 나누면 한 사람이 $\\frac{1}{2}$씩 먹을 수 있어요.`;
+
+const DEMO_SUMMARY = `- 데모 모드에서는 미리 준비된 내용이 보여요.
+- 인터넷이 없어도 모든 화면을 체험할 수 있어요.
+- 분수 예시: $\\frac{1}{2}$은 전체를 똑같이 둘로 나눈 것 중 하나예요.`;
+
+const DEMO_DIAGNOSIS = `### 😊 데모 학습 진단 리포트
+
+**총평**: 꾸준히 문제를 풀어 본 모습이 멋져요!
+
+**강점** ✨
+- 여러 과목을 골고루 시도했어요.
+
+**보완할 점** 📚
+- 틀린 문제는 해설을 다시 읽고 한 번 더 풀어 보세요.
+
+**마무리**: 이 리포트는 데모 모드의 예시예요. 실제 분석은 AI 서비스를 연결하면 받을 수 있어요!`;
+
+const DEMO_FOLLOW_UP = `좋은 질문이에요! 😊 지금은 **데모 모드**라서 미리 준비된 답변을 보여드려요.
+AI 서비스를 연결하면 질문에 꼭 맞는 답변을 받을 수 있어요.`;
+
+const DEMO_QUESTIONS: QuizQuestion[] = [
+    {
+        questionType: 'multiple-choice',
+        question: '피자 한 판을 똑같이 4조각으로 나누었을 때, 한 조각은 전체의 얼마인가요?',
+        options: ['$\\frac{1}{2}$', '$\\frac{1}{3}$', '$\\frac{1}{4}$', '$\\frac{1}{5}$'],
+        answer: '$\\frac{1}{4}$',
+        explanation: '전체를 똑같이 4로 나눈 것 중 하나이므로 $\\frac{1}{4}$입니다.',
+        hints: ['전체를 몇 조각으로 나누었는지 세어 보세요.', '나눈 조각 수가 분모, 그중 하나가 분자가 됩니다.'],
+    },
+    {
+        questionType: 'multiple-select',
+        question: '$\\frac{1}{2}$보다 큰 분수를 모두 고르세요.',
+        options: ['$\\frac{2}{3}$', '$\\frac{1}{3}$', '$\\frac{3}{4}$', '$\\frac{1}{5}$'],
+        answers: ['$\\frac{2}{3}$', '$\\frac{3}{4}$'],
+        hints: ['$\\frac{1}{2}$은 전체의 절반이에요.', '분자를 두 배 했을 때 분모보다 크면 절반보다 큰 분수예요.'],
+        answer: '$\\frac{2}{3}$, $\\frac{3}{4}$',
+        explanation: '분자가 분모의 절반보다 크면 $\\frac{1}{2}$보다 큽니다. $\\frac{2}{3}$과 $\\frac{3}{4}$이 그렇습니다.',
+    },
+    {
+        questionType: 'short-answer',
+        question: '$3 \\times 4$의 값을 쓰세요.',
+        answer: '12',
+        explanation: '3을 4번 더하면 $3 + 3 + 3 + 3 = 12$입니다.',
+        hints: ['곱셈은 같은 수를 여러 번 더하는 것이에요.', '3을 4번 더해 보세요: $3 + 3 + 3 + 3$'],
+    },
+    {
+        questionType: 'ox',
+        question: '$\\frac{1}{2}$은 $\\frac{1}{4}$보다 큽니다.',
+        options: ['O', 'X'],
+        answer: 'O',
+        explanation: '같은 전체를 더 적은 조각으로 나눌수록 한 조각이 커지므로 맞는 말입니다.',
+    },
+    {
+        questionType: 'creativity',
+        question: '생활 속에서 분수를 사용하는 예를 하나 들고, 그 이유를 설명해 보세요.',
+        answer: '예시: 케이크를 가족 수만큼 똑같이 나눌 때 분수를 사용합니다. 모두 같은 양을 먹기 위해서입니다. (평가 요소: 실생활 예시, 똑같이 나누기의 의미)',
+        explanation: '분수는 전체를 똑같이 나눌 때 사용하므로, 음식이나 시간을 나누는 예가 알맞습니다.',
+    },
+    {
+        questionType: 'matching',
+        question: '설명에 알맞은 분수끼리 짝 지어 보세요.',
+        pairs: [
+            { left: '2조각 중 1조각', right: '$\\frac{1}{2}$' },
+            { left: '3조각 중 1조각', right: '$\\frac{1}{3}$' },
+            { left: '4조각 중 3조각', right: '$\\frac{3}{4}$' },
+        ],
+        answer: '2조각 중 1조각 → $\\frac{1}{2}$, 3조각 중 1조각 → $\\frac{1}{3}$, 4조각 중 3조각 → $\\frac{3}{4}$',
+        explanation: '전체 조각 수가 분모, 색칠한 조각 수가 분자입니다.',
+    },
+    {
+        questionType: 'ordering',
+        question: '작은 분수부터 차례대로 늘어놓으세요.',
+        sequence: ['$\\frac{1}{5}$', '$\\frac{1}{4}$', '$\\frac{1}{3}$', '$\\frac{1}{2}$'],
+        answer: '$\\frac{1}{5}$ → $\\frac{1}{4}$ → $\\frac{1}{3}$ → $\\frac{1}{2}$',
+        explanation: '분자가 1로 같으면 분모가 클수록 더 작은 분수입니다.',
+    },
+    {
+        questionType: 'cloze',
+        question: '빈칸에 알맞은 말을 써 넣으세요.',
+        clozeText: '분수에서 가로선 아래의 수를 ___, 위의 수를 ___라고 합니다.',
+        blanks: ['분모', '분자'],
+        answer: '분모, 분자',
+        explanation: '$\\frac{1}{4}$에서 4는 분모, 1은 분자입니다.',
+    },
+];
+
+const DEMO_EVALUATION: ShortAnswerEvaluation = {
+    grade: 'B',
+    feedback: '데모 모드의 예시 채점이에요. 핵심 내용을 잘 썼어요! 조금 더 자세히 설명하면 더 좋아요.',
+};
+
+// 16-bit PCM silence, base64 encoded.
+const createSilentAudio = (): string => {
+    const byteLength = SAMPLE_RATE * SILENT_AUDIO_SECONDS * 2;
+    return btoa('\0'.repeat(byteLength));
+};
+
+const textFor = (feature: AiFeature, prompt: string): string => {
+    if (feature === 'diagnosis') return DEMO_DIAGNOSIS;
+    if (prompt.includes('학생의 질문')) return DEMO_FOLLOW_UP;
+    if (prompt.includes('요약')) return DEMO_SUMMARY;
+    return DEMO_EXPLANATION;
+};
+
+export const createDemoProvider = (): AiProvider => ({
+    id: 'demo',
+    modelFor: () => 'demo',
+
+    generateText: async ({ feature, prompt, signal }) => {
+        await wait(RESPONSE_DELAY_MS, signal);
+        return textFor(feature, prompt);
+    },
+
+    generateTextStream: async ({ feature, prompt, signal }) => {
+        const text = textFor(feature, prompt);
+        return (async function* () {
+            // Split on whitespace boundaries so markdown and LaTeX arrive in readable pieces.
+            for (const chunk of text.match(/\S+\s*/g) || []) {
+                await wait(STREAM_CHUNK_DELAY_MS, signal);
+                yield chunk;
+            }
+        })();
+    },
+
+    generateJson: async ({ feature, signal }) => {
+        await wait(RESPONSE_DELAY_MS, signal);
+        if (feature === 'grading') {
+            return JSON.stringify(DEMO_EVALUATION);
+        }
+        return JSON.stringify(DEMO_QUESTIONS);
+    },
+
+    // No canned illustration; screens simply render without an image.
+    generateImage: async ({ signal }) => {
+        await wait(RESPONSE_DELAY_MS, signal);
+        return null;
+    },
+
+    generateSpeech: async ({ signal }) => {
+        await wait(RESPONSE_DELAY_MS, signal);
+        return createSilentAudio();
+    },
+
+    validate: async () => {},
+
+    checkModel: async () => {},
+});
@@ -0,0 +1,172 @@
+import { FinishReason, GoogleGenAI, Modality, Type, type GenerateContentResponse, type GenerateContentResponseUsageMetadata, type Schema } from '@google/genai';
+import type { AiFeature } from '../../types.ts';
+import { resolveModel, type AiProvider, type AiProviderConfig, type AiUsage, type JsonSchema } from '../aiProvider.ts';
+import { AiError } from '../aiErrors.ts';
+
+export const GEMINI_DEFAULT_MODELS: Record<AiFeature, string> = {
+    explanation: 'gemini-2.5-flash',
+    quiz: 'gemini-2.5-flash',
+    grading: 'gemini-2.5-flash',
+    diagnosis: 'gemini-2.5-flash',
+    image: 'imagen-4.0-generate-001',
+    speech: 'gemini-2.5-flash-preview-tts',
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    enum: schema.enum,
+    items: schema.items ? toGeminiSchema(schema.items) : undefined,
+    properties: schema.properties
+        ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+        : undefined,
+    required: schema.required,
+});
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+    FinishReason.SAFETY,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.BLOCKLIST,
+    FinishReason.SPII,
+];
+
+// Blocked responses come back as a normal 200 with empty text, so check for them explicitly.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    if (response.promptFeedback?.blockReason || BLOCKED_FINISH_REASONS.includes(response.candidates?.[0]?.finishReason)) {
+        throw new AiError('safety');
+    }
+};
+
+const toUsage = (metadata: GenerateContentResponseUsageMetadata): AiUsage => ({
+    inputTokens: metadata.promptTokenCount || 0,
+    outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+});
+
+const reportUsage = (response: GenerateContentResponse, onUsage?: (usage: AiUsage) => void) => {
+    if (onUsage && response.usageMetadata) {
+        onUsage(toUsage(response.usageMetadata));
+    }
+};
+
+export const createGeminiProvider = (config: AiProviderConfig): AiProvider => {
+    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+    const modelFor = (feature: AiFeature) => resolveModel(config, feature, GEMINI_DEFAULT_MODELS);
+
+    // Sampling options for text features; a budget passed with the request wins over the setting.
+    const generationConfig = (feature: AiFeature, thinkingBudget?: number) => {
+        const settings = config.features?.[feature];
+        const budget = thinkingBudget ?? settings?.thinkingBudget;
+        return {
+            ...(settings?.temperature !== undefined ? { temperature: settings.temperature } : {}),
+            ...(budget !== undefined ? { thinkingConfig: { thinkingBudget: budget } } : {}),
+        };
+    };
+
+    return {
+        id: 'gemini',
+        modelFor,
+
+        generateText: async ({ feature, prompt, thinkingBudget, signal, onUsage }) => {
+            const response = await ai.models.generateContent({
+                model: modelFor(feature),
+                contents: prompt,
+                config: { abortSignal: signal, ...generationConfig(feature, thinkingBudget) },
+            });
+            reportUsage(response, onUsage);
+            assertNotBlocked(response);
+            return response.text || '';
+        },
+
+        generateTextStream: async ({ feature, prompt, thinkingBudget, signal, onUsage }) => {
+            const stream = await ai.models.generateContentStream({
+                model: modelFor(feature),
+                contents: prompt,
+                config: { abortSignal: signal, ...generationConfig(feature, thinkingBudget) },
+            });
+            return (async function* () {
+                // Each chunk carries the running totals, so only the last one counts.
+                let lastChunk: GenerateContentResponse | undefined;
+                try {
+                    for await (const chunk of stream) {
+                        lastChunk = chunk;
+                        signal?.throwIfAborted();
+                        assertNotBlocked(chunk);
+                        if (chunk.text) yield chunk.text;
+                    }
+                } finally {
+                    if (lastChunk) reportUsage(lastChunk, onUsage);
+                }
+            })();
+        },
+
+        generateJson: async ({ feature, prompt, schema, thinkingBudget, signal, onUsage }) => {
+            const response = await ai.models.generateContent({
+                model: modelFor(feature),
+                contents: prompt,
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: toGeminiSchema(schema),
+                    abortSignal: signal,
+                    ...generationConfig(feature, thinkingBudget),
+                },
+            });
+            reportUsage(response, onUsage);
+            assertNotBlocked(response);
+            return response.text || '';
+        },
+
+        generateImage: async ({ feature, prompt, signal, onUsage }) => {
+            const response = await ai.models.generateImages({
+                model: modelFor(feature),
+                prompt,
+                config: {
+                    numberOfImages: 1,
+                    outputMimeType: 'image/png',
+                    aspectRatio: '1:1',
+                    abortSignal: signal,
+                },
+            });
+            // Imagen bills per generated image and reports no token counts.
+            const images = response.generatedImages?.filter(generated => generated.image?.imageBytes).length || 0;
+            onUsage?.({ inputTokens: 0, outputTokens: 0, images });
+            return response.generatedImages?.[0]?.image?.imageBytes || null;
+        },
+
+        generateSpeech: async ({ feature, text, voice, signal, onUsage }) => {
+            const response = await ai.models.generateContent({
+                model: modelFor(feature),
+                contents: [{ parts: [{ text }] }],
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    abortSignal: signal,
+                    speechConfig: {
+                        voiceConfig: {
+                            prebuiltVoiceConfig: { voiceName: voice },
+                        },
+                    },
+                },
+            });
+            reportUsage(response, onUsage);
+            assertNotBlocked(response);
+
+            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!base64Audio) {
+                throw new Error("API로부터 오디오 데이터를 받지 못했습니다.");
+            }
+            return base64Audio;
+        },
+
+        validate: async () => {
+            // Use a very simple, low-cost call to validate the key
+            await ai.models.generateContent({
+                model: modelFor('explanation'),
+                contents: 'hello',
+            });
+        },
+
+        checkModel: async (model, signal) => {
+            await ai.models.get({ model, config: { abortSignal: signal } });
+        },
+    };
+};
@@ -0,0 +1,30 @@
+import type { AiFeature, AiProviderId } from '../../types.ts';
+import type { AiProvider, AiProviderConfig } from '../aiProvider.ts';
+import { GEMINI_DEFAULT_MODELS, createGeminiProvider } from './geminiProvider.ts';
+import { OPENAI_DEFAULT_MODELS, createOpenAiCompatibleProvider } from './openAiCompatibleProvider.ts';
+import { createDemoProvider } from './demoProvider.ts';
+
+export const createProvider = (providerId: AiProviderId, config: AiProviderConfig): AiProvider => {
+    switch (providerId) {
+        case 'openai-compatible':
+            return createOpenAiCompatibleProvider(config);
+        case 'demo':
+            return createDemoProvider();
+        case 'gemini':
+        default:
+            return createGeminiProvider(config);
+    }
+};
+
+/** The model a provider uses for a feature when the user has not chosen one. */
+export const getDefaultModel = (providerId: AiProviderId, feature: AiFeature): string => {
+    switch (providerId) {
+        case 'openai-compatible':
+            return OPENAI_DEFAULT_MODELS[feature];
+        case 'demo':
+            return 'demo';
+        case 'gemini':
+        default:
+            return GEMINI_DEFAULT_MODELS[feature];
+    }
+};
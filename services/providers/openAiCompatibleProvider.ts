@@ -0,0 +1,234 @@
+import type { AiFeature, TTSVoice } from '../../types.ts';
+import { resolveModel, type AiProvider, type AiProviderConfig, type AiUsage, type JsonSchema } from '../aiProvider.ts';
+import { AiError } from '../aiErrors.ts';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+export const OPENAI_DEFAULT_MODELS: Record<AiFeature, string> = {
+    explanation: 'gpt-4o-mini',
+    quiz: 'gpt-4o-mini',
+    grading: 'gpt-4o-mini',
+    diagnosis: 'gpt-4o-mini',
+    image: 'gpt-image-1',
+    speech: 'gpt-4o-mini-tts',
+};
+
+// The app's voices are Gemini voice names; map them to similar OpenAI voices.
+const VOICE_MAP: Record<TTSVoice, string> = {
+    Kore: 'nova',
+    Puck: 'echo',
+    Charon: 'onyx',
+    Fenrir: 'shimmer',
+    Zephyr: 'fable',
+};
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const toHttpError = async (response: Response): Promise<Error> => {
+    let message = `${response.status} ${response.statusText}`;
+    try {
+        const body = await response.json();
+        message = body?.error?.message || message;
+    } catch {
+        // Body was not JSON; keep the status line.
+    }
+    return Object.assign(new Error(message), {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    });
+};
+
+// Chat completions report prompt/completion tokens; gpt-image models report input/output tokens.
+const toUsage = (usage: Record<string, number | undefined> | undefined): AiUsage | undefined => {
+    if (!usage) return undefined;
+    return {
+        inputTokens: usage.prompt_tokens ?? usage.input_tokens ?? 0,
+        outputTokens: usage.completion_tokens ?? usage.output_tokens ?? 0,
+    };
+};
+
+// Reads a `text/event-stream` body and yields the `data:` payloads.
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) {
+                const trimmed = line.trim();
+                if (trimmed.startsWith('data:')) {
+                    yield trimmed.slice(5).trim();
+                }
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+export const createOpenAiCompatibleProvider = (config: AiProviderConfig): AiProvider => {
+    const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+    const modelFor = (feature: AiFeature) => resolveModel(config, feature, OPENAI_DEFAULT_MODELS);
+
+    // Thinking budgets are Gemini-specific, so only the temperature carries over.
+    const samplingOptions = (feature: AiFeature) => {
+        const temperature = config.features?.[feature]?.temperature;
+        return temperature !== undefined ? { temperature } : {};
+    };
+
+    const request = async (method: 'GET' | 'POST', path: string, body?: unknown, signal?: AbortSignal): Promise<Response> => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        // Self-hosted servers often run without authentication.
+        if (config.apiKey) {
+            headers['Authorization'] = `Bearer ${config.apiKey}`;
+        }
+        const response = await fetch(`${baseUrl}${path}`, {
+            method,
+            headers,
+            body: body === undefined ? undefined : JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            throw await toHttpError(response);
+        }
+        return response;
+    };
+
+    const post = (path: string, body: unknown, signal?: AbortSignal) => request('POST', path, body, signal);
+
+    const chat = async (
+        feature: AiFeature,
+        prompt: string,
+        signal?: AbortSignal,
+        onUsage?: (usage: AiUsage) => void,
+        extra: Record<string, unknown> = {}
+    ): Promise<string> => {
+        const response = await post('/chat/completions', {
+            model: modelFor(feature),
+            messages: [{ role: 'user', content: prompt }],
+            ...samplingOptions(feature),
+            ...extra,
+        }, signal);
+        const data = await response.json();
+        const usage = toUsage(data?.usage);
+        if (usage) onUsage?.(usage);
+        const choice = data?.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') {
+            throw new AiError('safety');
+        }
+        return choice?.message?.content || '';
+    };
+
+    return {
+        id: 'openai-compatible',
+        modelFor,
+
+        generateText: ({ feature, prompt, signal, onUsage }) => chat(feature, prompt, signal, onUsage),
+
+        generateTextStream: async ({ feature, prompt, signal, onUsage }) => {
+            const response = await post('/chat/completions', {
+                model: modelFor(feature),
+                messages: [{ role: 'user', content: prompt }],
+                ...samplingOptions(feature),
+                stream: true,
+                // Adds a final event with the token counts and no choices.
+                stream_options: { include_usage: true },
+            }, signal);
+            if (!response.body) {
+                throw new Error("스트리밍 응답을 받지 못했습니다.");
+            }
+            const body = response.body;
+            return (async function* () {
+                for await (const data of readServerSentEvents(body)) {
+                    if (data === '[DONE]') return;
+                    let event;
+                    try {
+                        event = JSON.parse(data);
+                    } catch {
+                        // Ignore keep-alive or malformed event lines.
+                        continue;
+                    }
+                    const usage = toUsage(event?.usage ?? undefined);
+                    if (usage) onUsage?.(usage);
+                    const text = event?.choices?.[0]?.delta?.content;
+                    if (text) yield text as string;
+                }
+            })();
+        },
+
+        generateJson: async ({ feature, prompt, schema, signal, onUsage }) => {
+            // Structured output requires an object at the root, so arrays are wrapped and unwrapped.
+            const isObject = schema.type === 'object';
+            const rootSchema: JsonSchema = isObject
+                ? schema
+                : { type: 'object', properties: { items: schema }, required: ['items'] };
+
+            const text = await chat(feature, prompt, signal, onUsage, {
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: 'response', schema: rootSchema },
+                },
+            });
+            if (isObject) return text;
+            return JSON.stringify(JSON.parse(text).items);
+        },
+
+        generateImage: async ({ feature, prompt, signal, onUsage }) => {
+            const response = await post('/images/generations', {
+                model: modelFor(feature),
+                prompt,
+                n: 1,
+                size: '1024x1024',
+            }, signal);
+            const data = await response.json();
+            const images = Array.isArray(data?.data) ? data.data.length : 0;
+            onUsage?.({ ...(toUsage(data?.usage) || { inputTokens: 0, outputTokens: 0 }), images });
+            return data?.data?.[0]?.b64_json || null;
+        },
+
+        generateSpeech: async ({ feature, text, voice, signal, onUsage }) => {
+            const response = await post('/audio/speech', {
+                model: modelFor(feature),
+                input: text,
+                voice: VOICE_MAP[voice],
+                // Raw 16-bit PCM at 24kHz, the same format the Gemini TTS returns.
+                response_format: 'pcm',
+            }, signal);
+            // The audio endpoint reports no token counts, so only the call itself is recorded.
+            onUsage?.({ inputTokens: 0, outputTokens: 0 });
+            const bytes = new Uint8Array(await response.arrayBuffer());
+            let binary = '';
+            for (let i = 0; i < bytes.length; i++) {
+                binary += String.fromCharCode(bytes[i]);
+            }
+            return btoa(binary);
+        },
+
+        validate: async () => {
+            await chat('explanation', 'hello', undefined, undefined, { max_tokens: 1 });
+        },
+
+        // The model list is the one endpoint every compatible server implements.
+        checkModel: async (model, signal) => {
+            const response = await request('GET', '/models', undefined, signal);
+            const data = await response.json();
+            const ids: string[] = Array.isArray(data?.data) ? data.data.map((entry: { id?: string }) => entry.id) : [];
+            if (!ids.includes(model)) {
+                throw Object.assign(new Error(`Model "${model}" is not available on this server.`), { status: 404 });
+            }
+        },
+    };
+};
@@ -0,0 +1,63 @@
+import type { ConversationMessage } from '../types.ts';
+import { profileStorageKey } from './profiles.ts';
+
+// Follow-up Q&A per standard, kept for the active learner profile so a child who comes back
+// to a standard sees their earlier questions.
+
+const TRANSCRIPTS_STORAGE_KEY = 'qnaTranscripts';
+// Only the most recently used standards are kept, to stay well inside the localStorage quota.
+const MAX_TRANSCRIPTS = 30;
+
+export interface StoredTranscript {
+    messages: ConversationMessage[];
+    updatedAt: number;
+}
+
+const readTranscripts = (): Record<string, StoredTranscript> => {
+    try {
+        const item = window.localStorage.getItem(profileStorageKey(TRANSCRIPTS_STORAGE_KEY));
+        return item ? JSON.parse(item) : {};
+    } catch (error) {
+        console.error(error);
+        return {};
+    }
+};
+
+const writeTranscripts = (transcripts: Record<string, StoredTranscript>) => {
+    const kept = Object.entries(transcripts)
+        .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+        .slice(0, MAX_TRANSCRIPTS);
+    try {
+        window.localStorage.setItem(profileStorageKey(TRANSCRIPTS_STORAGE_KEY), JSON.stringify(Object.fromEntries(kept)));
+    } catch (error) {
+        console.error(error);
+    }
+};
+
+export const loadTranscript = (standardId: string): ConversationMessage[] =>
+    readTranscripts()[standardId]?.messages || [];
+
+export const saveTranscript = (standardId: string, messages: ConversationMessage[]) => {
+    const transcripts = readTranscripts();
+    if (messages.length > 0) {
+        transcripts[standardId] = { messages, updatedAt: Date.now() };
+    } else {
+        delete transcripts[standardId];
+    }
+    writeTranscripts(transcripts);
+};
+
+/** Every stored transcript of the active profile, keyed by standard; used for backups. */
+export const getAllTranscripts = (): Record<string, StoredTranscript> => readTranscripts();
+
+/** Adds transcripts from a backup; where both sides have a standard, the more recent one wins. */
+export const mergeTranscripts = (incoming: Record<string, StoredTranscript>) => {
+    const transcripts = readTranscripts();
+    Object.entries(incoming).forEach(([standardId, transcript]) => {
+        const existing = transcripts[standardId];
+        if (!existing || transcript.updatedAt > existing.updatedAt) {
+            transcripts[standardId] = transcript;
+        }
+    });
+    writeTranscripts(transcripts);
+};
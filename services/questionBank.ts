@@ -0,0 +1,116 @@
+import type { BankQuestion, DifficultyLevel, QuizQuestion } from '../types.ts';
+import type { QuestionRequest } from './geminiService.ts';
+import { STORES, requestToPromise, withStore } from './indexedDb.ts';
+
+// Questions teachers keep per standard, shared by every profile on this device. Study
+// sessions draw from here first and only ask the AI for what the bank cannot cover.
+
+export interface BankDraw {
+    questions: QuizQuestion[];
+    // What the bank could not cover, per type, for the AI to generate.
+    missing: QuestionRequest[];
+}
+
+export const createBankQuestion = (
+    standardId: string,
+    difficulty: DifficultyLevel,
+    question: QuizQuestion,
+    source: BankQuestion['source']
+): BankQuestion => {
+    const now = new Date().toISOString();
+    return {
+        id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+        standardId,
+        difficulty,
+        question,
+        source,
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+/** A standard's bank, oldest first. */
+export const loadBankQuestions = async (standardId: string): Promise<BankQuestion[]> => {
+    const items = await withStore(STORES.questionBank, 'readonly', store =>
+        requestToPromise(store.index('standardId').getAll(standardId) as IDBRequest<BankQuestion[]>)
+    );
+    return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+/** Every standard's bank; used for backups. */
+export const getAllBankQuestions = (): Promise<BankQuestion[]> =>
+    withStore(STORES.questionBank, 'readonly', store =>
+        requestToPromise(store.getAll() as IDBRequest<BankQuestion[]>)
+    );
+
+/**
+ * Adds questions from a backup, skipping any whose id or text is already in that standard's
+ * bank so importing the same file twice does not double it. Resolves with how many were added.
+ */
+export const importBankQuestions = (items: BankQuestion[]): Promise<number> =>
+    withStore(STORES.questionBank, 'readwrite', async store => {
+        const existing = await requestToPromise(store.getAll() as IDBRequest<BankQuestion[]>);
+        const knownIds = new Set(existing.map(item => item.id));
+        const knownTexts = new Set(existing.map(item => `${item.standardId}\n${item.question.question.trim()}`));
+        let added = 0;
+        items.forEach(item => {
+            const text = `${item.standardId}\n${item.question.question.trim()}`;
+            if (knownIds.has(item.id) || knownTexts.has(text)) return;
+            knownIds.add(item.id);
+            knownTexts.add(text);
+            store.put(item);
+            added++;
+        });
+        return added;
+    });
+
+export const saveBankQuestion = (item: BankQuestion): Promise<void> =>
+    withStore(STORES.questionBank, 'readwrite', store => {
+        store.put({ ...item, updatedAt: new Date().toISOString() });
+    });
+
+export const deleteBankQuestion = (id: string): Promise<void> =>
+    withStore(STORES.questionBank, 'readwrite', store => {
+        store.delete(id);
+    });
+
+/**
+ * Saves generated questions to a standard's bank, skipping any whose text is already there
+ * so saving the same quiz twice does not double it. Resolves with how many were added.
+ */
+export const addQuestionsToBank = (standardId: string, difficulty: DifficultyLevel, questions: QuizQuestion[]): Promise<number> =>
+    withStore(STORES.questionBank, 'readwrite', async store => {
+        const existing = await requestToPromise(store.index('standardId').getAll(standardId) as IDBRequest<BankQuestion[]>);
+        const known = new Set(existing.map(item => item.question.question.trim()));
+        let added = 0;
+        questions.forEach(question => {
+            const text = question.question.trim();
+            if (known.has(text)) return;
+            known.add(text);
+            store.put(createBankQuestion(standardId, difficulty, question, 'generated'));
+            added++;
+        });
+        return added;
+    });
+
+const shuffle = <T,>(values: T[]): T[] => {
+    const result = [...values];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+/** Picks random bank questions of the requested difficulty for each type, in request order. */
+export const drawFromBank = (items: BankQuestion[], requests: QuestionRequest[], difficulty: DifficultyLevel): BankDraw => {
+    const candidates = shuffle(items.filter(item => item.difficulty === difficulty));
+    const questions: QuizQuestion[] = [];
+    const missing: QuestionRequest[] = [];
+    requests.forEach(({ type, count }) => {
+        const picked = candidates.filter(item => item.question.questionType === type).slice(0, count);
+        questions.push(...picked.map(item => item.question));
+        if (picked.length < count) missing.push({ type, count: count - picked.length });
+    });
+    return { questions, missing };
+};
@@ -0,0 +1,270 @@
+import type { LearningContext, PromptRevision, QuizQuestion } from '../types.ts';
+import { repairQuizQuestion } from './quizValidation.ts';
+
+// A generated quiz packed so a teacher can hand exactly the same questions to the class,
+// either as a link (the quiz rides in the URL fragment, so it never reaches a server) or
+// as a `.quiz.json` file. Opening one runs the quiz without generating anything. Assignments
+// built from several standards travel the same way, with the standard of each question.
+
+const QUIZ_PACKAGE_FORMAT = 'ai-sdl-e-quiz';
+// Version 2 added assignments.
+const QUIZ_PACKAGE_VERSION = 2;
+const LINK_FRAGMENT_KEY = 'quiz';
+// Longer links get cut off by messengers and school LMS fields; above this, images are
+// left out of the link and the file is the way to share them.
+const MAX_LINK_LENGTH = 16_000;
+
+export interface QuizAssignment {
+    title: string;
+    dueDate?: string; // YYYY-MM-DD
+    // Every standard the assignment covers, in the order the teacher picked them.
+    contexts: LearningContext[];
+    // For each question, the id of the standard it assesses.
+    questionStandardIds: string[];
+    // The template revision each standard's questions were generated with, by standard id.
+    // Sections can use different per-subject templates, so one package-wide revision may not fit.
+    quizPrompts?: Record<string, PromptRevision>;
+}
+
+export interface QuizPackage {
+    format: typeof QUIZ_PACKAGE_FORMAT;
+    version: number;
+    createdAt: string;
+    // For assignments, the first standard's context.
+    context: LearningContext;
+    questions: QuizQuestion[];
+    quizPrompt?: PromptRevision;
+    assignment?: QuizAssignment;
+    // Share of a question's credit each hint costs, as the sharer set it; absent means the default.
+    hintPenalty?: number;
+}
+
+export interface QuizLink {
+    url: string;
+    // True when the quiz had images that did not fit in the link.
+    imagesOmitted: boolean;
+}
+
+export type QuizShareErrorReason = 'invalid_package' | 'unsupported_version' | 'too_long';
+
+const QUIZ_SHARE_ERROR_MESSAGES: Record<QuizShareErrorReason, string> = {
+    invalid_package: "공유 퀴즈를 열 수 없습니다. 링크가 잘렸거나 파일이 손상되었을 수 있습니다.",
+    unsupported_version: "더 새로운 버전의 앱에서 만든 퀴즈입니다. 앱을 새로고침한 뒤 다시 열어주세요.",
+    too_long: "문제가 길어 링크로 만들 수 없습니다. 파일로 저장해서 공유해주세요.",
+};
+
+export class QuizShareError extends Error {
+    readonly reason: QuizShareErrorReason;
+
+    constructor(reason: QuizShareErrorReason) {
+        super(QUIZ_SHARE_ERROR_MESSAGES[reason]);
+        this.name = 'QuizShareError';
+        this.reason = reason;
+    }
+}
+
+export const createQuizPackage = (
+    context: LearningContext,
+    questions: QuizQuestion[],
+    quizPrompt?: PromptRevision,
+    assignment?: QuizAssignment,
+    hintPenalty?: number
+): QuizPackage => ({
+    format: QUIZ_PACKAGE_FORMAT,
+    version: QUIZ_PACKAGE_VERSION,
+    createdAt: new Date().toISOString(),
+    context,
+    questions,
+    quizPrompt,
+    assignment,
+    hintPenalty,
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isLearningContext = (value: unknown): value is LearningContext =>
+    isObject(value)
+    && typeof value.subjectName === 'string'
+    && typeof value.grade === 'string'
+    && typeof value.unitName === 'string'
+    && isObject(value.standard)
+    && typeof value.standard.id === 'string'
+    && typeof value.standard.description === 'string';
+
+const isHintPenalty = (value: unknown): value is number =>
+    typeof value === 'number' && value >= 0 && value <= 1;
+
+const toPromptRevision = (raw: unknown): PromptRevision | undefined =>
+    isObject(raw) && typeof raw.templateId === 'string' && typeof raw.version === 'number'
+        ? { templateId: raw.templateId, version: raw.version }
+        : undefined;
+
+const isDateString = (value: unknown): value is string =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const toAssignment = (raw: unknown, questionCount: number): QuizAssignment | undefined => {
+    if (raw === undefined) return undefined;
+    if (
+        !isObject(raw)
+        || typeof raw.title !== 'string'
+        || (raw.dueDate !== undefined && !isDateString(raw.dueDate))
+        || !Array.isArray(raw.contexts) || raw.contexts.length === 0 || !raw.contexts.every(isLearningContext)
+        || !Array.isArray(raw.questionStandardIds) || raw.questionStandardIds.length !== questionCount
+    ) {
+        throw new QuizShareError('invalid_package');
+    }
+    const contexts: LearningContext[] = raw.contexts;
+    const standardIds = new Set(contexts.map(context => context.standard.id));
+    const questionStandardIds: unknown[] = raw.questionStandardIds;
+    if (!questionStandardIds.every((id): id is string => typeof id === 'string' && standardIds.has(id))) {
+        throw new QuizShareError('invalid_package');
+    }
+    const quizPrompts: Record<string, PromptRevision> = {};
+    if (isObject(raw.quizPrompts)) {
+        Object.entries(raw.quizPrompts).forEach(([standardId, value]) => {
+            const revision = toPromptRevision(value);
+            if (revision && standardIds.has(standardId)) quizPrompts[standardId] = revision;
+        });
+    }
+    return {
+        title: raw.title,
+        dueDate: isDateString(raw.dueDate) ? raw.dueDate : undefined,
+        contexts,
+        questionStandardIds,
+        quizPrompts: Object.keys(quizPrompts).length > 0 ? quizPrompts : undefined,
+    };
+};
+
+/** Checks an untrusted package; questions go through the same repair as generated ones. */
+const toQuizPackage = (raw: unknown): QuizPackage => {
+    if (!isObject(raw) || raw.format !== QUIZ_PACKAGE_FORMAT || typeof raw.version !== 'number') {
+        throw new QuizShareError('invalid_package');
+    }
+    if (raw.version > QUIZ_PACKAGE_VERSION) {
+        throw new QuizShareError('unsupported_version');
+    }
+    if (!isLearningContext(raw.context) || !Array.isArray(raw.questions)) {
+        throw new QuizShareError('invalid_package');
+    }
+    const questions: QuizQuestion[] = [];
+    for (const item of raw.questions) {
+        const { question } = repairQuizQuestion(item);
+        if (!question) throw new QuizShareError('invalid_package');
+        const { imagePrompt: _imagePrompt, ...rest } = question;
+        const imageBase64 = isObject(item) && typeof item.imageBase64 === 'string' ? item.imageBase64 : undefined;
+        questions.push({ ...rest, imageBase64 });
+    }
+    if (questions.length === 0) {
+        throw new QuizShareError('invalid_package');
+    }
+    const quizPrompt = toPromptRevision(raw.quizPrompt);
+    return {
+        format: QUIZ_PACKAGE_FORMAT,
+        version: raw.version,
+        createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : '',
+        context: raw.context,
+        questions,
+        quizPrompt,
+        assignment: toAssignment(raw.assignment, questions.length),
+        hintPenalty: isHintPenalty(raw.hintPenalty) ? raw.hintPenalty : undefined,
+    };
+};
+
+export const parseQuizPackage = (text: string): QuizPackage => {
+    try {
+        return toQuizPackage(JSON.parse(text));
+    } catch (error) {
+        if (error instanceof QuizShareError) throw error;
+        throw new QuizShareError('invalid_package');
+    }
+};
+
+export const downloadQuizPackage = (quiz: QuizPackage) => {
+    const blob = new Blob([JSON.stringify(quiz)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${quiz.assignment?.title.trim() || quiz.context.standard.id}.quiz.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+// Payloads start with a marker so links made where CompressionStream is missing still open.
+const COMPRESSED_MARKER = 'z';
+const PLAIN_MARKER = 'j';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+    let binary = '';
+    // Chunked so large quizzes do not overflow the argument limit of fromCharCode.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const encodePayload = async (quiz: QuizPackage): Promise<string> => {
+    const bytes = new TextEncoder().encode(JSON.stringify(quiz));
+    if (typeof CompressionStream === 'undefined') {
+        return PLAIN_MARKER + toBase64Url(bytes);
+    }
+    return COMPRESSED_MARKER + toBase64Url(await pipeThrough(bytes, new CompressionStream('deflate-raw')));
+};
+
+const decodePayload = async (payload: string): Promise<unknown> => {
+    const marker = payload[0];
+    let bytes = fromBase64Url(payload.slice(1));
+    if (marker === COMPRESSED_MARKER) {
+        bytes = await pipeThrough(bytes, new DecompressionStream('deflate-raw'));
+    } else if (marker !== PLAIN_MARKER) {
+        throw new QuizShareError('invalid_package');
+    }
+    return JSON.parse(new TextDecoder().decode(bytes));
+};
+
+const toLink = (payload: string) =>
+    `${window.location.origin}${window.location.pathname}#${LINK_FRAGMENT_KEY}=${payload}`;
+
+/** Builds a link that opens the quiz, dropping images if they would make it too long. */
+export const createQuizLink = async (quiz: QuizPackage): Promise<QuizLink> => {
+    const url = toLink(await encodePayload(quiz));
+    if (url.length <= MAX_LINK_LENGTH) {
+        return { url, imagesOmitted: false };
+    }
+    const hasImages = quiz.questions.some(question => question.imageBase64);
+    if (hasImages) {
+        const withoutImages = { ...quiz, questions: quiz.questions.map(({ imageBase64: _imageBase64, ...question }) => question) };
+        const shorterUrl = toLink(await encodePayload(withoutImages));
+        if (shorterUrl.length <= MAX_LINK_LENGTH) {
+            return { url: shorterUrl, imagesOmitted: true };
+        }
+    }
+    throw new QuizShareError('too_long');
+};
+
+/**
+ * Reads a shared quiz from the page's URL fragment, or resolves to null when there is none.
+ * The fragment is removed either way so reloading does not reopen the quiz.
+ */
+export const takeQuizFromLocation = async (): Promise<QuizPackage | null> => {
+    const prefix = `#${LINK_FRAGMENT_KEY}=`;
+    const { hash, pathname, search } = window.location;
+    if (!hash.startsWith(prefix)) return null;
+    window.history.replaceState(null, '', pathname + search);
+    try {
+        return toQuizPackage(await decodePayload(hash.slice(prefix.length)));
+    } catch (error) {
+        if (error instanceof QuizShareError) throw error;
+        throw new QuizShareError('invalid_package');
+    }
+};
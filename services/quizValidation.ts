@@ -0,0 +1,350 @@
+import type { MatchingPair, MultiSelectScoring, QuizQuestion, QuestionType } from '../types.ts';
+import { describeMultiSelectKey } from './multiSelect.ts';
+import { countClozeBlanks, describeStructuredKey, STRUCTURED_QUESTION_TYPES } from './structuredQuestions.ts';
+
+// Runtime validation and repair for model-generated quiz questions.
+// The model's JSON is not trusted: defects are repaired where the intent is clear,
+// and anything still broken is reported so the caller can re-request it.
+
+export type GeneratedQuestion = QuizQuestion & { imagePrompt?: string };
+
+export type QuizQuestionIssue =
+    | 'missing-question'
+    | 'missing-answer'
+    | 'unknown-type'
+    | 'missing-options'
+    | 'answer-not-in-options'
+    | 'missing-items'
+    | 'blank-count-mismatch';
+
+export interface ValidatedQuestions {
+    valid: GeneratedQuestion[];
+    invalid: { item: unknown; issues: QuizQuestionIssue[] }[];
+}
+
+const QUESTION_TYPES: QuestionType[] = ['multiple-choice', 'multiple-select', 'short-answer', 'ox', 'creativity', ...STRUCTURED_QUESTION_TYPES];
+// Matching and ordering need at least this many items to be a question.
+const MIN_STRUCTURED_ITEMS = 2;
+const DEFAULT_CLOZE_INSTRUCTION = '빈칸에 알맞은 말을 써 넣으세요.';
+const MAX_HINTS = 3;
+
+const QUESTION_TYPE_ALIASES: Record<string, QuestionType> = {
+    'multiplechoice': 'multiple-choice',
+    'mc': 'multiple-choice',
+    'choice': 'multiple-choice',
+    '객관식': 'multiple-choice',
+    'multiselect': 'multiple-select',
+    'multipleanswer': 'multiple-select',
+    'checkbox': 'multiple-select',
+    '복수정답': 'multiple-select',
+    '복수선택': 'multiple-select',
+    '모두고르기': 'multiple-select',
+    'shortanswer': 'short-answer',
+    'short': 'short-answer',
+    '단답형': 'short-answer',
+    '서술형': 'short-answer',
+    'ox': 'ox',
+    'truefalse': 'ox',
+    'creativity': 'creativity',
+    'creative': 'creativity',
+    '창의': 'creativity',
+    '창의서술형': 'creativity',
+    'match': 'matching',
+    '짝맞추기': 'matching',
+    '선잇기': 'matching',
+    '연결하기': 'matching',
+    'order': 'ordering',
+    'sequence': 'ordering',
+    'sequencing': 'ordering',
+    '순서': 'ordering',
+    '순서정하기': 'ordering',
+    'fillintheblank': 'cloze',
+    'fillblank': 'cloze',
+    'blank': 'cloze',
+    '빈칸': 'cloze',
+    '빈칸채우기': 'cloze',
+};
+
+const OX_ALIASES: Record<string, 'O' | 'X'> = {
+    'o': 'O', '○': 'O', 'true': 'O', '참': 'O', '맞다': 'O', '맞음': 'O', '예': 'O',
+    'x': 'X', '×': 'X', 'false': 'X', '거짓': 'X', '틀리다': 'X', '틀림': 'X', '아니오': 'X',
+};
+
+// Markers models prefix to options or answers: "①", "1.", "A)", "(3)".
+const OPTION_MARKER = /^\s*(?:[①-⑩]\s*|(?:\(?[1-9A-Ea-e][.)]|\([1-9A-Ea-e]\))\s+)/;
+const CIRCLED_NUMBERS = '①②③④⑤⑥⑦⑧⑨⑩';
+const MIN_OPTION_SIMILARITY = 0.5;
+// How models join several answers in one string: "①, ③", "물 및 공기".
+const ANSWER_SEPARATOR = /\s*[,、]\s*|\s+(?:그리고|및)\s+/;
+const MULTI_SELECT_SCORINGS: MultiSelectScoring[] = ['all-or-nothing', 'partial'];
+
+// Helper to compare answers robustly (handles trailing dots, whitespace)
+export const isAnswerMatch = (option: string | null, answer: string) => {
+    if (!option) return false;
+    if (option === answer) return true;
+
+    // Normalize: trim and remove trailing punctuation like '.' or ','
+    const normOption = option.trim().replace(/[.,]$/, '');
+    const normAnswer = answer.trim().replace(/[.,]$/, '');
+
+    return normOption === normAnswer;
+};
+
+/**
+ * Escapes backslashes that are not valid JSON escapes (e.g. `\sqrt`, `\cdot`)
+ * so LaTeX written with single backslashes still parses.
+ */
+export const repairJsonEscapes = (jsonString: string): string =>
+    jsonString.replace(/\\\\|\\u(?![0-9a-fA-F]{4})|\\(?!["\\/bfnrtu])/g, match => match === '\\\\' ? match : `\\${match}`);
+
+/**
+ * Restores LaTeX commands whose backslash was consumed by a valid JSON escape,
+ * e.g. `\frac` parsed as a form feed followed by "rac".
+ */
+export const repairLatexEscapes = (text: string): string => {
+    const repaired = text
+        .replace(/\f/g, '\\f')
+        .replace(/\u0008/g, '\\b')
+        .replace(/\t(?=[a-z])/g, '\\t')
+        .replace(/\r(?=[a-z])/g, '\\r');
+    // A newline followed by letters is only a lost `\n...` command (\neq, \nabla) inside math.
+    return repaired.replace(/\$\$[\s\S]*?\$\$|\$[^$]*\$/g, math => math.replace(/\n(?=[a-z])/g, '\\n'));
+};
+
+export const parseGeneratedJson = (jsonString: string): unknown => {
+    try {
+        return JSON.parse(jsonString);
+    } catch {
+        return JSON.parse(repairJsonEscapes(jsonString));
+    }
+};
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[\s_\-/]/g, '');
+
+const normalizeQuestionType = (value: unknown, options?: string[]): QuestionType | null => {
+    if (typeof value === 'string') {
+        if (QUESTION_TYPES.includes(value as QuestionType)) return value as QuestionType;
+        const alias = QUESTION_TYPE_ALIASES[normalizeKey(value)];
+        if (alias) return alias;
+    }
+    // Infer from the shape when the type is missing or unrecognized.
+    if (options && options.length >= 3) return 'multiple-choice';
+    return null;
+};
+
+const normalizeOx = (value: string): 'O' | 'X' | null =>
+    OX_ALIASES[normalizeKey(value.replace(/[.!]$/, ''))] || null;
+
+const stripForComparison = (value: string) =>
+    value.replace(OPTION_MARKER, '').replace(/\$/g, '').replace(/\s+/g, '').replace(/[.,]$/, '').toLowerCase();
+
+const bigrams = (value: string) => {
+    const result: string[] = [];
+    for (let i = 0; i < value.length - 1; i++) {
+        result.push(value.slice(i, i + 2));
+    }
+    return result;
+};
+
+// Dice coefficient over character bigrams; 1 means identical.
+const similarity = (a: string, b: string): number => {
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+    const aBigrams = bigrams(a);
+    const bBigrams = bigrams(b);
+    let overlap = 0;
+    const remaining = [...bBigrams];
+    for (const gram of aBigrams) {
+        const index = remaining.indexOf(gram);
+        if (index !== -1) {
+            overlap++;
+            remaining.splice(index, 1);
+        }
+    }
+    return (2 * overlap) / (aBigrams.length + bBigrams.length);
+};
+
+/** Maps an answer onto one of the options: by option number/letter, exact text, or closest text. */
+const matchAnswerToOption = (answer: string, options: string[]): string | null => {
+    const exact = options.find(option => isAnswerMatch(option, answer));
+    if (exact) return exact;
+
+    const trimmed = answer.trim();
+    const indexMatch = trimmed.match(/^\(?([1-9]|[A-Ea-e]|[①-⑩])[.)]?$/);
+    if (indexMatch) {
+        const marker = indexMatch[1];
+        const index = CIRCLED_NUMBERS.includes(marker)
+            ? CIRCLED_NUMBERS.indexOf(marker)
+            : /[1-9]/.test(marker) ? Number(marker) - 1 : marker.toUpperCase().charCodeAt(0) - 65;
+        if (options[index] !== undefined) return options[index];
+    }
+
+    const target = stripForComparison(answer);
+    let best: { option: string; score: number } | null = null;
+    for (const option of options) {
+        const score = similarity(stripForComparison(option), target);
+        if (!best || score > best.score) best = { option, score };
+    }
+    return best && best.score >= MIN_OPTION_SIMILARITY ? best.option : null;
+};
+
+/**
+ * Maps each correct answer of a multiple-select question onto an option, in option order;
+ * null if any of them matches none. A single answer string is split on its separators.
+ */
+const matchAnswersToOptions = (answers: string[], options: string[]): string[] | null => {
+    const parts = answers.length === 1 && !options.some(option => isAnswerMatch(option, answers[0]))
+        ? answers[0].split(ANSWER_SEPARATOR).filter(Boolean)
+        : answers;
+    const matched = parts.map(part => matchAnswerToOption(part, options));
+    if (matched.length === 0 || matched.some(option => option === null)) return null;
+    return options.filter(option => matched.includes(option));
+};
+
+const asString = (value: unknown): string | undefined =>
+    typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined;
+
+const asStringArray = (value: unknown): string[] | undefined =>
+    Array.isArray(value) ? value.map(asString).filter((v): v is string => v !== undefined) : undefined;
+
+const repairText = (value: unknown): string | undefined => {
+    const text = asString(value);
+    return text === undefined ? undefined : repairLatexEscapes(text);
+};
+
+// Pairs come as `{ left, right }` objects; "left - right" strings are accepted too.
+const asPairs = (value: unknown): MatchingPair[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    return value.flatMap(item => {
+        if (typeof item === 'string') {
+            const [left, right] = item.split(/\s*(?:→|->|:)\s*|\s+-\s+/);
+            return left && right ? [{ left: repairLatexEscapes(left.trim()), right: repairLatexEscapes(right.trim()) }] : [];
+        }
+        if (!item || typeof item !== 'object') return [];
+        const left = repairText((item as Record<string, unknown>).left)?.trim();
+        const right = repairText((item as Record<string, unknown>).right)?.trim();
+        return left && right ? [{ left, right }] : [];
+    });
+};
+
+const hasDuplicates = (values: string[]) => new Set(values).size !== values.length;
+
+/** Repairs one raw item and reports whatever could not be repaired. */
+export const repairQuizQuestion = (item: unknown): { question: GeneratedQuestion | null; issues: QuizQuestionIssue[] } => {
+    if (!item || typeof item !== 'object') {
+        return { question: null, issues: ['missing-question'] };
+    }
+    const raw = item as Record<string, unknown>;
+    const issues: QuizQuestionIssue[] = [];
+
+    let question = repairText(raw.question)?.trim();
+    let answer = repairText(raw.answer)?.trim();
+    let options = asStringArray(raw.options)?.map(repairLatexEscapes).filter(option => option.trim() !== '');
+    const questionType = normalizeQuestionType(raw.questionType, options);
+    const isStructured = questionType !== null && STRUCTURED_QUESTION_TYPES.includes(questionType);
+    const isMultiSelect = questionType === 'multiple-select';
+    let answers = isMultiSelect ? asStringArray(raw.answers)?.map(value => repairLatexEscapes(value).trim()).filter(Boolean) : undefined;
+    if (isMultiSelect && (!answers || answers.length === 0) && answer) answers = [answer];
+
+    const pairs = questionType === 'matching' ? asPairs(raw.pairs) : undefined;
+    const sequence = questionType === 'ordering'
+        ? asStringArray(raw.sequence)?.map(item => repairLatexEscapes(item).trim()).filter(Boolean)
+        : undefined;
+    let clozeText = questionType === 'cloze' ? repairText(raw.clozeText)?.trim() : undefined;
+    const blanks = questionType === 'cloze' ? asStringArray(raw.blanks)?.map(blank => blank.trim()) : undefined;
+    // Models sometimes put the blanked sentence in the question itself.
+    if (questionType === 'cloze' && !clozeText && question && countClozeBlanks(question) > 0) {
+        clozeText = question;
+        question = DEFAULT_CLOZE_INSTRUCTION;
+    }
+
+    if (!question) issues.push('missing-question');
+    if (isMultiSelect ? !answers || answers.length === 0 : !answer && !isStructured) issues.push('missing-answer');
+    if (!questionType) issues.push('unknown-type');
+
+    if (questionType === 'matching') {
+        if (!pairs || pairs.length < MIN_STRUCTURED_ITEMS || hasDuplicates(pairs.map(pair => pair.right))) issues.push('missing-items');
+    } else if (questionType === 'ordering') {
+        if (!sequence || sequence.length < MIN_STRUCTURED_ITEMS || hasDuplicates(sequence)) issues.push('missing-items');
+    } else if (questionType === 'cloze') {
+        if (!clozeText || !blanks || blanks.length === 0 || blanks.some(blank => !blank)) issues.push('missing-items');
+        else if (countClozeBlanks(clozeText) !== blanks.length) issues.push('blank-count-mismatch');
+    }
+
+    if (questionType === 'ox') {
+        options = ['O', 'X'];
+        if (answer) {
+            const oxAnswer = normalizeOx(answer);
+            if (oxAnswer) answer = oxAnswer;
+            else issues.push('answer-not-in-options');
+        }
+    } else if (questionType === 'multiple-choice') {
+        if (!options || options.length < 2) {
+            issues.push('missing-options');
+        } else if (answer) {
+            const matched = matchAnswerToOption(answer, options);
+            if (matched) answer = matched;
+            else issues.push('answer-not-in-options');
+        }
+    } else if (isMultiSelect) {
+        if (!options || options.length < 3) {
+            issues.push('missing-options');
+        } else if (answers && answers.length > 0) {
+            const matched = matchAnswersToOptions(answers, options);
+            if (matched) answers = matched;
+            else issues.push('answer-not-in-options');
+        }
+    }
+
+    if (issues.length > 0 || !question || !questionType) {
+        return { question: null, issues };
+    }
+
+    const structure = { pairs, sequence, clozeText, blanks };
+    // The readable key is rebuilt from the structure so the two always agree.
+    if (isStructured) answer = describeStructuredKey({ question, questionType, answer: '', explanation: '', ...structure });
+    if (isMultiSelect) answer = describeMultiSelectKey({ question, questionType, answer: '', explanation: '', answers });
+    const scoring = isMultiSelect && MULTI_SELECT_SCORINGS.includes(raw.scoring as MultiSelectScoring) ? raw.scoring as MultiSelectScoring : undefined;
+    if (!answer) return { question: null, issues: ['missing-answer'] };
+    const key = answer;
+    // A hint that is just the answer is no hint.
+    const hints = asStringArray(raw.hints)
+        ?.map(hint => repairLatexEscapes(hint).trim())
+        .filter(hint => hint && !isAnswerMatch(hint, key))
+        .slice(0, MAX_HINTS);
+
+    return {
+        question: {
+            question,
+            questionTranslation: asString(raw.questionTranslation),
+            passage: repairText(raw.passage),
+            passageTranslation: asString(raw.passageTranslation),
+            questionType,
+            options: questionType === 'multiple-choice' || questionType === 'ox' || isMultiSelect ? options : undefined,
+            optionsTranslation: asStringArray(raw.optionsTranslation),
+            answers: isMultiSelect ? answers : undefined,
+            scoring,
+            hints: hints && hints.length > 0 ? hints : undefined,
+            ...structure,
+            answer,
+            answerTranslation: asString(raw.answerTranslation),
+            explanation: repairText(raw.explanation) || '',
+            explanationTranslation: asString(raw.explanationTranslation),
+            imagePrompt: asString(raw.imagePrompt),
+        },
+        issues: [],
+    };
+};
+
+export const validateGeneratedQuestions = (items: unknown): ValidatedQuestions => {
+    const result: ValidatedQuestions = { valid: [], invalid: [] };
+    if (!Array.isArray(items)) {
+        return result;
+    }
+    for (const item of items) {
+        const { question, issues } = repairQuizQuestion(item);
+        if (question) result.valid.push(question);
+        else result.invalid.push({ item, issues });
+    }
+    return result;
+};
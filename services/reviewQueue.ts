@@ -0,0 +1,150 @@
+import type { QuizResult, ReviewItem } from '../types.ts';
+import { STORES, requestToPromise, withStore } from './indexedDb.ts';
+import { getActiveProfileId } from './profiles.ts';
+import { loadQuestionImage, loadStudyHistory } from './studyHistory.ts';
+import { toDateKey } from './usageTracker.ts';
+
+// Leitner-style review of missed questions, per learner profile. A missed question starts in
+// box 0; each correct review moves it up a box and further out, a miss sends it back to 0.
+
+// Days until the next review after a correct answer, by the box the item moves into.
+const REVIEW_INTERVAL_DAYS = [1, 2, 4, 8, 16];
+// Due items beyond this are left for the next session so a review stays short.
+export const REVIEW_SESSION_SIZE = 10;
+
+interface StoredReviewItem extends ReviewItem {
+    profileId: string;
+}
+
+const addDays = (days: number, from: Date = new Date()): string => {
+    const date = new Date(from);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+};
+
+const toReviewItem = ({ profileId: _profileId, ...item }: StoredReviewItem): ReviewItem => item;
+
+const loadItems = (profileId: string): Promise<StoredReviewItem[]> =>
+    withStore(STORES.reviewQueue, 'readonly', store =>
+        requestToPromise(store.index('profileId').getAll(profileId) as IDBRequest<StoredReviewItem[]>)
+    );
+
+/**
+ * Queues every wrongly answered question of the results, due the day after the quiz.
+ * Questions already queued (including mastered ones) are left alone, so this can be re-run.
+ */
+export const addMissedQuestions = (results: QuizResult[], profileId: string = getActiveProfileId()): Promise<void> =>
+    withStore(STORES.reviewQueue, 'readwrite', async store => {
+        const known = new Set(await requestToPromise(store.index('profileId').getAllKeys(profileId)));
+        results.forEach(result => {
+            result.questions?.forEach((question, questionIndex) => {
+                const id = `${result.id}#${questionIndex}`;
+                if (result.correctness?.[questionIndex] !== false || known.has(id)) return;
+                const { imageBase64: _imageBase64, ...text } = question;
+                const item: StoredReviewItem = {
+                    id,
+                    resultId: result.id,
+                    questionIndex,
+                    standardId: result.standardId,
+                    subject: result.subject,
+                    grade: result.grade,
+                    question: text,
+                    box: 0,
+                    dueDate: addDays(1, new Date(result.date)),
+                    reviewCount: 0,
+                    profileId,
+                };
+                store.put(item);
+            });
+        });
+    });
+
+let backfillPromise: Promise<void> | null = null;
+
+// Results saved before the review queue existed are queued the first time it is read.
+const backfillFromHistory = (profileId: string): Promise<void> => {
+    if (!backfillPromise) {
+        backfillPromise = loadStudyHistory(profileId)
+            .then(history => addMissedQuestions(history, profileId))
+            .catch(error => {
+                backfillPromise = null;
+                throw error;
+            });
+    }
+    return backfillPromise;
+};
+
+/** The active profile's items due today or earlier, most overdue first. */
+export const loadDueReviewItems = async (): Promise<ReviewItem[]> => {
+    const profileId = getActiveProfileId();
+    await backfillFromHistory(profileId);
+    const today = toDateKey();
+    const items = await loadItems(profileId);
+    return items
+        .filter(item => !item.masteredAt && item.dueDate <= today)
+        .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.id.localeCompare(b.id))
+        .map(toReviewItem);
+};
+
+/** The earliest upcoming review date among items not yet due, if any. */
+export const getNextReviewDate = async (): Promise<string | null> => {
+    const today = toDateKey();
+    const upcoming = (await loadItems(getActiveProfileId()))
+        .filter(item => !item.masteredAt && item.dueDate > today)
+        .map(item => item.dueDate)
+        .sort();
+    return upcoming[0] || null;
+};
+
+/** Puts the question image back on each item for display. */
+export const withReviewImages = (items: ReviewItem[]): Promise<ReviewItem[]> =>
+    Promise.all(items.map(async item => {
+        const imageBase64 = await loadQuestionImage(item.resultId, item.questionIndex);
+        return imageBase64 ? { ...item, question: { ...item.question, imageBase64 } } : item;
+    }));
+
+/**
+ * Reschedules reviewed items: a correct answer moves an item up a box (and past the last box,
+ * marks it mastered); anything else sends it back to box 0, due tomorrow.
+ */
+export const recordReviewOutcomes = (items: ReviewItem[], correctness: (boolean | null)[]): Promise<void> =>
+    withStore(STORES.reviewQueue, 'readwrite', async store => {
+        const now = new Date();
+        for (const [index, item] of items.entries()) {
+            const stored = await requestToPromise(store.get(item.id) as IDBRequest<StoredReviewItem | undefined>);
+            if (!stored) continue;
+            const nextBox = correctness[index] === true ? stored.box + 1 : 0;
+            const box = Math.min(nextBox, REVIEW_INTERVAL_DAYS.length - 1);
+            store.put({
+                ...stored,
+                box,
+                dueDate: addDays(REVIEW_INTERVAL_DAYS[box], now),
+                reviewCount: stored.reviewCount + 1,
+                masteredAt: nextBox >= REVIEW_INTERVAL_DAYS.length ? now.toISOString() : undefined,
+            });
+        }
+    });
+
+/** Every review item of the active profile, mastered ones included; used for backups. */
+export const getAllReviewItems = async (): Promise<ReviewItem[]> =>
+    (await loadItems(getActiveProfileId())).map(toReviewItem);
+
+/**
+ * Adds review items from a backup to the active profile, keeping its own copy of any item it
+ * already has so progress made here is not rolled back.
+ */
+export const importReviewItems = (items: ReviewItem[], profileId: string = getActiveProfileId()): Promise<void> =>
+    withStore(STORES.reviewQueue, 'readwrite', async store => {
+        const known = new Set(await requestToPromise(store.getAllKeys()));
+        items.forEach(item => {
+            if (known.has(item.id)) return;
+            store.put({ ...item, profileId });
+        });
+    });
+
+/** Removes a deleted profile's review items. */
+export const deleteProfileReviewItems = (profileId: string): Promise<void> =>
+    withStore(STORES.reviewQueue, 'readwrite', async store => {
+        const keys = await requestToPromise(store.index('profileId').getAllKeys(profileId));
+        keys.forEach(key => store.delete(key));
+    });
@@ -0,0 +1,140 @@
+import type { QuestionType, QuizQuestion } from '../types.ts';
+import { compareMathAnswers } from './mathAnswer.ts';
+
+// Matching, ordering and cloze questions are answered with several values at once, and earn
+// partial credit per part. The learner's answer is kept as a JSON array in the usual answer
+// string, so results, reviews and shares store it like any other answer:
+// - matching: the right-hand item chosen for each pair, in pair order ('' where none);
+// - ordering: the items in the order the learner put them;
+// - cloze: what was written in each blank.
+
+export const STRUCTURED_QUESTION_TYPES: QuestionType[] = ['matching', 'ordering', 'cloze'];
+
+// A blank in `clozeText`: three or more underscores.
+export const CLOZE_BLANK = /_{3,}/;
+
+export const isStructuredQuestion = (question: QuizQuestion): boolean =>
+    STRUCTURED_QUESTION_TYPES.includes(question.questionType);
+
+export const encodeStructuredAnswer = (values: string[]): string => JSON.stringify(values);
+
+export const decodeStructuredAnswer = (answer: string | null | undefined): string[] => {
+    if (!answer) return [];
+    try {
+        const parsed: unknown = JSON.parse(answer);
+        return Array.isArray(parsed) ? parsed.map(value => typeof value === 'string' ? value : '') : [];
+    } catch {
+        return [];
+    }
+};
+
+export const countClozeBlanks = (text: string): number => text.split(CLOZE_BLANK).length - 1;
+
+const hashText = (text: string): number => {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+        hash = (hash * 31 + text.charCodeAt(i)) | 0;
+    }
+    return hash >>> 0;
+};
+
+/**
+ * The values in a shuffled order seeded by `seedText`, so a question lists its items the same
+ * way every time it is shown. Never returns the original order when there is another.
+ */
+export const shuffleForDisplay = (values: string[], seedText: string): string[] => {
+    let seed = hashText(seedText) || 1;
+    const random = () => {
+        seed = (seed * 1664525 + 1013904223) >>> 0;
+        return seed / 2 ** 32;
+    };
+    const result = [...values];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    if (result.length > 1 && result.every((value, index) => value === values[index])) {
+        result.push(result.shift()!);
+    }
+    return result;
+};
+
+/** The learner's values, one per part; an untouched ordering question is its shuffled start. */
+export const getStructuredValues = (question: QuizQuestion, answer: string | null | undefined): string[] => {
+    const values = decodeStructuredAnswer(answer);
+    switch (question.questionType) {
+        case 'matching':
+            return (question.pairs || []).map((_, index) => values[index] || '');
+        case 'ordering': {
+            const sequence = question.sequence || [];
+            return values.length === sequence.length ? values : shuffleForDisplay(sequence, question.question);
+        }
+        case 'cloze':
+            return (question.blanks || []).map((_, index) => values[index] || '');
+        default:
+            return values;
+    }
+};
+
+export const isStructuredAnswerComplete = (question: QuizQuestion, answer: string | null | undefined): boolean =>
+    getStructuredValues(question, answer).every(value => value.trim() !== '');
+
+// Spacing, case and trailing punctuation do not matter in a blank, nor how a number is
+// written; `/` separates accepted words.
+const normalizeBlank = (value: string) => value.replace(/\s+/g, '').replace(/[.,]$/, '').toLowerCase();
+
+const isBlankMatch = (value: string, blank: string) =>
+    value.trim() !== '' && blank.split('/').some(accepted =>
+        normalizeBlank(accepted) === normalizeBlank(value) || compareMathAnswers(value, accepted) === true);
+
+/** Whether each part is right: per pair, per position, or per blank. */
+export const checkStructuredParts = (question: QuizQuestion, answer: string | null | undefined): boolean[] => {
+    const values = getStructuredValues(question, answer);
+    switch (question.questionType) {
+        case 'matching':
+            return (question.pairs || []).map((pair, index) => values[index] === pair.right);
+        case 'ordering':
+            return (question.sequence || []).map((item, index) => values[index] === item);
+        case 'cloze':
+            return (question.blanks || []).map((blank, index) => isBlankMatch(values[index], blank));
+        default:
+            return [];
+    }
+};
+
+/** Credit from 0 to 1: the share of parts answered right. */
+export const scoreStructuredAnswer = (question: QuizQuestion, answer: string | null | undefined): number => {
+    const parts = checkStructuredParts(question, answer);
+    return parts.length > 0 ? parts.filter(Boolean).length / parts.length : 0;
+};
+
+/** The answer key as text, stored as `answer` on these types. */
+export const describeStructuredKey = (question: QuizQuestion): string => {
+    switch (question.questionType) {
+        case 'matching':
+            return (question.pairs || []).map(pair => `${pair.left} → ${pair.right}`).join(', ');
+        case 'ordering':
+            return (question.sequence || []).join(' → ');
+        case 'cloze':
+            return (question.blanks || []).join(', ');
+        default:
+            return question.answer;
+    }
+};
+
+/** The learner's answer as a Markdown list, marking each part right or wrong. */
+export const describeStructuredAnswer = (question: QuizQuestion, answer: string | null | undefined): string => {
+    const values = getStructuredValues(question, answer);
+    const parts = checkStructuredParts(question, answer);
+    const mark = (index: number) => parts[index] ? '✅' : '❌';
+    switch (question.questionType) {
+        case 'matching':
+            return (question.pairs || []).map((pair, index) => `- ${mark(index)} ${pair.left} → ${values[index] || '(미입력)'}`).join('\n');
+        case 'ordering':
+            return values.map((value, index) => `${index + 1}. ${mark(index)} ${value}`).join('\n');
+        case 'cloze':
+            return values.map((value, index) => `- ${mark(index)} 빈칸 ${index + 1}: ${value || '(미입력)'}`).join('\n');
+        default:
+            return answer || '';
+    }
+};
@@ -0,0 +1,300 @@
+import type { DifficultyLevel, LearningContext, PromptRevision, QuizQuestion, QuizResult } from '../types.ts';
+import { STORES, isQuotaExceededError, requestToPromise, withTransaction } from './indexedDb.ts';
+import { clearContentCache } from './contentCache.ts';
+import { DEFAULT_PROFILE_ID, getActiveProfileId } from './profiles.ts';
+
+// Quiz results live in IndexedDB, tagged with the learner profile they belong to. Question images
+// are split into their own store and only loaded when a single result is opened, which keeps
+// the history list small.
+
+// Bump when the stored result shape changes and add the upgrade to `upgradeRecord`.
+const STUDY_RECORD_VERSION = 1;
+// Where results were kept before the move to IndexedDB.
+const LEGACY_STORAGE_KEY = 'studyHistory';
+
+export type StudyHistoryErrorReason = 'quota' | 'unavailable' | 'unknown';
+
+const STUDY_HISTORY_ERROR_MESSAGES: Record<StudyHistoryErrorReason, string> = {
+    quota: "기기의 저장 공간이 부족해 학습 기록을 저장하지 못했습니다. 학습 현황에서 오래된 기록을 삭제한 뒤 다시 시도해주세요.",
+    unavailable: "이 브라우저에서는 학습 기록을 저장할 수 없습니다. 시크릿 모드라면 일반 창에서 다시 열어주세요.",
+    unknown: "학습 기록을 저장소에서 읽거나 쓰는 중 오류가 발생했습니다.",
+};
+
+export class StudyHistoryError extends Error {
+    readonly reason: StudyHistoryErrorReason;
+
+    constructor(reason: StudyHistoryErrorReason) {
+        super(STUDY_HISTORY_ERROR_MESSAGES[reason]);
+        this.name = 'StudyHistoryError';
+        this.reason = reason;
+    }
+}
+
+interface StoredQuizResult extends QuizResult {
+    schemaVersion: number;
+    profileId: string;
+}
+
+interface StoredQuizImage {
+    key: string;
+    resultId: string;
+    questionIndex: number;
+    data: string;
+}
+
+const toStudyHistoryError = (error: unknown): StudyHistoryError => {
+    if (error instanceof StudyHistoryError) return error;
+    console.error("Study history storage error:", error);
+    if (isQuotaExceededError(error)) return new StudyHistoryError('quota');
+    if (typeof indexedDB === 'undefined' || (error instanceof DOMException && error.name === 'InvalidStateError')) {
+        return new StudyHistoryError('unavailable');
+    }
+    return new StudyHistoryError('unknown');
+};
+
+// Older schema versions are upgraded here as they are read. Version 1 is the first stored shape.
+const upgradeRecord = ({ schemaVersion: _schemaVersion, profileId: _profileId, ...result }: StoredQuizResult): QuizResult => result;
+
+const imageKey = (resultId: string, questionIndex: number) => `${resultId}#${questionIndex}`;
+
+const splitImages = (result: QuizResult, profileId: string): { record: StoredQuizResult; images: StoredQuizImage[] } => {
+    const images: StoredQuizImage[] = [];
+    const questions = result.questions?.map((question, questionIndex): QuizQuestion => {
+        const { imageBase64, ...rest } = question;
+        if (imageBase64) {
+            images.push({ key: imageKey(result.id, questionIndex), resultId: result.id, questionIndex, data: imageBase64 });
+        }
+        return rest;
+    });
+    return { record: { ...result, questions, schemaVersion: STUDY_RECORD_VERSION, profileId }, images };
+};
+
+const writeResults = (results: QuizResult[], profileId: string) =>
+    withTransaction([STORES.studyHistory, STORES.quizImages], 'readwrite', transaction => {
+        const history = transaction.objectStore(STORES.studyHistory);
+        const imageStore = transaction.objectStore(STORES.quizImages);
+        results.forEach(result => {
+            const { record, images } = splitImages(result, profileId);
+            history.put(record);
+            images.forEach(image => imageStore.put(image));
+        });
+    });
+
+// Writes, and on a full disk drops the regenerable content cache once before giving up.
+const writeResultsWithQuotaRecovery = async (results: QuizResult[], profileId: string) => {
+    try {
+        await writeResults(results, profileId);
+    } catch (error) {
+        if (!isQuotaExceededError(error)) throw error;
+        console.warn("Storage quota exceeded; clearing the content cache and retrying.");
+        await clearContentCache();
+        await writeResults(results, profileId);
+    }
+};
+
+let migrationPromise: Promise<void> | null = null;
+
+/**
+ * Copies results from the old localStorage key into IndexedDB, then removes the key.
+ * The key is only removed after the copy commits, so a failed run is retried next time.
+ */
+const migrateLegacyHistory = (): Promise<void> => {
+    if (!migrationPromise) {
+        migrationPromise = (async () => {
+            const raw = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+            if (!raw) return;
+            let legacy: unknown;
+            try {
+                legacy = JSON.parse(raw);
+            } catch (error) {
+                console.error("Discarding unreadable legacy study history:", error);
+                window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+                return;
+            }
+            if (Array.isArray(legacy) && legacy.length > 0) {
+                await writeResultsWithQuotaRecovery(legacy as QuizResult[], DEFAULT_PROFILE_ID);
+            }
+            window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+        })().catch(error => {
+            migrationPromise = null;
+            throw error;
+        });
+    }
+    return migrationPromise;
+};
+
+/** A profile's results (the active one by default), oldest first, without question images (see `loadQuizImages`). */
+export const loadStudyHistory = async (profileId: string = getActiveProfileId()): Promise<QuizResult[]> => {
+    try {
+        await migrateLegacyHistory();
+        const records = await withTransaction([STORES.studyHistory], 'readonly', transaction =>
+            requestToPromise(
+                transaction.objectStore(STORES.studyHistory).index('profileId').getAll(profileId) as IDBRequest<StoredQuizResult[]>
+            )
+        );
+        return records.sort((a, b) => a.date.localeCompare(b.date)).map(upgradeRecord);
+    } catch (error) {
+        throw toStudyHistoryError(error);
+    }
+};
+
+export type QuizOutcome = Pick<QuizResult, 'score' | 'correctAnswers' | 'totalQuestions' | 'userAnswers' | 'correctness' | 'exam' | 'questionTimes' | 'hintsUsed' | 'hintPenalty'>;
+
+/** The record saved when a quiz on `context` is submitted, with full details for later review. */
+export const createQuizResult = (
+    context: LearningContext,
+    questions: QuizQuestion[] | null,
+    quizPrompt: PromptRevision | null | undefined,
+    outcome: QuizOutcome,
+    // One level for the whole quiz, or one per question for an adaptive quiz.
+    difficulty?: DifficultyLevel | DifficultyLevel[]
+): QuizResult => {
+    const now = new Date().toISOString();
+    return {
+        // Every profile on the device shares one id space, and backups carry ids between
+        // devices, so the timestamp alone is not enough.
+        id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+        date: now,
+        standardId: context.standard.id,
+        standardDescription: context.standard.description,
+        subject: context.subjectName,
+        grade: context.grade,
+        unitName: context.unitName,
+        quizPrompt: quizPrompt || undefined,
+        difficulty: Array.isArray(difficulty) ? undefined : difficulty,
+        questionDifficulties: Array.isArray(difficulty) ? difficulty : undefined,
+        ...outcome,
+        questions: questions || undefined,
+    };
+};
+
+/**
+ * The records saved when an assignment spanning several standards is submitted: one per
+ * standard, scored on that standard's questions only, so each lands where a single-standard
+ * quiz would on the dashboards. `points` is the credit per question as reported by `Quiz`.
+ * `standardPrompts` gives a standard's own template revision, used over `quizPrompt`.
+ */
+export const createAssignmentResults = (
+    contexts: LearningContext[],
+    questionStandardIds: string[],
+    questions: QuizQuestion[],
+    quizPrompt: PromptRevision | null | undefined,
+    outcome: QuizOutcome,
+    points: number[],
+    standardPrompts?: Record<string, PromptRevision>
+): QuizResult[] => contexts.flatMap((context, contextIndex) => {
+    const indexes = questionStandardIds.flatMap((standardId, index) => standardId === context.standard.id ? [index] : []);
+    if (indexes.length === 0) return [];
+    const pick = <T>(values: T[]) => indexes.map(index => values[index]);
+    const correctness = pick(outcome.correctness || []).map(value => value ?? null);
+    const earned = pick(points).reduce((sum, point) => sum + (point || 0), 0);
+    const result = createQuizResult(context, pick(questions), standardPrompts?.[context.standard.id] ?? quizPrompt, {
+        score: (earned / indexes.length) * 100,
+        correctAnswers: correctness.filter(value => value === true).length,
+        totalQuestions: indexes.length,
+        userAnswers: pick(outcome.userAnswers || []).map(value => value ?? null),
+        correctness,
+        hintsUsed: outcome.hintsUsed && pick(outcome.hintsUsed),
+        hintPenalty: outcome.hintPenalty,
+    });
+    // The part index marks the records that came from one submission.
+    return [{ ...result, id: `${result.id}#${contextIndex}` }];
+});
+
+/** Which profile owns each stored result id, across every profile on this device. */
+export const loadResultOwners = async (): Promise<Map<string, string>> => {
+    try {
+        await migrateLegacyHistory();
+        return await withTransaction([STORES.studyHistory], 'readonly', transaction => new Promise<Map<string, string>>((resolve, reject) => {
+            const owners = new Map<string, string>();
+            const request = transaction.objectStore(STORES.studyHistory).index('profileId').openKeyCursor();
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) {
+                    resolve(owners);
+                    return;
+                }
+                owners.set(String(cursor.primaryKey), String(cursor.key));
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        }));
+    } catch (error) {
+        throw toStudyHistoryError(error);
+    }
+};
+
+/** Stores results for the active profile in one transaction; a result with an existing id replaces it. */
+export const addStudyResults = async (results: QuizResult[]): Promise<void> => {
+    try {
+        await writeResultsWithQuotaRecovery(results, getActiveProfileId());
+    } catch (error) {
+        throw toStudyHistoryError(error);
+    }
+};
+
+export const addStudyResult = (result: QuizResult): Promise<void> => addStudyResults([result]);
+
+const deleteResults = (transaction: IDBTransaction, ids: IDBValidKey[]) => {
+    const history = transaction.objectStore(STORES.studyHistory);
+    const imageIndex = transaction.objectStore(STORES.quizImages).index('resultId');
+    return Promise.all(ids.map(async id => {
+        history.delete(id);
+        const keys = await requestToPromise(imageIndex.getAllKeys(id));
+        keys.forEach(key => imageIndex.objectStore.delete(key));
+    }));
+};
+
+export const deleteStudyResult = async (id: string): Promise<void> => {
+    try {
+        await withTransaction([STORES.studyHistory, STORES.quizImages], 'readwrite', transaction =>
+            deleteResults(transaction, [id])
+        );
+    } catch (error) {
+        throw toStudyHistoryError(error);
+    }
+};
+
+/** Removes every result of a profile that is being deleted. */
+export const deleteProfileHistory = async (profileId: string): Promise<void> => {
+    try {
+        await withTransaction([STORES.studyHistory, STORES.quizImages], 'readwrite', async transaction => {
+            const ids = await requestToPromise(transaction.objectStore(STORES.studyHistory).index('profileId').getAllKeys(profileId));
+            await deleteResults(transaction, ids);
+        });
+    } catch (error) {
+        throw toStudyHistoryError(error);
+    }
+};
+
+/** The stored image of one question of a result, if it had one. */
+export const loadQuestionImage = async (resultId: string, questionIndex: number): Promise<string | undefined> => {
+    try {
+        const image = await withTransaction([STORES.quizImages], 'readonly', transaction =>
+            requestToPromise(transaction.objectStore(STORES.quizImages).get(imageKey(resultId, questionIndex)) as IDBRequest<StoredQuizImage | undefined>)
+        );
+        return image?.data;
+    } catch (error) {
+        console.warn("Failed to load quiz image:", error);
+        return undefined;
+    }
+};
+
+/** Puts the stored images back on the result's questions. Missing images are not an error. */
+export const loadQuizImages = async (result: QuizResult): Promise<QuizResult> => {
+    if (!result.questions) return result;
+    try {
+        const images = await withTransaction([STORES.quizImages], 'readonly', transaction =>
+            requestToPromise(transaction.objectStore(STORES.quizImages).index('resultId').getAll(result.id) as IDBRequest<StoredQuizImage[]>)
+        );
+        if (images.length === 0) return result;
+        const questions = result.questions.map((question, index) => {
+            const image = images.find(i => i.questionIndex === index);
+            return image ? { ...question, imageBase64: image.data } : question;
+        });
+        return { ...result, questions };
+    } catch (error) {
+        console.warn("Failed to load quiz images:", error);
+        return result;
+    }
+};
@@ -0,0 +1,136 @@
+import type { AiFeature, UsageRecord } from '../types.ts';
+import type { AiUsage } from './aiProvider.ts';
+
+// Records how many calls, tokens and images each AI feature consumes so whoever pays
+// for the API key can see the estimated cost and cap it with a daily budget.
+
+const USAGE_STORAGE_KEY = 'aiUsage';
+const BUDGET_STORAGE_KEY = 'aiDailyBudgetUsd';
+const USAGE_RETENTION_DAYS = 90;
+
+/** Fired on `window` whenever usage or the budget changes. */
+export const USAGE_CHANGED_EVENT = 'ai-usage-changed';
+
+interface ModelPrice {
+    // USD per 1M tokens.
+    input: number;
+    output: number;
+    // USD per generated image, for models billed per image.
+    image?: number;
+}
+
+// Published list prices; good enough for an estimate, not an invoice.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash-preview-tts': { input: 0.50, output: 10 },
+    'imagen-4.0-generate-001': { input: 0, output: 0, image: 0.04 },
+    'imagen-4.0-fast-generate-001': { input: 0, output: 0, image: 0.02 },
+    'imagen-4.0-ultra-generate-001': { input: 0, output: 0, image: 0.06 },
+    'gpt-4o-mini': { input: 0.15, output: 0.60 },
+    'gpt-4o': { input: 2.50, output: 10 },
+    'gpt-image-1': { input: 5, output: 40 },
+};
+
+// Longest prefix wins, so dated variants like "gpt-4o-mini-2024-07-18" still match.
+const PRICED_MODELS = Object.keys(MODEL_PRICES).sort((a, b) => b.length - a.length);
+
+const findPrice = (model: string): ModelPrice | undefined => {
+    const match = PRICED_MODELS.find(priced => model.startsWith(priced));
+    return match ? MODEL_PRICES[match] : undefined;
+};
+
+/** Unknown models (self-hosted servers, demo mode) are counted but cost nothing. */
+export const estimateCostUsd = (model: string, usage: AiUsage): number => {
+    const price = findPrice(model);
+    if (!price) return 0;
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+        + (usage.images || 0) * (price.image || 0);
+};
+
+export const toDateKey = (date: Date = new Date()): string => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const readJson = <T,>(key: string, fallback: T): T => {
+    try {
+        const item = window.localStorage.getItem(key);
+        return item ? JSON.parse(item) : fallback;
+    } catch (error) {
+        console.error(error);
+        return fallback;
+    }
+};
+
+const writeJson = (key: string, value: unknown) => {
+    try {
+        window.localStorage.setItem(key, JSON.stringify(value));
+        window.dispatchEvent(new Event(USAGE_CHANGED_EVENT));
+    } catch (error) {
+        console.error(error);
+    }
+};
+
+export const getUsageRecords = (): UsageRecord[] => readJson<UsageRecord[]>(USAGE_STORAGE_KEY, []);
+
+export const clearUsageRecords = () => writeJson(USAGE_STORAGE_KEY, []);
+
+export const recordUsage = (feature: AiFeature, model: string, usage: AiUsage, standardId?: string) => {
+    const date = toDateKey();
+    const oldest = new Date();
+    oldest.setDate(oldest.getDate() - USAGE_RETENTION_DAYS);
+    const cutoff = toDateKey(oldest);
+
+    const records = getUsageRecords().filter(record => record.date >= cutoff);
+    let record = records.find(r =>
+        r.date === date && r.feature === feature && r.model === model && r.standardId === standardId
+    );
+    if (!record) {
+        record = { date, feature, model, standardId, requests: 0, inputTokens: 0, outputTokens: 0, images: 0, estimatedCostUsd: 0 };
+        records.push(record);
+    }
+    record.requests += 1;
+    record.inputTokens += usage.inputTokens;
+    record.outputTokens += usage.outputTokens;
+    record.images += usage.images || 0;
+    record.estimatedCostUsd += estimateCostUsd(model, usage);
+    writeJson(USAGE_STORAGE_KEY, records);
+};
+
+const usageRecordKey = (record: UsageRecord) =>
+    [record.date, record.feature, record.model, record.standardId ?? ''].join('|');
+
+/**
+ * Folds records from a backup into the stored ones. A record present on both sides keeps
+ * whichever counted more requests, so restoring onto the same device never double counts.
+ */
+export const mergeUsageRecords = (incoming: UsageRecord[]) => {
+    const merged = new Map(getUsageRecords().map(record => [usageRecordKey(record), record]));
+    incoming.forEach(record => {
+        const existing = merged.get(usageRecordKey(record));
+        if (!existing || record.requests > existing.requests) {
+            merged.set(usageRecordKey(record), record);
+        }
+    });
+    writeJson(USAGE_STORAGE_KEY, [...merged.values()].sort((a, b) => a.date.localeCompare(b.date)));
+};
+
+/** Daily budget in USD, or null when no budget is set. */
+export const getDailyBudgetUsd = (): number | null => readJson<number | null>(BUDGET_STORAGE_KEY, null);
+
+export const setDailyBudgetUsd = (budget: number | null) => writeJson(BUDGET_STORAGE_KEY, budget);
+
+export const getTodayCostUsd = (): number => {
+    const today = toDateKey();
+    return getUsageRecords()
+        .filter(record => record.date === today)
+        .reduce((sum, record) => sum + record.estimatedCostUsd, 0);
+};
+
+export const isDailyBudgetExceeded = (): boolean => {
+    const budget = getDailyBudgetUsd();
+    return budget !== null && getTodayCostUsd() >= budget;
+};
@@ -1,7 +1,11 @@
 
-export type QuestionType = 'multiple-choice' | 'short-answer' | 'ox' | 'creativity';
+export type QuestionType = 'multiple-choice' | 'multiple-select' | 'short-answer' | 'ox' | 'creativity' | 'matching' | 'ordering' | 'cloze';
 
-export type View = 'selector' | 'study' | 'dashboard';
+// How a multiple-select question is scored: only a fully right selection earns credit, or
+// each right choice earns a share and each wrong one takes a share back.
+export type MultiSelectScoring = 'all-or-nothing' | 'partial';
+
+export type View = 'selector' | 'study' | 'dashboard' | 'settings' | 'class' | 'shared-quiz' | 'assignment' | 'bank' | 'review';
 
 export type Theme = 'light' | 'dark' | 'system';
 
@@ -9,7 +13,15 @@ export type DifficultyLevel = 'easy' | 'medium' | 'hard';
 
 export interface HistoryState {
     view: View;
-    standard: { subjectName: string, standard: AchievementStandard } | null;
+    standard: LearningContext | null;
+}
+
+// Where in the curriculum the student is studying; AI prompts are pitched to `grade`.
+export interface LearningContext {
+    subjectName: string;
+    grade: string;
+    unitName: string;
+    standard: AchievementStandard;
 }
 
 export interface AchievementStandard {
@@ -37,14 +49,28 @@ export interface EducationCurriculum {
     subjects: Subject[];
 }
 
+/** One pair of a matching question: `left` is shown in order, `right` is what it goes with. */
+export interface MatchingPair {
+    left: string;
+    right: string;
+}
+
 export interface QuizQuestion {
     question: string;
     questionTranslation?: string;
     passage?: string; // Text for listening script or reading passage
     passageTranslation?: string;
     questionType: QuestionType;
-    options?: string[]; // For multiple-choice and OX
+    options?: string[]; // For multiple-choice, multiple-select and OX
     optionsTranslation?: string[];
+    answers?: string[]; // For multiple-select: every correct option
+    hints?: string[]; // Graduated hints, the gentlest first; none of them gives the answer away
+    scoring?: MultiSelectScoring; // For multiple-select; all-or-nothing when absent
+    pairs?: MatchingPair[]; // For matching
+    sequence?: string[]; // For ordering, in the correct order
+    clozeText?: string; // For cloze: the text with each blank written as ___
+    blanks?: string[]; // For cloze: the word for each blank, in order
+    // For multiple-select, matching, ordering and cloze, a readable form of the key above.
     answer: string;
     answerTranslation?: string;
     explanation: string;
@@ -52,6 +78,66 @@ export interface QuizQuestion {
     imageBase64?: string;
 }
 
+/** A question kept in the question bank for reuse on its standard. */
+export interface BankQuestion {
+    id: string;
+    standardId: string;
+    difficulty: DifficultyLevel;
+    question: QuizQuestion;
+    // Saved from AI output, or written by a teacher.
+    source: 'generated' | 'manual';
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type MasteryLevel = 'none' | 'learning' | 'developing' | 'mastered';
+
+/** How well a learner has mastered one achievement standard, estimated from their answers. */
+export interface StandardMastery {
+    standardId: string;
+    // Estimated probability of answering a question on the standard correctly, 0 to 1.
+    estimate: number;
+    // Weighted number of answers behind the estimate, after recency decay.
+    evidence: number;
+    level: MasteryLevel;
+    attempts: number;
+    lastStudied: string;
+}
+
+/** A question the learner got wrong, scheduled for spaced review. */
+export interface ReviewItem {
+    // `${resultId}#${questionIndex}`: one item per missed question of a saved result.
+    id: string;
+    resultId: string;
+    questionIndex: number;
+    standardId: string;
+    subject: string;
+    grade?: string;
+    // Stored without its image; the result's image is loaded when the item is reviewed.
+    question: QuizQuestion;
+    // Leitner box: 0 after a miss, one higher after each correct review.
+    box: number;
+    dueDate: string; // YYYY-MM-DD in local time
+    reviewCount: number;
+    // Set once the item has been answered correctly in the last box; it is no longer due.
+    masteredAt?: string;
+}
+
+/** Identifies the prompt template (and its version) that produced a piece of content. */
+export interface PromptRevision {
+    templateId: string;
+    version: number;
+}
+
+// In exam mode feedback is held back until the quiz is submitted, and a countdown runs for
+// the whole quiz or for each question separately.
+export type ExamTiming = 'total' | 'per-question';
+
+export interface ExamSettings {
+    timing: ExamTiming;
+    limitSeconds: number;
+}
+
 export interface QuizResult {
     id: string;
     date: string;
@@ -61,6 +147,22 @@ export interface QuizResult {
     score: number;
     totalQuestions: number;
     correctAnswers: number;
+    // Absent on records saved before grade-aware prompting.
+    grade?: string;
+    unitName?: string;
+    // Prompt template the questions were generated from; absent on older records.
+    quizPrompt?: PromptRevision;
+    // Difficulty the quiz was generated at; absent on older records and shared quizzes.
+    difficulty?: DifficultyLevel;
+    // Level of each question in an adaptive quiz, where it changes as the quiz goes on.
+    questionDifficulties?: DifficultyLevel[];
+    // Set when the quiz was taken in exam mode.
+    exam?: ExamSettings;
+    // Seconds spent on each question of an exam-mode quiz.
+    questionTimes?: number[];
+    // Hints revealed on each question, and the share of a question's credit each one cost.
+    hintsUsed?: number[];
+    hintPenalty?: number;
     // New fields for reviewing saved quizzes
     questions?: QuizQuestion[];
     userAnswers?: (string | null)[];
@@ -80,3 +182,72 @@ export interface ShortAnswerEvaluation {
     grade: Grade;
     feedback: string;
 }
+
+export type AiProviderId = 'gemini' | 'openai-compatible' | 'demo';
+
+// Feature that an AI call belongs to. Providers use it to pick a default model.
+export type AiFeature = 'explanation' | 'quiz' | 'grading' | 'diagnosis' | 'image' | 'speech';
+
+/** AI usage summed per local day, feature, model and achievement standard. */
+export interface UsageRecord {
+    date: string; // YYYY-MM-DD in local time
+    feature: AiFeature;
+    model: string;
+    standardId?: string;
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    estimatedCostUsd: number;
+}
+
+// Per-feature tuning; anything left undefined falls back to the provider default.
+export interface FeatureModelSettings {
+    model?: string;
+    // Gemini thinking tokens: 0 turns thinking off, -1 lets the model decide.
+    thinkingBudget?: number;
+    temperature?: number;
+}
+
+export interface AiProviderSettings {
+    providerId: AiProviderId;
+    baseUrl?: string; // For OpenAI-compatible / self-hosted endpoints
+    model?: string; // Overrides the provider's default text model
+    features?: Partial<Record<AiFeature, FeatureModelSettings>>; // Wins over `model`
+}
+
+export type ModelAccessStatus = 'available' | 'denied' | 'not_found' | 'error';
+
+/** Whether the configured key can use a model, as checked by `validateApiKey`. */
+export interface ModelAccessResult {
+    model: string;
+    features: AiFeature[];
+    status: ModelAccessStatus;
+    message?: string;
+}
+
+/** A student in the teacher's class roster, from a profile on this device or an imported backup file. */
+export interface RosterStudent {
+    id: string;
+    name: string;
+    avatar?: string;
+    source: 'profile' | 'file';
+    results: QuizResult[];
+    // When the student's file was last imported; absent for device profiles, which are read live.
+    importedAt?: string;
+}
+
+export interface LearnerProfile {
+    id: string;
+    name: string;
+    // An emoji from PROFILE_AVATARS.
+    avatar: string;
+    // A curriculum grade label such as "초등학교 3~4학년"; preselected when choosing a standard.
+    grade?: string;
+    // SHA-256 of the profile id and PIN; absent when the profile has no PIN.
+    pinHash?: string;
+    // Teacher profiles open the class views (roster, question bank, assignments), which show
+    // every learner's answers and answer keys; they always have a PIN.
+    isTeacher?: boolean;
+    createdAt: string;
+}